@@ -1,25 +1,39 @@
 import cors from "cors";
 import dotenv from "dotenv";
-import express from "express";
+import express, { NextFunction, Request, Response } from "express";
 import session from "express-session";
-import logger from "morgan";
 import * as path from "path";
 
 // The following line sets up the environment variables before everything else.
 dotenv.config();
 
 import MongoStore from "connect-mongo";
-import { connectDb } from "../server/db";
+import { client, connectDb } from "../server/db";
+import DocCollection from "../server/framework/doc";
+import { startScheduler } from "../server/framework/jobs";
+import { logRequests, logger } from "../server/framework/logger";
+import { migrateUp } from "../server/framework/migrations";
+import jobs from "../server/jobs";
+import { getMonitoringRouter } from "../server/monitoring";
+import { seed } from "../server/seed";
+import migrations from "../server/migrations";
 import router from "../server/routes";
 
 export const app = express();
 const PORT = process.env.PORT || 3000;
-app.use(logger("dev"));
+// Without MongoDB, sessions are kept in memory like the rest of the data.
+const store = client ? MongoStore.create({ client }) : new session.MemoryStore();
+
+// First, so the frequent probes of monitoring don't fill the logs nor create sessions.
+app.use("/api", getMonitoringRouter(store));
+
+app.use(logRequests());
 
 app.use(cors()); // https://developer.mozilla.org/en-US/docs/Web/HTTP/CORS
 
 app.use(express.json()); // Enable parsing JSON in requests and responses.
 app.use(express.urlencoded({ extended: false })); // Also enable URL encoded request and responses.
+app.use(express.raw({ type: "application/zip", limit: "20mb" })); // Archives for importing data.
 
 // Session allows us to store a cookie 🍪.
 app.use(
@@ -27,9 +41,7 @@ app.use(
     secret: process.env.SECRET || "Hello 6.1040",
     resave: true,
     saveUninitialized: false,
-    store: MongoStore.create({
-      mongoUrl: process.env.MONGO_SRV,
-    }),
+    store,
   }),
 );
 
@@ -39,12 +51,53 @@ app.use("/api", router);
 // For all unrecognized requests, return a not found message.
 app.all("*", (req, res) => {
   res.status(404).json({
+    code: "NOT_FOUND",
     msg: "Page not found",
+    params: {},
   });
 });
 
-void connectDb().then(() => {
-  app.listen(PORT, () => {
-    console.log("Started listening on port", PORT);
-  });
+// Errors of the middleware above, e.g. a body that isn't valid JSON or is too large, since routes handle their own.
+// Express tells error handlers apart by their 4 parameters, so `_next` has to be there.
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+app.use((err: Error & { status?: number }, req: Request, res: Response, _next: NextFunction) => {
+  const status = err.status ?? 500;
+  logger[status >= 500 ? "error" : "info"]("Request failed", { status, error: err });
+  res.status(status).json({ code: status >= 500 ? "INTERNAL_ERROR" : "BAD_VALUES", msg: err.message, params: {}, requestId: res.get("X-Request-Id") });
 });
+
+// Without its database, migrations or jobs the app would only answer errors, so it stops if any of them fails to start.
+connectDb()
+  .then(async () => {
+    // Set MIGRATE_ON_START=false to only run migrations with `npm run migrate`.
+    if (process.env.MIGRATE_ON_START !== "false") {
+      const applied = await migrateUp(migrations);
+      if (applied.length > 0) {
+        logger.info("Applied migrations", { migrations: applied });
+      }
+    }
+    // After migrations, which may have to fix up documents for new unique indexes.
+    for (const result of await DocCollection.syncAllIndexes()) {
+      if (result.error) {
+        logger.error("Could not sync indexes", { collection: result.collection, error: result.error });
+      } else if (result.created.length > 0 || result.dropped.length > 0) {
+        logger.info("Synced indexes", { collection: result.collection, created: result.created, dropped: result.dropped });
+      }
+    }
+    // Data kept in memory can't be seeded with `npm run seed`, so SEED_PROFILE (and SEED) seed it on start instead.
+    if (process.env.SEED_PROFILE && !client) {
+      await seed(process.env.SEED_PROFILE, Number(process.env.SEED ?? 1));
+      logger.info("Seeded", { profile: process.env.SEED_PROFILE });
+    }
+    // Set JOBS=false on instances that shouldn't run background jobs (any number of instances can run them).
+    if (process.env.JOBS !== "false") {
+      await startScheduler(jobs);
+    }
+    app.listen(PORT, () => {
+      logger.info("Started listening", { port: PORT });
+    });
+  })
+  .catch((error) => {
+    logger.error("Could not start", { error });
+    process.exit(1);
+  });
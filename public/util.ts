@@ -51,7 +51,7 @@ const operations: operation[] = [
     name: "Get Users by name (empty for all)",
     endpoint: "/api/users",
     method: "GET",
-    fields: { name: "input" },
+    fields: { name: "input", limit: "input", after: "input" },
   },
   {
     name: "Get Users by id (empty for all)",
@@ -69,7 +69,7 @@ const operations: operation[] = [
     name: "Get Category (or all if left empty)",
     endpoint: "/api/categories",
     method: "GET",
-    fields: { _id: "input" },
+    fields: { _id: "input", limit: "input", after: "input" },
   },
   {
     name: "Delete a category and all its posts",
@@ -81,7 +81,7 @@ const operations: operation[] = [
     name: "Get Focused Posts by author email (will take priority if you enter both) or id (empty for all)",
     endpoint: "/api/focusedPosts",
     method: "GET",
-    fields: { authorEmail: "input", _id: "input" },
+    fields: { authorEmail: "input", _id: "input", limit: "input", after: "input" },
   },
   {
     name: "Create Focused Post (seperate google drive media URLs by ', ')",
@@ -105,13 +105,13 @@ const operations: operation[] = [
     name: "Get connections for a user by their ID",
     endpoint: "/api/connections/:id",
     method: "GET",
-    fields: { id: "input" },
+    fields: { id: "input", limit: "input", after: "input" },
   },
   {
     name: "See your connection requests",
     endpoint: "/api/connections/requests",
     method: "GET",
-    fields: {},
+    fields: { limit: "input", after: "input" },
   },
   {
     name: "Remove a connection by the other user's ID",
@@ -147,7 +147,7 @@ const operations: operation[] = [
     name: "Get comments for a post (don't leave empty)",
     endpoint: "/api/comments/post/:postId",
     method: "GET",
-    fields: { postId: "input" },
+    fields: { postId: "input", limit: "input", after: "input" },
   },
   {
     name: "Add a comment by post id",
@@ -171,13 +171,13 @@ const operations: operation[] = [
     name: "Get tags for a post",
     endpoint: "/api/tags/post/:postId",
     method: "GET",
-    fields: { postId: "input" },
+    fields: { postId: "input", limit: "input", after: "input" },
   },
   {
     name: "Get tags for a user",
     endpoint: "/api/tags/user/:userId",
     method: "GET",
-    fields: { userId: "input" },
+    fields: { userId: "input", limit: "input", after: "input" },
   },
   {
     name: "Add a tag by user id and post id",
@@ -207,13 +207,13 @@ const operations: operation[] = [
     name: "Get the IDs of users who accepted today's challenge (for frontend purposes)",
     endpoint: "/api/challenge/accepted",
     method: "GET",
-    fields: {},
+    fields: { limit: "input", after: "input" },
   },
   {
     name: "Get posted Challenge by id (leave empty for all)",
     endpoint: "/api/challenge",
     method: "GET",
-    fields: { _id: "input" },
+    fields: { _id: "input", limit: "input", after: "input" },
   },
   {
     name: "Accept today's Challenge by posting content (seperate Google Drive media URLs using ', ')",
@@ -231,13 +231,13 @@ const operations: operation[] = [
     name: "List an opportunity by id (leave empty for all)",
     endpoint: "/api/opportunities/id",
     method: "GET",
-    fields: { _id: "input" },
+    fields: { _id: "input", limit: "input", after: "input" },
   },
   {
     name: "Get opportunities posted by user by their ID",
     endpoint: "/api/opportunities/user/:id",
     method: "GET",
-    fields: { id: "input" },
+    fields: { id: "input", limit: "input", after: "input" },
   },
   {
     name: "See if an opportunity fits in date range (enter opportunity id, start date and end date)",
@@ -279,13 +279,13 @@ const operations: operation[] = [
     name: "Get all applications for an opportunity you own using its id",
     endpoint: "/api/application/opportunity",
     method: "GET",
-    fields: { opId: "input" },
+    fields: { opId: "input", limit: "input", after: "input" },
   },
   {
     name: "Get applications you submitted",
     endpoint: "/api/application",
     method: "GET",
-    fields: {},
+    fields: { limit: "input", after: "input" },
   },
   {
     name: "Get application by id",
@@ -376,7 +376,7 @@ const operations: operation[] = [
     name: "Get the repertiore folders for a given user by their id",
     endpoint: "/api/repertoirefolders/:id",
     method: "GET",
-    fields: { id: "input" },
+    fields: { id: "input", limit: "input", after: "input" },
   },
   {
     name: "Create a new repertoire folder (if actor)",
@@ -461,6 +461,66 @@ const operations: operation[] = [
     endpoint: "/api/vote",
     method: "POST",
     fields: { post: "input", upvote: "input" },
+  }, //TRASH
+  {
+    name: "Get your deleted focused posts",
+    endpoint: "/api/trash/focusedPosts",
+    method: "GET",
+    fields: { limit: "input", after: "input" },
+  },
+  {
+    name: "Restore a deleted focused post",
+    endpoint: "/api/trash/focusedPosts/restore/:_id",
+    method: "PATCH",
+    fields: { _id: "input" },
+  },
+  {
+    name: "Get your deleted comments",
+    endpoint: "/api/trash/comments",
+    method: "GET",
+    fields: { limit: "input", after: "input" },
+  },
+  {
+    name: "Restore a deleted comment",
+    endpoint: "/api/trash/comments/restore/:_id",
+    method: "PATCH",
+    fields: { _id: "input" },
+  },
+  {
+    name: "Get your deleted opportunities",
+    endpoint: "/api/trash/opportunities",
+    method: "GET",
+    fields: { limit: "input", after: "input" },
+  },
+  {
+    name: "Restore a deleted opportunity",
+    endpoint: "/api/trash/opportunities/restore/:_id",
+    method: "PATCH",
+    fields: { _id: "input" },
+  },
+  {
+    name: "Get your deleted repertoire folders",
+    endpoint: "/api/trash/repertoirefolders",
+    method: "GET",
+    fields: { limit: "input", after: "input" },
+  },
+  {
+    name: "Restore a deleted repertoire folder",
+    endpoint: "/api/trash/repertoirefolders/restore/:_id",
+    method: "PATCH",
+    fields: { _id: "input" },
+  },
+  {
+    name: "Permanently delete everything moved to the trash before a date (admin only, empty for now)",
+    endpoint: "/api/trash",
+    method: "DELETE",
+    fields: { before: "input" },
+  }, //AUDIT LOG
+  {
+    name: "Get the audit log (admin only, all fields optional)",
+    endpoint: "/api/audit",
+    method: "GET",
+    fields: { user: "input", collectionName: "input", document: "input", from: "input", to: "input", limit: "input", after: "input" },
   },
 ];
 
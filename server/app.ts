@@ -1,19 +1,24 @@
 import ApplauseConcept from "./concepts/applause";
-import ApplicationConcept from "./concepts/application";
-import ChallengeConcept from "./concepts/challenge";
-import CommentConcept from "./concepts/comment";
-import ConnectionConcept from "./concepts/connection";
-import FocusedPostConcept from "./concepts/focusedPost";
-import FolderConcept from "./concepts/folder";
+import ApplicationConcept, { ApplicationCreated, ApplicationStatusChanged, ApplicationWithdrawn } from "./concepts/application";
+import AuditConcept from "./concepts/audit";
+import ChallengeConcept, { ChallengePosted, ChallengeProposed } from "./concepts/challenge";
+import CommentConcept, { CommentCreated, CommentDeleted, CommentRestored } from "./concepts/comment";
+import ConnectionConcept, { ConnectionAccepted, ConnectionRemoved, ConnectionRequested } from "./concepts/connection";
+import FocusedPostConcept, { PostCreated, PostDeleted, PostRestored } from "./concepts/focusedPost";
+import FolderConcept, { RepertoireFolderCreated, RepertoireFolderDeleted, RepertoireFolderRestored } from "./concepts/folder";
 import MediaConcept from "./concepts/media";
-import OpportunityConcept from "./concepts/opportunity";
-import PortfolioConcept from "./concepts/portfolio";
+import OpportunityConcept, { OpportunityCreated, OpportunityDeleted, OpportunityRestored } from "./concepts/opportunity";
+import PortfolioConcept, { PortfolioEdited, PortfolioMediaAdded, PortfolioMediaRemoved } from "./concepts/portfolio";
 import QueueConcept from "./concepts/queue";
 import RestrictionsConcept from "./concepts/restrictions";
-import TagConcept from "./concepts/tag";
-import UserConcept from "./concepts/user";
-import VoteConcept from "./concepts/vote";
+import SearchConcept from "./concepts/search";
+import TagConcept, { TagAdded, TagRemoved } from "./concepts/tag";
+import UserConcept, { UserCreated, UserDeleted } from "./concepts/user";
+import VoteConcept, { VoteCast } from "./concepts/vote";
 import WebSessionConcept from "./concepts/websession";
+import DocCollection from "./framework/doc";
+import { subscribe } from "./framework/events";
+import { notify } from "./framework/stream";
 
 // App Definition using concepts
 export const WebSession = new WebSessionConcept();
@@ -32,3 +37,98 @@ export const Folder = new FolderConcept();
 export const Restrictions = new RestrictionsConcept();
 export const Portfolio = new PortfolioConcept();
 export const Media = new MediaConcept();
+export const Audit = new AuditConcept();
+export const Search = new SearchConcept();
+
+// Every write made by the concepts above ends up in the audit log
+DocCollection.onWrite(async (event) => {
+  await Audit.record(event);
+});
+
+// and the search index is kept up to date with the searchable ones, see `GET /api/search`
+Search.addSource({ type: "post", collection: FocusedPost.posts, fields: (post) => ({ content: post.content }) });
+Search.addSource({
+  type: "opportunity",
+  collection: Opportunity.opportunities,
+  // Only opportunities still open for applications can be found.
+  fields: (opportunity) =>
+    opportunity.isActive
+      ? {
+          title: opportunity.title,
+          description: opportunity.description,
+          requirements: [...opportunity.requirements.skill, ...opportunity.requirements.physical, opportunity.requirements.location].join(", "),
+        }
+      : null,
+  weights: { title: 3 },
+});
+Search.addSource({ type: "user", collection: User.users, fields: (user) => ({ name: user.name, city: user.city }), weights: { name: 2 } });
+Search.addSource({ type: "challenge", collection: Challenge.posted, fields: (challenge) => ({ prompt: challenge.prompt }) });
+DocCollection.onWrite(async (event) => {
+  await Search.record(event);
+});
+
+// Synchronizations between concepts, run whenever a concept publishes the event
+
+// applause
+
+subscribe(UserCreated, (e) => Applause.initialize(e.user));
+subscribe(UserDeleted, (e) => Applause.delete(e.user));
+subscribe(PostCreated, async (e) => Applause.update(e.author, (await FocusedPost.isChallengeCategory(e.category)) ? 5 : 3));
+subscribe(PostDeleted, (e) => Applause.update(e.author, -3));
+subscribe(PostRestored, (e) => Applause.update(e.author, 3));
+subscribe(CommentCreated, (e) => Applause.update(e.author, 0.5));
+subscribe(CommentDeleted, (e) => Applause.update(e.author, -0.5));
+subscribe(CommentRestored, (e) => Applause.update(e.author, 0.5));
+subscribe(TagAdded, (e) => Applause.update(e.tagged, 2));
+subscribe(TagRemoved, (e) => Applause.update(e.tagged, -2));
+subscribe(VoteCast, async (e) => Applause.update((await FocusedPost.getById(e.parent)).author, e.applausePoints));
+subscribe(ConnectionAccepted, async (e) => {
+  await Applause.update(e.from, 1);
+  await Applause.update(e.to, 1);
+});
+subscribe(ConnectionRemoved, async (e) => {
+  await Applause.update(e.user1, -1);
+  await Applause.update(e.user2, -1);
+});
+subscribe(ChallengeProposed, (e) => Applause.update(e.challenger, 0.5));
+subscribe(OpportunityCreated, (e) => Applause.update(e.user, 3));
+subscribe(OpportunityDeleted, (e) => Applause.update(e.user, -3));
+subscribe(OpportunityRestored, (e) => Applause.update(e.user, 3));
+subscribe(ApplicationCreated, (e) => Applause.update(e.user, 2));
+subscribe(ApplicationWithdrawn, (e) => Applause.update(e.user, -2));
+subscribe(PortfolioEdited, (e) => Applause.update(e.user, 0.5));
+subscribe(PortfolioMediaAdded, (e) => Applause.update(e.user, 0.5));
+subscribe(PortfolioMediaRemoved, (e) => Applause.update(e.user, -0.5));
+subscribe(RepertoireFolderCreated, (e) => Applause.update(e.user, 0.5));
+subscribe(RepertoireFolderDeleted, (e) => Applause.update(e.user, -0.5));
+subscribe(RepertoireFolderRestored, (e) => Applause.update(e.user, 0.5));
+
+// cleanup
+
+// They publish events of their own, which are replayed instead.
+subscribe(PostDeleted, (e) => Tag.deletePost(e.post), { replay: false });
+subscribe(PostRestored, (e) => Tag.restorePost(e.post), { replay: false });
+
+// live updates, sent over `GET /api/stream`
+
+subscribe(ConnectionRequested, (e) => notify([e.to], "connectionRequested", { from: e.from }), { replay: false });
+subscribe(ConnectionAccepted, (e) => notify([e.from], "connectionAccepted", { by: e.to }), { replay: false });
+subscribe(
+  ApplicationStatusChanged,
+  (e) => {
+    const concerned = [e.user, e.owner].filter((user) => !user.equals(e.changedBy));
+    notify(concerned, "applicationStatusChanged", { application: e.application, status: e.status });
+  },
+  { replay: false },
+);
+subscribe(
+  CommentCreated,
+  async (e) => {
+    const post = await FocusedPost.getById(e.parent);
+    if (!post.author.equals(e.author)) {
+      notify([post.author], "commentCreated", { comment: e.comment, post: e.parent, author: e.author });
+    }
+  },
+  { replay: false },
+);
+subscribe(ChallengePosted, (e) => notify("everyone", "challengePosted", { challenge: e.challenge }), { replay: false });
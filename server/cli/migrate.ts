@@ -0,0 +1,54 @@
+import dotenv from "dotenv";
+
+// The following line sets up the environment variables before everything else.
+dotenv.config();
+
+import { client, connectDb } from "../db";
+import { getMigrationStatus, migrateDown, migrateUp } from "../framework/migrations";
+import migrations from "../migrations";
+
+const usage = `Usage: npm run migrate -- [command]
+
+Commands:
+  up            apply all pending migrations (default)
+  down [steps]  revert the last [steps] applied migrations (default 1)
+  status        list migrations and whether they are applied`;
+
+async function main(command = "up", arg?: string) {
+  switch (command) {
+    case "up": {
+      const applied = await migrateUp(migrations);
+      console.log(applied.length > 0 ? `Applied ${applied.join(", ")}` : "No pending migrations.");
+      return;
+    }
+    case "down": {
+      const steps = arg === undefined ? 1 : Number(arg);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps '${arg}'!`);
+      }
+      const reverted = await migrateDown(migrations, steps);
+      console.log(reverted.length > 0 ? `Reverted ${reverted.join(", ")}` : "No applied migrations.");
+      return;
+    }
+    case "status":
+      for (const migration of await getMigrationStatus(migrations)) {
+        console.log(`${migration.applied ? "[x]" : "[ ]"} ${migration.name}`);
+      }
+      return;
+    default:
+      console.log(usage);
+      process.exitCode = 1;
+  }
+}
+
+void (async () => {
+  await connectDb();
+  try {
+    await main(process.argv[2], process.argv[3]);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  } finally {
+    await client?.close();
+  }
+})();
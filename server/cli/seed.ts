@@ -0,0 +1,62 @@
+import dotenv from "dotenv";
+
+// The following line sets up the environment variables before everything else.
+dotenv.config();
+
+import { client, connectDb } from "../db";
+import DocCollection from "../framework/doc";
+import { SEED_PASSWORD, profiles, resetDatabase, seed } from "../seed";
+
+const usage = `Usage: npm run seed -- [command]
+
+Commands:
+  <profile> [seed]  remove all data, then seed the database with <profile>, generated from [seed] (default 1)
+  reset             remove all data
+  list              list the profiles`;
+
+async function main(command = "list", arg?: string) {
+  switch (command) {
+    case "list":
+      for (const profile of profiles) {
+        console.log(`${profile.name.padEnd(22)} ${profile.description}`);
+      }
+      return;
+    case "reset":
+      await resetDatabase();
+      console.log("Removed all data.");
+      return;
+    default: {
+      if (!profiles.some((profile) => profile.name === command)) {
+        console.log(usage);
+        process.exitCode = 1;
+        return;
+      }
+      const seedValue = arg === undefined ? 1 : Number(arg);
+      if (!Number.isInteger(seedValue)) {
+        throw new Error(`Invalid seed '${arg}'!`);
+      }
+      await resetDatabase();
+      await DocCollection.syncAllIndexes();
+      const created = await seed(command, seedValue);
+      console.log(
+        `Seeded '${command}' with seed ${seedValue}:`,
+        Object.entries(created)
+          .map(([what, count]) => `${count} ${what}`)
+          .join(", "),
+      );
+      console.log(`Log in as admin@stagelights.test (or director1@, actor1@...) with password '${SEED_PASSWORD}'.`);
+    }
+  }
+}
+
+void (async () => {
+  await connectDb();
+  try {
+    await main(process.argv[2], process.argv[3]);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  } finally {
+    await client?.close();
+  }
+})();
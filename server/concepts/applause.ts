@@ -1,6 +1,7 @@
 import { ObjectId } from "mongodb";
 
 import DocCollection, { BaseDoc } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
 import { NotAllowedError, NotFoundError } from "./errors";
 
 export interface ApplauseDoc extends BaseDoc {
@@ -9,15 +10,17 @@ export interface ApplauseDoc extends BaseDoc {
 }
 
 export default class ApplauseConcept {
-  public readonly applauses = new DocCollection<ApplauseDoc>("applauses");
+  public readonly applauses = new DocCollection<ApplauseDoc>("applauses", {
+    indexes: [{ keys: { user: 1 }, unique: true, onDuplicate: (applause) => new UserExistsError(applause.user!) }],
+  });
 
   /**
    * Creates a new applause counter
    * @param user id of the user who owns counter
    * @returns an object containing a success message and the applause object
+   * @throws UserExistsError if the user already has an applause counter
    */
   async initialize(user: ObjectId) {
-    await this.alreadyExists(user);
     const _id = await this.applauses.createOne({ user, value: 0 });
     return { msg: "Applause counter successfully created!", applause: await this.applauses.readOne({ _id }) };
   }
@@ -66,18 +69,6 @@ export default class ApplauseConcept {
     return { msg: "Applause counter deleted successfully!" };
   }
 
-  /**
-   * Figures out if the user given already has an applause counter
-   * @param user id of user who we're checking
-   * @throws UserExistsError if the user already has an applause counter
-   */
-  private async alreadyExists(user: ObjectId) {
-    const applause = await this.applauses.readOne({ user });
-    if (applause) {
-      throw new UserExistsError(user);
-    }
-  }
-
   /**
    * Figures out if the user given doesn't have an applause counter
    * @param user id of user who we're checking
@@ -92,12 +83,14 @@ export default class ApplauseConcept {
   }
 }
 
+@ErrorCode("APPLAUSE_COUNTER_EXISTS")
 export class UserExistsError extends NotAllowedError {
   constructor(public readonly user: ObjectId) {
     super("{0} already has applause counter!", user);
   }
 }
 
+@ErrorCode("NO_APPLAUSE_COUNTER")
 export class NoCounterError extends NotFoundError {
   constructor(public readonly user: ObjectId) {
     super("{0} doesn't have applause counter!", user);
@@ -1,6 +1,8 @@
-import { ObjectId } from "mongodb";
+import { Filter, ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
+import { DomainEvent, publish } from "../framework/events";
 import { NotAllowedError, NotFoundError } from "./errors";
 
 export interface ApplicationDoc extends BaseDoc {
@@ -13,7 +15,9 @@ export interface ApplicationDoc extends BaseDoc {
 }
 
 export default class ApplicationConcept {
-  public readonly applications = new DocCollection<ApplicationDoc>("applications");
+  public readonly applications = new DocCollection<ApplicationDoc>("applications", {
+    indexes: [{ keys: { user: 1, applicationFor: 1 }, unique: true, onDuplicate: () => new NotAllowedError("User already applied to job!") }, { keys: { applicationFor: 1 } }],
+  });
 
   /**
    * Creates a new application
@@ -24,12 +28,13 @@ export default class ApplicationConcept {
    * @param media additional media attached to the application
    * @param applicationFor id of opportunity user is applying to
    * @returns an object containing a success message and an application object
+   * @throws NotAllowedError if the user has already applied
    */
   async create(owner: ObjectId, user: ObjectId, text: string, media: ObjectId[], applicationFor: ObjectId) {
     this.ownerIsApplier(owner, user);
-    await this.alreadyApplied(user, applicationFor);
     const status = "pending";
     const _id = await this.applications.createOne({ owner, user, status, text, media, applicationFor });
+    await publish(new ApplicationCreated(_id, user, applicationFor));
     return { msg: "Application successfully created!", application: await this.applications.readOne({ _id }) };
   }
 
@@ -37,15 +42,17 @@ export default class ApplicationConcept {
    * Finds the applications for a given opportunity
    * @param user id of the user trying to get the info
    * @param opId id of the opportunity
-   * @returns an array of application objects (excluding withdrawn applications)
+   * @param page which page of applications to get
+   * @returns a page of application objects (excluding withdrawn applications)
    * @throws NotAllowedError if the user accessing isn't the owner of the opportunity
    */
-  async getAppsForOp(user: ObjectId, opId: ObjectId) {
-    const applications = await this.applications.readMany({ applicationFor: opId, status: { $in: ["approved", "audition", "rejected", "pending"] } });
-    if (applications[0]) {
-      const owner = applications[0].owner ?? new ObjectId();
+  async getAppsForOp(user: ObjectId, opId: ObjectId, page?: PageOptions) {
+    const filter: Filter<ApplicationDoc> = { applicationFor: opId, status: { $in: ["approved", "audition", "rejected", "pending"] } };
+    const application = await this.applications.readOne(filter);
+    if (application) {
+      const owner = application.owner ?? new ObjectId();
       if (user.toString() === owner.toString()) {
-        return applications;
+        return await this.applications.readPage(filter, page);
       }
       throw new NotAllowedError("Not owner of opportunity so can't access this information");
     }
@@ -55,10 +62,11 @@ export default class ApplicationConcept {
   /**
    * Finds all the applications for a given user
    * @param userId id of the user
-   * @returns an array of application objects
+   * @param page which page of applications to get
+   * @returns a page of application objects
    */
-  async getAppsForUser(userId: ObjectId) {
-    return await this.applications.readMany({ user: userId });
+  async getAppsForUser(userId: ObjectId, page?: PageOptions) {
+    return await this.applications.readPage({ user: userId }, page);
   }
 
   /**
@@ -99,13 +107,28 @@ export default class ApplicationConcept {
    * @param user id of the user making the change
    * @param _id id of the application
    * @param newStatus updated status of application
+   * @param version version of the application the change is based on, if the client sent one
+   * @throws ConflictError if the application was changed since that version
    */
-  async changeStatus(user: ObjectId, _id: ObjectId, newStatus: "approved" | "audition" | "rejected" | "withdrawn") {
+  async changeStatus(user: ObjectId, _id: ObjectId, newStatus: "approved" | "audition" | "rejected" | "withdrawn", version?: number) {
     const application = await this.doesntExist(_id);
     const owner = application?.owner.toString() ?? "";
     const applier = application?.user.toString() ?? "";
     this.checkStatusChange(user, newStatus, owner, applier);
-    await this.applications.updateOne({ _id }, { status: newStatus });
+    await this.applications.updateOne({ _id }, { status: newStatus }, { ifVersion: version });
+    await publish(new ApplicationStatusChanged(_id, application.user, application.owner, newStatus, user));
+    if (newStatus === "withdrawn") {
+      await publish(new ApplicationWithdrawn(_id, application.user));
+    }
+  }
+
+  /**
+   * Gets all the applications of a user, including withdrawn ones, for exporting their data
+   * @param user id of the user
+   * @returns the user's applications, oldest first
+   */
+  async exportUser(user: ObjectId) {
+    return await this.applications.readMany({ user }, { sort: { _id: 1 } });
   }
 
   /**
@@ -131,19 +154,6 @@ export default class ApplicationConcept {
     }
   }
 
-  /**
-   * Checks if the user has already applied to a given opportunity
-   * @param user id of the user
-   * @param opId id of the opportunity
-   * @throws NotAllowedError if the user has already applied
-   */
-  private async alreadyApplied(user: ObjectId, opId: ObjectId) {
-    const application = await this.applications.readOne({ user, applicationFor: opId });
-    if (application) {
-      throw new NotAllowedError("User already applied to job!");
-    }
-  }
-
   /**
    * Checks if the status changes are valid and allowed
    * @param user id of user
@@ -170,7 +180,7 @@ export default class ApplicationConcept {
    * @throws NotFoundError if no application with given id is found
    */
   private async doesntExist(_id: ObjectId) {
-    const application = this.applications.readOne({ _id });
+    const application = await this.applications.readOne({ _id });
     if (application) {
       return application;
     }
@@ -178,12 +188,45 @@ export default class ApplicationConcept {
   }
 }
 
+export class ApplicationCreated extends DomainEvent {
+  constructor(
+    public readonly application: ObjectId,
+    public readonly user: ObjectId,
+    public readonly opportunity: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class ApplicationStatusChanged extends DomainEvent {
+  constructor(
+    public readonly application: ObjectId,
+    public readonly user: ObjectId,
+    public readonly owner: ObjectId,
+    public readonly status: ApplicationDoc["status"],
+    public readonly changedBy: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class ApplicationWithdrawn extends DomainEvent {
+  constructor(
+    public readonly application: ObjectId,
+    public readonly user: ObjectId,
+  ) {
+    super();
+  }
+}
+
+@ErrorCode("NOT_APPLIER")
 export class NotApplierError extends NotAllowedError {
   constructor(public readonly user: ObjectId) {
     super("{0} withdrawing isn't the applier", user);
   }
 }
 
+@ErrorCode("NOT_APPLICATION_OWNER")
 export class NotOwnerError extends NotAllowedError {
   constructor(
     public readonly user: ObjectId,
@@ -0,0 +1,105 @@
+import { Document, Filter, ObjectId } from "mongodb";
+
+import { getRequestContext } from "../framework/context";
+import DocCollection, { BaseDoc, PageOptions, WriteEvent, WriteOperation } from "../framework/doc";
+
+export interface AuditChange {
+  document: ObjectId;
+  /** Values of the changed fields before the write. Empty for created documents. */
+  before: Record<string, unknown>;
+  /** Values of the changed fields after the write. Empty for permanently deleted documents. */
+  after: Record<string, unknown>;
+}
+
+export interface AuditDoc extends BaseDoc {
+  /** Route that made the write, e.g. `PATCH /api/application`, or "system" for writes made outside of requests. */
+  actor: string;
+  /** The logged in user who made the write, if any. */
+  user?: ObjectId;
+  collectionName: string;
+  operation: WriteOperation;
+  /** The filter the write was made with, as JSON. */
+  filter: string;
+  /** Ids of the changed documents, to look up the history of a document. */
+  documents: ObjectId[];
+  changes: AuditChange[];
+}
+
+export interface AuditQuery {
+  user?: ObjectId;
+  collectionName?: string;
+  document?: ObjectId;
+  from?: Date;
+  to?: Date;
+}
+
+export default class AuditConcept {
+  public readonly entries = new DocCollection<AuditDoc>("audit log", { audit: false, indexes: [{ keys: { documents: 1 } }, { keys: { user: 1 } }] });
+  // Fields whose values are never written to the log
+  private readonly redacted = ["password"];
+
+  /**
+   * Records a write in the audit log, along with who made it
+   * @param event the write, as reported by {@link DocCollection.onWrite}
+   * @returns id of the new audit entry
+   */
+  async record(event: WriteEvent) {
+    const context = getRequestContext();
+    return await this.entries.createOne({
+      actor: context?.route ?? "system",
+      ...(context?.user && { user: new ObjectId(context.user) }),
+      collectionName: event.collection,
+      operation: event.operation,
+      filter: JSON.stringify(event.filter),
+      documents: event.changes.map((change) => change._id),
+      changes: event.changes.map((change) => ({ document: change._id, ...this.diff(change.before, change.after) })),
+    });
+  }
+
+  /**
+   * Finds audit entries, most recent first
+   * @param query who made the changes, to which collection or document and when
+   * @param page which page of entries to get
+   * @returns a page of audit entries matching the query
+   */
+  async getEntries(query: AuditQuery, page?: PageOptions) {
+    const filter: Filter<AuditDoc> = {};
+    if (query.user) {
+      filter.user = query.user;
+    }
+    if (query.collectionName) {
+      filter.collectionName = query.collectionName;
+    }
+    if (query.document) {
+      filter.documents = query.document;
+    }
+    if (query.from || query.to) {
+      filter.dateCreated = { ...(query.from && { $gte: query.from }), ...(query.to && { $lte: query.to }) };
+    }
+    return await this.entries.readPage(filter, page);
+  }
+
+  /**
+   * Keeps only the fields that differ between two versions of a document
+   * @param before the document before the write, or null if it was created
+   * @param after the document after the write, or null if it was deleted
+   * @returns the old and new values of the changed fields
+   */
+  private diff(before: Document | null, after: Document | null) {
+    const changed: Pick<AuditChange, "before" | "after"> = { before: {}, after: {} };
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    for (const key of keys) {
+      if (key === "_id" || JSON.stringify(before?.[key]) === JSON.stringify(after?.[key])) {
+        continue;
+      }
+      const redact = (value: unknown) => (this.redacted.includes(key) && value !== undefined ? "[redacted]" : value);
+      if (before && key in before) {
+        changed.before[key] = redact(before[key]);
+      }
+      if (after && key in after) {
+        changed.after[key] = redact(after[key]);
+      }
+    }
+    return changed;
+  }
+}
@@ -1,6 +1,7 @@
 import { ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { DomainEvent, publish } from "../framework/events";
 import { NotAllowedError } from "./errors";
 
 export interface ChallengeDoc extends BaseDoc {
@@ -20,6 +21,7 @@ export default class ChallengeConcept {
    */
   async propose(challenger: ObjectId, prompt: string) {
     const _id = await this.proposed.createOne({ challenger, prompt });
+    await publish(new ChallengeProposed(_id, challenger));
     return { msg: "Challenge Proposal successfully created!", proposed: await this.proposed.readOne({ _id }) };
   }
 
@@ -34,10 +36,11 @@ export default class ChallengeConcept {
 
   /**
    * Retreives all posted challenges
-   * @returns all posted challenges
+   * @param page which page of challenges to get
+   * @returns a page of all posted challenges
    */
-  async getAllPosted() {
-    return await this.posted.readMany({});
+  async getAllPosted(page?: PageOptions) {
+    return await this.posted.readPage({}, page);
   }
 
   /**
@@ -72,8 +75,27 @@ export default class ChallengeConcept {
       const prompt = randomlySelected.prompt;
       const postedId = await this.posted.createOne({ challenger, prompt });
       await this.proposed.deleteOne({ _id: proposedId });
+      await publish(new ChallengePosted(postedId, challenger));
       return { msg: "Challenge successfully posted!", posted: await this.posted.readOne({ _id: postedId }) };
     }
     throw new NotAllowedError("No proposed challenges to select from!");
   }
 }
+
+export class ChallengeProposed extends DomainEvent {
+  constructor(
+    public readonly challenge: ObjectId,
+    public readonly challenger: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class ChallengePosted extends DomainEvent {
+  constructor(
+    public readonly challenge: ObjectId,
+    public readonly challenger: ObjectId,
+  ) {
+    super();
+  }
+}
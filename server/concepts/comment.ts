@@ -1,6 +1,8 @@
 import { ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
+import { DomainEvent, publish } from "../framework/events";
 import { NotAllowedError, NotFoundError } from "./errors";
 
 export interface CommentDoc extends BaseDoc {
@@ -10,7 +12,7 @@ export interface CommentDoc extends BaseDoc {
 }
 
 export default class CommentConcept {
-  public readonly comments = new DocCollection<CommentDoc>("comments");
+  public readonly comments = new DocCollection<CommentDoc>("comments", { softDelete: true, indexes: [{ keys: { parent: 1 } }, { keys: { author: 1 } }] });
 
   /**
    * Creates a new comment
@@ -21,21 +23,18 @@ export default class CommentConcept {
    */
   async create(author: ObjectId, content: string, parent: ObjectId) {
     const _id = await this.comments.createOne({ author, content, parent });
+    await publish(new CommentCreated(_id, author, parent));
     return { msg: "Comment successfully created!", comment: await this.comments.readOne({ _id }) };
   }
 
   /**
    * Gets the comments for a parent item (post/comment)
    * @param parent id of parent object (item that was commented on)
-   * @returns comment objects that belong to the parent given
+   * @param page which page of comments to get
+   * @returns a page of comment objects that belong to the parent given
    */
-  async getByParent(parent: ObjectId) {
-    return await this.comments.readMany(
-      { parent },
-      {
-        sort: { dateUpdated: -1 },
-      },
-    );
+  async getByParent(parent: ObjectId, page?: PageOptions) {
+    return await this.comments.readPage({ parent }, page);
   }
 
   /**
@@ -52,13 +51,15 @@ export default class CommentConcept {
    * @param _id id of comment
    * @param user id of user trying to delete comment
    * @param newContent updated text of the comment
+   * @param version version of the comment the change is based on, if the client sent one
    * @returns an object containing a success message
    * @throws NotFoundError if the comment doesn't exist
    * @throws CommentAuthorNotMatchError if the user isn't the author comment
+   * @throws ConflictError if the comment was changed since that version
    */
-  async update(_id: ObjectId, user: ObjectId, newContent: string) {
+  async update(_id: ObjectId, user: ObjectId, newContent: string, version?: number) {
     await this.isAuthor(user, _id);
-    await this.comments.updateOne({ _id }, { content: newContent });
+    await this.comments.updateOne({ _id }, { content: newContent }, { ifVersion: version });
     return { msg: "Comment successfully updated!" };
   }
 
@@ -71,7 +72,62 @@ export default class CommentConcept {
   async delete(_id: ObjectId, user: ObjectId) {
     await this.isAuthor(user, _id);
     await this.comments.deleteOne({ _id });
-    return { msg: "Comment deleted successfully!" };
+    await publish(new CommentDeleted(_id, user));
+    return { msg: "Comment moved to the trash!" };
+  }
+
+  /**
+   * Gets the comments of a user that are in the trash
+   * @param author id of the author
+   * @param page which page of comments to get
+   * @returns a page of deleted comments by the author
+   */
+  async getTrash(author: ObjectId, page?: PageOptions) {
+    return await this.comments.readDeletedPage({ author }, page);
+  }
+
+  /**
+   * Takes a comment back out of the trash
+   * @param _id id of the comment
+   * @param user id of the user restoring the comment
+   * @returns an object containing a success message
+   * @throws NotFoundError if the user has no comment with that id in the trash
+   */
+  async restore(_id: ObjectId, user: ObjectId) {
+    const restored = await this.comments.restoreOne({ _id, author: user });
+    if (restored.modifiedCount === 0) {
+      throw new NotFoundError("No comment with id {0} in the trash!", _id);
+    }
+    await publish(new CommentRestored(_id, user));
+    return { msg: "Comment successfully restored!" };
+  }
+
+  /**
+   * Permanently deletes the comments that were moved to the trash before a given date
+   * @param before comments deleted before this date are removed
+   * @returns the removed comments
+   */
+  async purge(before: Date) {
+    return await this.comments.purge({ deletedAt: { $lt: before } });
+  }
+
+  /**
+   * Permanently deletes the comments on given posts or comments, in or out of the trash
+   * @param parents ids of the posts or comments
+   * @returns the removed comments
+   */
+  async purgeParents(parents: ObjectId[]) {
+    await this.comments.deleteMany({ parent: { $in: parents } });
+    return await this.comments.purge({ parent: { $in: parents } });
+  }
+
+  /**
+   * Gets all the comments of a user, for exporting their data
+   * @param author id of the user
+   * @returns the user's comments, oldest first
+   */
+  async exportUser(author: ObjectId) {
+    return await this.comments.readMany({ author }, { sort: { _id: 1 } });
   }
 
   /**
@@ -80,7 +136,7 @@ export default class CommentConcept {
    * @returns an object containing a success message
    */
   async deleteUserComments(user: ObjectId) {
-    await this.comments.deleteMany({ user });
+    await this.comments.deleteMany({ author: user });
     return { msg: "Comment deleted successfully!" };
   }
 
@@ -95,7 +151,7 @@ export default class CommentConcept {
   private async isAuthor(user: ObjectId, _id: ObjectId) {
     const comment = await this.comments.readOne({ _id });
     if (!comment) {
-      throw new NotFoundError(`Comment ${_id} does not exist!`);
+      throw new NotFoundError("Comment {0} does not exist!", _id);
     }
     if (comment.author.toString() !== user.toString()) {
       throw new CommentAuthorNotMatchError(user, _id);
@@ -104,6 +160,35 @@ export default class CommentConcept {
   }
 }
 
+export class CommentCreated extends DomainEvent {
+  constructor(
+    public readonly comment: ObjectId,
+    public readonly author: ObjectId,
+    public readonly parent: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class CommentDeleted extends DomainEvent {
+  constructor(
+    public readonly comment: ObjectId,
+    public readonly author: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class CommentRestored extends DomainEvent {
+  constructor(
+    public readonly comment: ObjectId,
+    public readonly author: ObjectId,
+  ) {
+    super();
+  }
+}
+
+@ErrorCode("NOT_COMMENT_AUTHOR")
 export class CommentAuthorNotMatchError extends NotAllowedError {
   constructor(
     public readonly author: ObjectId,
@@ -1,5 +1,7 @@
 import { ObjectId } from "mongodb";
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
+import { DomainEvent, publish } from "../framework/events";
 import { NotAllowedError, NotFoundError } from "./errors";
 
 export interface ConnectionDoc extends BaseDoc {
@@ -14,16 +16,17 @@ export interface ConnectionRequestDoc extends BaseDoc {
 }
 
 export default class ConnectionConcept {
-  public readonly connection = new DocCollection<ConnectionDoc>("connection");
-  public readonly requests = new DocCollection<ConnectionRequestDoc>("connectionRequests");
+  public readonly connection = new DocCollection<ConnectionDoc>("connection", { indexes: [{ keys: { user1: 1 } }, { keys: { user2: 1 } }] });
+  public readonly requests = new DocCollection<ConnectionRequestDoc>("connectionRequests", { indexes: [{ keys: { from: 1 } }, { keys: { to: 1 } }] });
 
   /**
    * Retrieves the requests to and from the given user
    * @param user user we're trying to get the requests from and to
-   * @returns the requests to and from a given user
+   * @param page which page of requests to get
+   * @returns a page of the requests to and from a given user
    */
-  async getRequests(user: ObjectId) {
-    return await this.requests.readMany({ to: user, status: "pending" });
+  async getRequests(user: ObjectId, page?: PageOptions) {
+    return await this.requests.readPage({ to: user, status: "pending" }, page);
   }
 
   /**
@@ -35,6 +38,7 @@ export default class ConnectionConcept {
   async sendRequest(from: ObjectId, to: ObjectId) {
     await this.canSendRequest(from, to);
     await this.requests.createOne({ from, to, status: "pending" });
+    await publish(new ConnectionRequested(from, to));
     return { msg: "Sent request!" };
   }
 
@@ -46,8 +50,9 @@ export default class ConnectionConcept {
    */
   async acceptRequest(from: ObjectId, to: ObjectId) {
     await this.removePendingRequest(from, to);
-    void this.requests.createOne({ from, to, status: "accepted" });
-    void this.addConnection(from, to);
+    await this.requests.createOne({ from, to, status: "accepted" });
+    await this.addConnection(from, to);
+    await publish(new ConnectionAccepted(from, to));
     return { msg: "Accepted request!" };
   }
 
@@ -74,6 +79,15 @@ export default class ConnectionConcept {
     return { msg: "Removed request!" };
   }
 
+  /**
+   * Removes the requests nobody answered since before a given date
+   * @param before date the requests were sent before
+   * @returns how many requests were removed
+   */
+  async deleteStaleRequests(before: Date) {
+    return (await this.requests.deleteMany({ status: "pending", dateCreated: { $lt: before } })).deletedCount;
+  }
+
   /**
    * Removes a connection if it exists
    * @param user user id removing the connection
@@ -91,19 +105,25 @@ export default class ConnectionConcept {
     if (connection === null) {
       throw new ConnectionNotFoundError(user, user2);
     }
+    await publish(new ConnectionRemoved(user, user2));
     return { msg: "Removed connection!" };
   }
 
   /**
    * Gets the connections of a given user
    * @param user user id we're getting connections for
-   * @returns the connections of that user
+   * @param page which page of connections to get
+   * @returns a page of the ids of the users connected to that user
    */
-  async getConnections(user: ObjectId) {
-    const connections = await this.connection.readMany({
-      $or: [{ user1: user }, { user2: user }],
-    });
-    return connections.map((connection) => (connection.user1.toString() === user.toString() ? connection.user2 : connection.user1));
+  async getConnections(user: ObjectId, page?: PageOptions) {
+    const connections = await this.connection.readPage(
+      {
+        $or: [{ user1: user }, { user2: user }],
+      },
+      page,
+    );
+    const items = connections.items.map((connection) => (connection.user1.toString() === user.toString() ? connection.user2 : connection.user1));
+    return { items, nextCursor: connections.nextCursor };
   }
 
   /**
@@ -127,7 +147,7 @@ export default class ConnectionConcept {
    * @param user2 id of the second user
    */
   private async addConnection(user1: ObjectId, user2: ObjectId) {
-    void this.connection.createOne({ user1, user2 });
+    await this.connection.createOne({ user1, user2 });
   }
 
   /**
@@ -182,6 +202,34 @@ export default class ConnectionConcept {
   }
 }
 
+export class ConnectionRequested extends DomainEvent {
+  constructor(
+    public readonly from: ObjectId,
+    public readonly to: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class ConnectionAccepted extends DomainEvent {
+  constructor(
+    public readonly from: ObjectId,
+    public readonly to: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class ConnectionRemoved extends DomainEvent {
+  constructor(
+    public readonly user1: ObjectId,
+    public readonly user2: ObjectId,
+  ) {
+    super();
+  }
+}
+
+@ErrorCode("CONNECTION_REQUEST_NOT_FOUND")
 export class ConnectionRequestNotFoundError extends NotFoundError {
   constructor(
     public readonly from: ObjectId,
@@ -191,6 +239,7 @@ export class ConnectionRequestNotFoundError extends NotFoundError {
   }
 }
 
+@ErrorCode("CONNECTION_REQUEST_EXISTS")
 export class ConnectionRequestAlreadyExistsError extends NotAllowedError {
   constructor(
     public readonly from: ObjectId,
@@ -200,6 +249,7 @@ export class ConnectionRequestAlreadyExistsError extends NotAllowedError {
   }
 }
 
+@ErrorCode("CONNECTION_NOT_FOUND")
 export class ConnectionNotFoundError extends NotFoundError {
   constructor(
     public readonly user1: ObjectId,
@@ -209,6 +259,7 @@ export class ConnectionNotFoundError extends NotFoundError {
   }
 }
 
+@ErrorCode("ALREADY_CONNECTED")
 export class AlreadyConnectedError extends NotAllowedError {
   constructor(
     public readonly user1: ObjectId,
@@ -1,9 +1,10 @@
-import { FormattableError } from "../framework/router";
+import { ErrorCode, FormattableError } from "../framework/errors";
 
 /**
  * Corresponds to an action attempted by a user that contains bad values for parameters.
  * If this action was a HTTP request, status code for this error would be 400 Bad Request.
  */
+@ErrorCode("BAD_VALUES")
 export class BadValuesError extends FormattableError {
   public readonly HTTP_CODE = 400;
 }
@@ -12,6 +13,7 @@ export class BadValuesError extends FormattableError {
  * Corresponds to an action attempted by a user that is not authenticated.
  * If this action was a HTTP request, status code for this error would be 401 Unauthorized.
  */
+@ErrorCode("UNAUTHENTICATED")
 export class UnauthenticatedError extends FormattableError {
   public readonly HTTP_CODE = 401;
 }
@@ -20,6 +22,7 @@ export class UnauthenticatedError extends FormattableError {
  * Corresponds to a forbidden action attempted by a user.
  * If this action was a HTTP request, status code for this error would be 403 Forbidden.
  */
+@ErrorCode("NOT_ALLOWED")
 export class NotAllowedError extends FormattableError {
   public readonly HTTP_CODE = 403;
 }
@@ -28,6 +31,26 @@ export class NotAllowedError extends FormattableError {
  * Corresponds to an action that attempts to access a resource that doesn't exist.
  * If this action was a HTTP request, status code for this error would be 404 Not Found.
  */
+@ErrorCode("NOT_FOUND")
 export class NotFoundError extends FormattableError {
   public readonly HTTP_CODE = 404;
 }
+
+/**
+ * Corresponds to an action that conflicts with the current state of a resource,
+ * e.g. updating a document that was changed since it was read.
+ * If this action was a HTTP request, status code for this error would be 409 Conflict.
+ */
+@ErrorCode("CONFLICT")
+export class ConflictError extends FormattableError {
+  public readonly HTTP_CODE = 409;
+}
+
+/**
+ * Corresponds to a conditional action whose condition can't hold, e.g. an `If-Match` header that isn't the ETag of a version of the document.
+ * If this action was a HTTP request, status code for this error would be 412 Precondition Failed.
+ */
+@ErrorCode("PRECONDITION_FAILED")
+export class PreconditionFailedError extends FormattableError {
+  public readonly HTTP_CODE = 412;
+}
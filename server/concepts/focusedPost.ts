@@ -1,6 +1,8 @@
 import { Filter, ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
+import { DomainEvent, publish } from "../framework/events";
 import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export interface FocusedPostDoc extends BaseDoc {
@@ -16,7 +18,7 @@ export interface CategoriesDoc extends BaseDoc {
 }
 
 export default class FocusedPostConcept {
-  public readonly posts = new DocCollection<FocusedPostDoc>("focused posts");
+  public readonly posts = new DocCollection<FocusedPostDoc>("focused posts", { softDelete: true, indexes: [{ keys: { author: 1 } }] });
   public readonly categories = new DocCollection<CategoriesDoc>("focused post categories");
 
   /**
@@ -30,27 +32,28 @@ export default class FocusedPostConcept {
   async create(author: ObjectId, content: string, media: ObjectId[], category: ObjectId) {
     await this.verifyCategory(content, category);
     const _id = await this.posts.createOne({ author, content, media, category });
+    await publish(new PostCreated(_id, author, category));
     return { msg: "Focused post successfully created!", post: await this.posts.readOne({ _id }) };
   }
 
   /**
    * Filters posts by a given query
    * @param query how the posts are being filtered
-   * @returns posts that passed the filter
+   * @param page which page of posts to get
+   * @returns a page of posts that passed the filter
    */
-  async getFocusedPosts(query: Filter<FocusedPostDoc>) {
-    return await this.posts.readMany(query, {
-      sort: { dateUpdated: -1 },
-    });
+  async getFocusedPosts(query: Filter<FocusedPostDoc>, page?: PageOptions) {
+    return await this.posts.readPage(query, page);
   }
 
   /**
    * Finds all the posts by a given user
    * @param author author of posts
-   * @returns posts from the author given
+   * @param page which page of posts to get
+   * @returns a page of posts from the author given
    */
-  async getByAuthor(author: ObjectId) {
-    return await this.getFocusedPosts({ author });
+  async getByAuthor(author: ObjectId, page?: PageOptions) {
+    return await this.getFocusedPosts({ author }, page);
   }
 
   /**
@@ -60,25 +63,50 @@ export default class FocusedPostConcept {
    * @throws BadValuesError if no post exists with that id
    */
   async getById(_id: ObjectId) {
-    const post = await this.posts.readOne({ _id });
+    const post = await this.posts.readById(_id);
     if (post) {
       return post;
     }
-    throw new BadValuesError(`Post with id ${_id} doesn't exist`);
+    throw new BadValuesError("Post with id {0} doesn't exist", _id);
+  }
+
+  /**
+   * Finds posts by their ids
+   * @param ids ids of the posts
+   * @returns the posts, in the order of `ids`
+   * @throws BadValuesError if one of the posts doesn't exist
+   */
+  async getByIds(ids: ObjectId[]) {
+    const posts = await this.posts.readByIds(ids);
+    const missing = posts.findIndex((post) => !post);
+    if (missing !== -1) {
+      throw new BadValuesError("Post with id {0} doesn't exist", ids[missing]);
+    }
+    return posts as FocusedPostDoc[];
+  }
+
+  /**
+   * Finds posts from their ids
+   * @param ids ids of the posts
+   * @returns the posts in the order of `ids`, null for the ones that don't exist
+   */
+  async idsToPosts(ids: ObjectId[]) {
+    return await this.posts.readByIds(ids);
   }
 
   /**
    * Get posts for challenges accepted today
-   * @returns posts accepted today
+   * @param page which page of posts to get
+   * @returns a page of posts accepted today
    */
-  async getAcceptedToday() {
+  async getAcceptedToday(page?: PageOptions) {
     const category = await this.getCategoryByName("Challenge", "Daily creative challenges");
 
     const start = new Date();
     start.setHours(0, 0, 0, 0);
     const end = new Date();
 
-    return await this.posts.readMany({ category: category._id, dateCreated: { $gte: start, $lt: end } });
+    return await this.posts.readPage({ category: category._id, dateCreated: { $gte: start, $lt: end } }, page);
   }
 
   /**
@@ -86,9 +114,11 @@ export default class FocusedPostConcept {
    * @param _id id of a post
    * @param update the new information of the post
    * @param user id of the user updating the post
+   * @param version version of the post the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws ConflictError if the post was changed since that version
    */
-  async update(_id: ObjectId, update: Partial<FocusedPostDoc>, user: ObjectId) {
+  async update(_id: ObjectId, update: Partial<FocusedPostDoc>, user: ObjectId, version?: number) {
     const post = await this.isAuthor(user, _id);
     this.sanitizeUpdate(update);
     if (update.category && update.content) {
@@ -98,7 +128,7 @@ export default class FocusedPostConcept {
     } else if (update.content) {
       await this.verifyCategory(update.content, post.category);
     }
-    await this.posts.updateOne({ _id }, update);
+    await this.posts.updateOne({ _id }, update, { ifVersion: version });
     return { msg: "Focused post successfully updated!" };
   }
 
@@ -120,15 +150,54 @@ export default class FocusedPostConcept {
   async delete(_id: ObjectId, user: ObjectId) {
     await this.isAuthor(user, _id);
     await this.posts.deleteOne({ _id });
-    return { msg: "Focused post deleted successfully!" };
+    await publish(new PostDeleted(_id, user));
+    return { msg: "Focused post moved to the trash!" };
+  }
+
+  /**
+   * Gets the posts of a user that are in the trash
+   * @param author id of the author
+   * @param page which page of posts to get
+   * @returns a page of deleted posts by the author
+   */
+  async getTrash(author: ObjectId, page?: PageOptions) {
+    return await this.posts.readDeletedPage({ author }, page);
+  }
+
+  /**
+   * Takes a post back out of the trash
+   * @param _id id of the post
+   * @param user id of the user restoring the post
+   * @returns an object containing a success message
+   * @throws NotFoundError if the user has no post with that id in the trash or its category was deleted
+   */
+  async restore(_id: ObjectId, user: ObjectId) {
+    const post = await this.posts.readDeletedOne({ _id, author: user });
+    if (!post) {
+      throw new NotFoundError("No post with id {0} in the trash!", _id);
+    }
+    await this.getCategory(post.category); // verify category
+    await this.posts.restoreOne({ _id });
+    await publish(new PostRestored(_id, user));
+    return { msg: "Focused post successfully restored!" };
+  }
+
+  /**
+   * Permanently deletes the posts that were moved to the trash before a given date
+   * @param before posts deleted before this date are removed
+   * @returns the removed posts
+   */
+  async purge(before: Date) {
+    return await this.posts.purge({ deletedAt: { $lt: before } });
   }
 
   /**
    * Finds all category objects
-   * @returns category objects
+   * @param page which page of categories to get
+   * @returns a page of category objects
    */
-  async getAllCategories() {
-    return await this.categories.readMany({});
+  async getAllCategories(page?: PageOptions) {
+    return await this.categories.readPage({}, page);
   }
 
   /**
@@ -144,6 +213,24 @@ export default class FocusedPostConcept {
     return category;
   }
 
+  /**
+   * Finds a category by its name, without creating it
+   * @param name name of the category
+   * @returns category object, null if there's no category with that name
+   */
+  async findCategory(name: string) {
+    return await this.categories.readOne({ name });
+  }
+
+  /**
+   * Checks if a category is the one accepted daily challenges are posted in
+   * @param _id id of the category
+   * @returns whether posts in the category are accepted challenges
+   */
+  async isChallengeCategory(_id: ObjectId) {
+    return (await this.categories.readOne({ _id }))?.name === "Challenge";
+  }
+
   /**
    * Gets the post if it exists and the requester is the poster
    * @param _id id of the post
@@ -163,6 +250,21 @@ export default class FocusedPostConcept {
     return await this.doesntExist(_id);
   }
 
+  /**
+   * Finds categories by their ids
+   * @param ids ids of the categories
+   * @returns the category objects, in the order of `ids`
+   * @throws NotFoundError if one of the categories isn't found
+   */
+  async getCategories(ids: ObjectId[]) {
+    const categories = await this.categories.readByIds(ids);
+    const missing = categories.findIndex((category) => !category);
+    if (missing !== -1) {
+      throw new NotFoundError("'{0}' category not found", ids[missing]);
+    }
+    return categories as CategoriesDoc[];
+  }
+
   /**
    * Creates a new category if one doesn't already exists with the same name
    * @param name name of category
@@ -189,13 +291,22 @@ export default class FocusedPostConcept {
     return { msg: "successfully deleted category and its posts" };
   }
 
+  /**
+   * Gets all the posts of a user, for exporting their data
+   * @param author id of the user
+   * @returns the user's posts, oldest first
+   */
+  async exportUser(author: ObjectId) {
+    return await this.posts.readMany({ author }, { sort: { _id: 1 } });
+  }
+
   /**
    * Deletes all a users posts
    * @param user id of the user
    * @returns a success message
    */
   async deleteUser(user: ObjectId) {
-    await this.posts.deleteMany({ user });
+    await this.posts.deleteMany({ author: user });
     return { msg: "successfully deleted all user's posts" };
   }
 
@@ -210,7 +321,7 @@ export default class FocusedPostConcept {
   private async isAuthor(user: ObjectId, _id: ObjectId) {
     const post = await this.posts.readOne({ _id });
     if (!post) {
-      throw new NotFoundError(`Focused post ${_id} does not exist!`);
+      throw new NotFoundError("Focused post {0} does not exist!", _id);
     }
     if (post.author.toString() !== user.toString()) {
       throw new FocusedPostAuthorNotMatchError(user, _id);
@@ -224,9 +335,9 @@ export default class FocusedPostConcept {
    * @throws NotFoundError if the category isn't found
    */
   private async doesntExist(_id: ObjectId) {
-    const found = await this.categories.readOne({ _id });
+    const found = await this.categories.readById(_id);
     if (!found) {
-      throw new NotFoundError(`'${_id}' category not found`);
+      throw new NotFoundError("'{0}' category not found", _id);
     }
     return found;
   }
@@ -244,7 +355,7 @@ export default class FocusedPostConcept {
     }
     const found = await this.categories.readOne({ name });
     if (found) {
-      throw new NotAllowedError(`'${name}' category already exists`);
+      throw new NotAllowedError("'{0}' category already exists", name);
     }
   }
 
@@ -272,12 +383,41 @@ export default class FocusedPostConcept {
     const allowedUpdates = ["content", "category"];
     for (const key in update) {
       if (!allowedUpdates.includes(key)) {
-        throw new NotAllowedError(`Cannot update '${key}' field!`);
+        throw new NotAllowedError("Cannot update '{0}' field!", key);
       }
     }
   }
 }
 
+export class PostCreated extends DomainEvent {
+  constructor(
+    public readonly post: ObjectId,
+    public readonly author: ObjectId,
+    public readonly category: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class PostDeleted extends DomainEvent {
+  constructor(
+    public readonly post: ObjectId,
+    public readonly author: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class PostRestored extends DomainEvent {
+  constructor(
+    public readonly post: ObjectId,
+    public readonly author: ObjectId,
+  ) {
+    super();
+  }
+}
+
+@ErrorCode("NOT_POST_AUTHOR")
 export class FocusedPostAuthorNotMatchError extends NotAllowedError {
   constructor(
     public readonly author: ObjectId,
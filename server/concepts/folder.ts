@@ -1,6 +1,8 @@
 import { ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
+import { DomainEvent, publish } from "../framework/events";
 import { NotAllowedError, NotFoundError } from "./errors";
 
 export interface PraticeFolderDoc extends FolderDoc {
@@ -14,8 +16,10 @@ export interface FolderDoc extends BaseDoc {
 }
 
 export default class FolderConcept {
-  public readonly practiceFolders = new DocCollection<PraticeFolderDoc>("practice folders");
-  public readonly repertoireFolders = new DocCollection<FolderDoc>("repertoire folders");
+  public readonly practiceFolders = new DocCollection<PraticeFolderDoc>("practice folders", {
+    indexes: [{ keys: { user: 1 }, unique: true, onDuplicate: (folder) => new HasPracticeFolderError(folder.user!) }],
+  });
+  public readonly repertoireFolders = new DocCollection<FolderDoc>("repertoire folders", { softDelete: true, indexes: [{ keys: { user: 1 } }] });
   private capacity = 15;
 
   /**
@@ -27,6 +31,7 @@ export default class FolderConcept {
   async createRepertoire(user: ObjectId, name: string) {
     const contents: string[] = [];
     const _id = await this.repertoireFolders.createOne({ user, contents, name });
+    await publish(new RepertoireFolderCreated(_id, user));
     return { msg: "Repertoire Folder successfully created!", folder: await this.repertoireFolders.readOne({ _id }) };
   }
 
@@ -35,13 +40,15 @@ export default class FolderConcept {
    * @param user id of the user deleting
    * @param folder id of the repertoire folder being modified
    * @param item url string
+   * @param version version of the folder the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws ConflictError if the folder was changed since that version
    */
-  async addRepertoire(user: ObjectId, folder: ObjectId, item: string) {
+  async addRepertoire(user: ObjectId, folder: ObjectId, item: string, version?: number) {
     const repertoire = await this.repertoireFolderFinder(user, folder);
     if (!repertoire.contents.includes(item)) {
       repertoire.contents.push(item);
-      await this.repertoireFolders.updateOne({ _id: folder }, { contents: repertoire.contents });
+      await this.repertoireFolders.updateOne({ _id: folder }, { contents: repertoire.contents }, { ifVersion: version ?? repertoire.version });
       return { msg: "successfully added the item given" };
     }
     throw new NotAllowedError("{0} already exists in this folder", item);
@@ -52,16 +59,18 @@ export default class FolderConcept {
    * @param user id of the user
    * @param folder id of the repertoire folder being modified
    * @param item url string being removed
+   * @param version version of the folder the change is based on, if the client sent one
    * @returns an object containing a success message
    * @throws NotInFolderError if the item isn't in the folder given
+   * @throws ConflictError if the folder was changed since that version
    */
-  async removeRepertoire(user: ObjectId, folder: ObjectId, item: string) {
+  async removeRepertoire(user: ObjectId, folder: ObjectId, item: string, version?: number) {
     const repertoire = await this.repertoireFolderFinder(user, folder);
     const stringContents = repertoire.contents.map((id) => id.toString());
     const index = stringContents.indexOf(item.toString());
     if (index !== -1) {
       repertoire.contents.splice(index, 1);
-      await this.repertoireFolders.updateOne({ _id: folder }, { contents: repertoire.contents });
+      await this.repertoireFolders.updateOne({ _id: folder }, { contents: repertoire.contents }, { ifVersion: version ?? repertoire.version });
       return { msg: "successfully removed the item given" };
     }
     throw new NotInFolderError(item);
@@ -76,16 +85,53 @@ export default class FolderConcept {
   async deleteRepertoire(user: ObjectId, _id: ObjectId) {
     await this.repertoireFolderFinder(user, _id);
     await this.repertoireFolders.deleteOne({ _id });
-    return { msg: "successfully deleted repertoire folder" };
+    await publish(new RepertoireFolderDeleted(_id, user));
+    return { msg: "successfully moved repertoire folder to the trash" };
+  }
+
+  /**
+   * Gets the repertoire folders of a user that are in the trash
+   * @param user id of the user
+   * @param page which page of folders to get
+   * @returns a page of deleted repertoire folders of the user
+   */
+  async getRepertoireTrash(user: ObjectId, page?: PageOptions) {
+    return await this.repertoireFolders.readDeletedPage({ user }, page);
+  }
+
+  /**
+   * Takes a repertoire folder back out of the trash
+   * @param user id of the user restoring the folder
+   * @param _id id of the repertoire folder
+   * @returns an object containing a success message
+   * @throws NotFoundError if the user has no repertoire folder with that id in the trash
+   */
+  async restoreRepertoire(user: ObjectId, _id: ObjectId) {
+    const restored = await this.repertoireFolders.restoreOne({ _id, user });
+    if (restored.modifiedCount === 0) {
+      throw new NotFoundError("No repertoire folder with id {0} in the trash!", _id);
+    }
+    await publish(new RepertoireFolderRestored(_id, user));
+    return { msg: "successfully restored repertoire folder" };
+  }
+
+  /**
+   * Permanently deletes the repertoire folders that were moved to the trash before a given date
+   * @param before folders deleted before this date are removed
+   * @returns the removed folders
+   */
+  async purgeRepertoires(before: Date) {
+    return await this.repertoireFolders.purge({ deletedAt: { $lt: before } });
   }
 
   /**
    * Gets all the repertoire folders for a given user
    * @param user id of the user
-   * @returns an array of repertoire folders for a given user
+   * @param page which page of folders to get
+   * @returns a page of repertoire folders for a given user
    */
-  async getUserRepertoire(user: ObjectId) {
-    return await this.repertoireFolders.readMany({ user });
+  async getUserRepertoire(user: ObjectId, page?: PageOptions) {
+    return await this.repertoireFolders.readPage({ user }, page);
   }
 
   /**
@@ -117,9 +163,9 @@ export default class FolderConcept {
    * Creates a practice folder for a given user as long as one doesn't already exist
    * @param user id of the user
    * @returns an object containing a success message and the folder object
+   * @throws HasPracticeFolderError if the user already has a practice folder
    */
   async createPractice(user: ObjectId) {
-    await this.alreadyHasPracticeFolder(user);
     const _id = await this.practiceFolders.createOne({ user, contents: [], name: "Practice Folder", numContents: 0 });
     return { msg: "Pratice Folder successfully created!", folder: await this.practiceFolders.readOne({ _id }) };
   }
@@ -128,15 +174,17 @@ export default class FolderConcept {
    * Adds a given item to the user's practice folder
    * @param user id of the user
    * @param item url string being added
+   * @param version version of the folder the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws ConflictError if the folder was changed since that version
    */
-  async addPractice(user: ObjectId, item: string) {
+  async addPractice(user: ObjectId, item: string, version?: number) {
     const practice = await this.doesntHavePracticeFolder(user);
 
     if (practice.numContents + 1 <= this.capacity) {
       if (!practice.contents.includes(item)) {
         practice.contents.push(item);
-        await this.practiceFolders.updateOne({ user }, { contents: practice.contents, numContents: practice.numContents + 1 });
+        await this.practiceFolders.updateOne({ user }, { contents: practice.contents, numContents: practice.numContents + 1 }, { ifVersion: version ?? practice.version });
         return { msg: "successfully added the item given" };
       }
       throw new NotAllowedError("{0} already exists in this folder", item);
@@ -148,16 +196,18 @@ export default class FolderConcept {
    * Removes a given item from the user's practice folder if it exists
    * @param user id of the user
    * @param item url string being removed
+   * @param version version of the folder the change is based on, if the client sent one
    * @returns an object containing a success message
    * @throws NotInFolderError if the item doesn't exist in the user's pratice folder
+   * @throws ConflictError if the folder was changed since that version
    */
-  async removePractice(user: ObjectId, item: string) {
+  async removePractice(user: ObjectId, item: string, version?: number) {
     const practice = await this.doesntHavePracticeFolder(user);
     const stringContents = practice.contents;
     const index = stringContents.indexOf(item);
     if (index !== -1) {
       practice.contents.splice(index, 1);
-      await this.practiceFolders.updateOne({ user }, { contents: practice.contents, numContents: practice.numContents - 1 });
+      await this.practiceFolders.updateOne({ user }, { contents: practice.contents, numContents: practice.numContents - 1 }, { ifVersion: version ?? practice.version });
       return { msg: "successfully removed the item given" };
     }
     throw new NotInFolderError(item);
@@ -172,6 +222,17 @@ export default class FolderConcept {
     return await this.doesntHavePracticeFolder(user);
   }
 
+  /**
+   * Gets all the folders of a user, for exporting their data
+   * @param user id of the user
+   * @returns the user's practice folder (if any) and repertoire folders
+   */
+  async exportUser(user: ObjectId) {
+    const practice = await this.practiceFolders.readOne({ user });
+    const repertoire = await this.repertoireFolders.readMany({ user }, { sort: { _id: 1 } });
+    return { practice, repertoire };
+  }
+
   /**
    * Deletes all the folders for a given user
    * @param user id of the user
@@ -183,18 +244,6 @@ export default class FolderConcept {
     return { msg: "Successfully deleted all folders for the user" };
   }
 
-  /**
-   * Checks if a given user already has a practice folder
-   * @param user id of the user
-   * @throws HasPracticeFolderError if the user already has a practice folder
-   */
-  private async alreadyHasPracticeFolder(user: ObjectId) {
-    const practice = await this.practiceFolders.readOne({ user });
-    if (practice) {
-      throw new HasPracticeFolderError(user);
-    }
-  }
-
   /**
    * Checks if a given user has a practice folder already
    * @param user id of the user
@@ -230,24 +279,55 @@ export default class FolderConcept {
   }
 }
 
+export class RepertoireFolderCreated extends DomainEvent {
+  constructor(
+    public readonly folder: ObjectId,
+    public readonly user: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class RepertoireFolderDeleted extends DomainEvent {
+  constructor(
+    public readonly folder: ObjectId,
+    public readonly user: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class RepertoireFolderRestored extends DomainEvent {
+  constructor(
+    public readonly folder: ObjectId,
+    public readonly user: ObjectId,
+  ) {
+    super();
+  }
+}
+
+@ErrorCode("NOT_IN_FOLDER")
 export class NotInFolderError extends NotFoundError {
   constructor(public readonly item: string) {
     super("{0} doesn't exist in the contents of the folder given", item);
   }
 }
 
+@ErrorCode("NO_PRACTICE_FOLDER")
 export class NoPracticeFolderError extends NotFoundError {
   constructor(public readonly user: ObjectId) {
     super("The user {0} doesn't have a practice folder yet", user);
   }
 }
 
+@ErrorCode("NOT_FOLDER_OWNER")
 export class NotFolderOwnerError extends NotAllowedError {
   constructor(public readonly user: ObjectId) {
     super("The user {0} isn't the owner of this folder", user);
   }
 }
 
+@ErrorCode("HAS_PRACTICE_FOLDER")
 export class HasPracticeFolderError extends NotAllowedError {
   constructor(public readonly user: ObjectId) {
     super("{0} can't have more than one practice folder", user);
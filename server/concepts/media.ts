@@ -9,7 +9,7 @@ export interface MediaDoc extends BaseDoc {
 }
 
 export default class MediaConcept {
-  public readonly medias = new DocCollection<MediaDoc>("medias");
+  public readonly medias = new DocCollection<MediaDoc>("medias", { indexes: [{ keys: { user: 1 } }] });
 
   /**
    * Creates a piece of media
@@ -35,13 +35,29 @@ export default class MediaConcept {
     return await this.doesntExists(_id);
   }
 
+  /**
+   * Gets pieces of media by their ids
+   * @param ids ids of the media
+   * @returns the media objects, in the order of `ids`
+   * @throws NotFoundError if one of the pieces of media doesn't exist
+   */
+  async getMediaByIds(ids: ObjectId[]) {
+    const media = await this.medias.readByIds(ids);
+    const missing = media.findIndex((item) => !item);
+    if (missing !== -1) {
+      throw new NotFoundError("No media with id {0} exists", ids[missing]);
+    }
+    return media as MediaDoc[];
+  }
+
   /**
    * Gives the URLs for ids given
    * @param ids ids of media that are being changed to URLs
    * @returns array of URLs
+   * @throws NotFoundError if one of the pieces of media doesn't exist
    */
   async idsToURLs(ids: ObjectId[]) {
-    return await Promise.all(ids.map(async (id) => (await this.doesntExists(id)).url));
+    return (await this.getMediaByIds(ids)).map((media) => media.url);
   }
 
   /**
@@ -54,6 +70,15 @@ export default class MediaConcept {
     return { msg: "Deleted media successfully" };
   }
 
+  /**
+   * Gets all the media of a user, for exporting their data
+   * @param user id of the user
+   * @returns the user's media, oldest first
+   */
+  async exportUser(user: ObjectId) {
+    return await this.medias.readMany({ user }, { sort: { _id: 1 } });
+  }
+
   /**
    * Deletes all the media for a given user
    * @param user id of the media being deleted
@@ -71,7 +96,7 @@ export default class MediaConcept {
    * @throws NotFoundError if no media with the given id exists
    */
   private async doesntExists(_id: ObjectId) {
-    const media = await this.medias.readOne({ _id });
+    const media = await this.medias.readById(_id);
     if (!media) {
       throw new NotFoundError("No media with id {0} exists", _id);
     }
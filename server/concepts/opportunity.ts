@@ -1,6 +1,8 @@
 import { ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
+import { DomainEvent, publish } from "../framework/events";
 import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export interface Requirements {
@@ -21,7 +23,7 @@ export interface OpportunityDoc extends BaseDoc {
 }
 
 export default class OpportunityConcept {
-  public readonly opportunities = new DocCollection<OpportunityDoc>("opportunities");
+  public readonly opportunities = new DocCollection<OpportunityDoc>("opportunities", { softDelete: true, indexes: [{ keys: { user: 1 } }] });
 
   /**
    * Creates an opportunity listing
@@ -44,20 +46,17 @@ export default class OpportunityConcept {
     expiresOn.setDate(expiresOn.getDate() + daysTillExpires);
     const isActive = true;
     const _id = await this.opportunities.createOne({ user, title, description, startOn, endsOn, expiresOn, requirements, isActive });
+    await publish(new OpportunityCreated(_id, user));
     return { msg: "Opportunity successfully created!", opportunity: await this.opportunities.readOne({ _id }) };
   }
 
   /**
    * Gets all opportunities
-   * @returns all opportunities
+   * @param page which page of opportunities to get
+   * @returns a page of all opportunities
    */
-  async getAll() {
-    return await this.opportunities.readMany(
-      {},
-      {
-        sort: { dateUpdated: -1 },
-      },
-    );
+  async getAll(page?: PageOptions) {
+    return await this.opportunities.readPage({}, page);
   }
 
   /**
@@ -69,13 +68,24 @@ export default class OpportunityConcept {
     return await this.opportunityExists(_id);
   }
 
+  /**
+   * Gets the titles of given opportunities from their ids
+   * @param ids ids of the opportunities
+   * @returns an array containing the opportunities' titles
+   */
+  async idsToTitles(ids: ObjectId[]) {
+    const opportunities = await this.opportunities.readByIds(ids);
+    return opportunities.map((opportunity) => opportunity?.title ?? "DELETED");
+  }
+
   /**
    * Gets all opportunities by a given user
    * @param user id of the user
-   * @returns all opportunity objects by the user
+   * @param page which page of opportunities to get
+   * @returns a page of opportunity objects by the user
    */
-  async getByUser(user: ObjectId) {
-    return await this.opportunities.readMany({ user });
+  async getByUser(user: ObjectId, page?: PageOptions) {
+    return await this.opportunities.readPage({ user }, page);
   }
 
   /**
@@ -110,9 +120,11 @@ export default class OpportunityConcept {
    * @param _id id of the opportunity
    * @param user id of the user updating
    * @param update updated information
+   * @param version version of the opportunity the change is based on, if the client sent one
    * @returns an object with a success message
+   * @throws ConflictError if the opportunity was changed since that version
    */
-  async update(_id: ObjectId, user: ObjectId, update: Partial<OpportunityDoc>) {
+  async update(_id: ObjectId, user: ObjectId, update: Partial<OpportunityDoc>, version?: number) {
     this.sanitizeUpdate(update);
     const oldOp = await this.opportunityByUser(_id, user);
     if (update.startOn && update.endsOn) {
@@ -122,7 +134,7 @@ export default class OpportunityConcept {
     } else if (!update.startOn && update.endsOn) {
       this.checkDateValidity(oldOp.startOn, new Date(update.endsOn));
     }
-    await this.opportunities.updateOne({ _id }, update);
+    await this.opportunities.updateOne({ _id }, update, { ifVersion: version });
     return { msg: "Opportunity updated successfully!" };
   }
 
@@ -130,12 +142,14 @@ export default class OpportunityConcept {
    * Deactivates an opportunity after it expires or after the creator deactivates it
    * @param _id id of the opportunity
    * @param user id of the user deactivating (if left empty, it's the system updating)
+   * @param version version of the opportunity the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws ConflictError if the opportunity was changed since that version
    */
-  async deactivate(_id: ObjectId, user?: ObjectId) {
+  async deactivate(_id: ObjectId, user?: ObjectId, version?: number) {
     if (user) {
       await this.opportunityByUser(_id, user);
-      await this.opportunities.updateOne({ _id }, { isActive: false });
+      await this.opportunities.updateOne({ _id }, { isActive: false }, { ifVersion: version });
       return { msg: "Opportunity deactivated successfully!" };
     }
 
@@ -150,18 +164,32 @@ export default class OpportunityConcept {
     }
   }
 
+  /**
+   * Deactivates every active opportunity that expired
+   * @returns ids of the opportunities deactivated
+   */
+  async deactivateExpired() {
+    const expired = await this.opportunities.readMany({ isActive: true, expiresOn: { $lt: new Date() } });
+    for (const opportunity of expired) {
+      await this.deactivate(opportunity._id);
+    }
+    return expired.map((opportunity) => opportunity._id);
+  }
+
   /**
    * Reactivates an opportunity if the creator initiates reactivity
    * @param _id id of the opportunity
    * @param user id of the user reactivating
+   * @param version version of the opportunity the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws ConflictError if the opportunity was changed since that version
    */
-  async reactivate(_id: ObjectId, user: ObjectId) {
+  async reactivate(_id: ObjectId, user: ObjectId, version?: number) {
     const daysTillExpires = 14;
     const newExpiryDate = new Date();
     newExpiryDate.setDate(newExpiryDate.getDate() + daysTillExpires);
     await this.opportunityByUser(_id, user);
-    await this.opportunities.updateOne({ _id }, { isActive: true, expiresOn: newExpiryDate });
+    await this.opportunities.updateOne({ _id }, { isActive: true, expiresOn: newExpiryDate }, { ifVersion: version });
     return { msg: "Opportunity reactivated successfully!" };
   }
 
@@ -174,7 +202,43 @@ export default class OpportunityConcept {
   async delete(_id: ObjectId, user: ObjectId) {
     await this.opportunityByUser(_id, user);
     await this.opportunities.deleteOne({ _id });
-    return { msg: "Opportunity deleted successfully!" };
+    await publish(new OpportunityDeleted(_id, user));
+    return { msg: "Opportunity moved to the trash!" };
+  }
+
+  /**
+   * Gets the opportunities of a user that are in the trash
+   * @param user id of the user
+   * @param page which page of opportunities to get
+   * @returns a page of deleted opportunities by the user
+   */
+  async getTrash(user: ObjectId, page?: PageOptions) {
+    return await this.opportunities.readDeletedPage({ user }, page);
+  }
+
+  /**
+   * Takes an opportunity back out of the trash
+   * @param _id id of the opportunity
+   * @param user id of the user restoring the opportunity
+   * @returns an object containing a success message
+   * @throws NotFoundError if the user has no opportunity with that id in the trash
+   */
+  async restore(_id: ObjectId, user: ObjectId) {
+    const restored = await this.opportunities.restoreOne({ _id, user });
+    if (restored.modifiedCount === 0) {
+      throw new NotFoundError("No opportunity with id {0} in the trash!", _id);
+    }
+    await publish(new OpportunityRestored(_id, user));
+    return { msg: "Opportunity successfully restored!" };
+  }
+
+  /**
+   * Permanently deletes the opportunities that were moved to the trash before a given date
+   * @param before opportunities deleted before this date are removed
+   * @returns the removed opportunities
+   */
+  async purge(before: Date) {
+    return await this.opportunities.purge({ deletedAt: { $lt: before } });
   }
 
   /**
@@ -183,7 +247,7 @@ export default class OpportunityConcept {
    * @returns an object containing a success message
    */
   async deactivateUser(user: ObjectId) {
-    const opportunities = await this.getByUser(user);
+    const opportunities = await this.opportunities.readMany({ user });
     await Promise.all(opportunities.map(async (op) => await this.opportunities.updateOne({ _id: op._id }, { isActive: false })));
     return { msg: "Opportunities deactivated successfully!" };
   }
@@ -197,7 +261,7 @@ export default class OpportunityConcept {
     const allowedUpdates = ["description", "startOn", "endOn", "requirements"];
     for (const key in update) {
       if (!allowedUpdates.includes(key)) {
-        throw new NotAllowedError(`Cannot update '${key}' field!`);
+        throw new NotAllowedError("Cannot update '{0}' field!", key);
       }
     }
   }
@@ -209,7 +273,7 @@ export default class OpportunityConcept {
    * @throws OpportunityDoestExistError if the opportunity doesn't exist
    */
   private async opportunityExists(_id: ObjectId) {
-    const opportunity = await this.opportunities.readOne({ _id });
+    const opportunity = await this.opportunities.readById(_id);
     if (!opportunity) {
       throw new NotFoundError("Opportunity ({0}) doesn't exist!", _id);
     }
@@ -244,6 +308,34 @@ export default class OpportunityConcept {
   }
 }
 
+export class OpportunityCreated extends DomainEvent {
+  constructor(
+    public readonly opportunity: ObjectId,
+    public readonly user: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class OpportunityDeleted extends DomainEvent {
+  constructor(
+    public readonly opportunity: ObjectId,
+    public readonly user: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class OpportunityRestored extends DomainEvent {
+  constructor(
+    public readonly opportunity: ObjectId,
+    public readonly user: ObjectId,
+  ) {
+    super();
+  }
+}
+
+@ErrorCode("NOT_OPPORTUNITY_OWNER")
 export class NotOpportunityOwnerError extends NotAllowedError {
   constructor(
     public readonly user: ObjectId,
@@ -1,6 +1,8 @@
 import { ObjectId } from "mongodb";
 
 import DocCollection, { BaseDoc } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
+import { DomainEvent, publish } from "../framework/events";
 import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export interface Style {
@@ -28,7 +30,9 @@ export interface PortfolioDoc extends BaseDoc {
 }
 
 export default class PortfolioConcept {
-  public readonly portfolios = new DocCollection<PortfolioDoc>("portfolios");
+  public readonly portfolios = new DocCollection<PortfolioDoc>("portfolios", {
+    indexes: [{ keys: { user: 1 }, unique: true, onDuplicate: (portfolio) => new HasPortfolioError(portfolio.user!) }],
+  });
 
   /**
    * Creates a new portfolio for a given user
@@ -39,9 +43,9 @@ export default class PortfolioConcept {
    * @param media media that highlights the user's talent
    * @param headshot headshot of the user
    * @returns an object containing a success message and a portfolio object
+   * @throws HasPortfolioError if the user already has a porfolio
    */
   async create(user: ObjectId, headshot: ObjectId) {
-    await this.alreadyExists(user);
     const style = {
       backgroundImage: null,
       backgroundColor: "white",
@@ -68,6 +72,15 @@ export default class PortfolioConcept {
     return await this.doesntExist(user);
   }
 
+  /**
+   * Gets the portfolio of a user, for exporting their data
+   * @param user id of the user
+   * @returns portfolio of the user, null if they don't have one
+   */
+  async exportUser(user: ObjectId) {
+    return await this.portfolios.readOne({ user });
+  }
+
   /**
    * Deletes a portfolio for a given user
    * @param user id of the user
@@ -78,15 +91,35 @@ export default class PortfolioConcept {
     return { msg: "Porfolio has been successfully deleted" };
   }
 
+  /**
+   * Edits a portfolio for its user, changing its information and headshot at once
+   * @param user id of user who's portfolio is being edited
+   * @param update new information for the portfolio
+   * @param headshot id of the media of the new headshot, if it changes
+   * @param version version of the portfolio the change is based on, if the client sent one
+   * @returns an object containing a success message and the old headshot if it changed
+   * @throws ConflictError if the portfolio was changed since that version
+   */
+  async edit(user: ObjectId, update: Partial<PortfolioDoc> | undefined, headshot: ObjectId | undefined, version?: number) {
+    this.sanitizeUpdate(update ?? {});
+    const oldHeadshot = headshot && (await this.portfolios.readOne({ user }))?.headshot;
+    await this.portfolios.updateOne({ user }, { ...update, ...(headshot && { headshot }) }, { ifVersion: version });
+    await publish(new PortfolioEdited(user));
+    return { msg: update ? "Porfolio updated successfully!" : "successfully updated headshot", oldHeadshot };
+  }
+
   /**
    * Updates the information of a portfolio
    * @param user id of user who's portfolio is being updated
    * @param update new information for the portfolio
+   * @param version version of the portfolio the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws ConflictError if the portfolio was changed since that version
    */
-  async update(user: ObjectId, update: Partial<PortfolioDoc>) {
+  async update(user: ObjectId, update: Partial<PortfolioDoc>, version?: number) {
     this.sanitizeUpdate(update);
-    await this.portfolios.updateOne({ user }, update);
+    await this.portfolios.updateOne({ user }, update, { ifVersion: version });
+    await publish(new PortfolioUpdated(user));
     return { msg: "Porfolio updated successfully!" };
   }
 
@@ -94,11 +127,14 @@ export default class PortfolioConcept {
    * Updates the user's headshot on the portfolio
    * @param user id of user who's portfolio is being updated
    * @param headshot id of the media headshot
+   * @param version version of the portfolio the change is based on, if the client sent one
    * @returns the old headshot
+   * @throws ConflictError if the portfolio was changed since that version
    */
-  async updateHeadshot(user: ObjectId, headshot: ObjectId) {
+  async updateHeadshot(user: ObjectId, headshot: ObjectId, version?: number) {
     const oldHeadshot = (await this.portfolios.readOne({ user }))?.headshot;
-    await this.portfolios.updateOne({ user }, { headshot });
+    await this.portfolios.updateOne({ user }, { headshot }, { ifVersion: version });
+    await publish(new HeadshotChanged(user, headshot));
     return oldHeadshot;
   }
 
@@ -106,12 +142,15 @@ export default class PortfolioConcept {
    * Adds a piece of media to the user's portfolio
    * @param user id of the user who's updating their media
    * @param media id of the media being added
+   * @param version version of the portfolio the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws ConflictError if the portfolio was changed since that version
    */
-  async addMedia(user: ObjectId, media: ObjectId) {
+  async addMedia(user: ObjectId, media: ObjectId, version?: number) {
     const portfolio = await this.doesntExist(user);
     portfolio.media.push(media);
-    await this.portfolios.updateOne({ user }, { media: portfolio.media });
+    await this.portfolios.updateOne({ user }, { media: portfolio.media }, { ifVersion: version ?? portfolio.version });
+    await publish(new PortfolioMediaAdded(user, media));
     return { msg: "successfully added the media given" };
   }
 
@@ -119,11 +158,14 @@ export default class PortfolioConcept {
    * Removes a piece of media from the user's portfolio if found
    * @param userId id of the user who's updating their media
    * @param media id of the media being removed
+   * @param version version of the portfolio the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws ConflictError if the portfolio was changed since that version
    */
-  async removeMedia(userId: ObjectId, media: ObjectId) {
-    const newMedia = await this.getMediaAndRemove(userId, media);
-    await this.portfolios.updateOne({ user: userId }, { media: newMedia });
+  async removeMedia(userId: ObjectId, media: ObjectId, version?: number) {
+    const portfolio = await this.getMediaAndRemove(userId, media);
+    await this.portfolios.updateOne({ user: userId }, { media: portfolio.media }, { ifVersion: version ?? portfolio.version });
+    await publish(new PortfolioMediaRemoved(userId, media));
     return { msg: "successfully removed the media given" };
   }
 
@@ -136,7 +178,7 @@ export default class PortfolioConcept {
     const allowedUpdates = ["style", "intro", "info", "headshot"];
     for (const key in update) {
       if (!allowedUpdates.includes(key)) {
-        throw new NotAllowedError(`Cannot update '${key}' field!`);
+        throw new NotAllowedError("Cannot update '{0}' field!", key);
       }
     }
   }
@@ -145,7 +187,7 @@ export default class PortfolioConcept {
    * Tries to find the media on the portfolio for a given user and remove a given media
    * @param user id of the user we're getting the media for
    * @param media id of the media being removed
-   * @returns an array of media object ids
+   * @returns the portfolio, with the media removed from its media
    * @throws BadValuesError if the media doesn't exist in the array
    */
   private async getMediaAndRemove(user: ObjectId, media: ObjectId) {
@@ -153,7 +195,8 @@ export default class PortfolioConcept {
     const stringMedia = portfolio.media.map((id) => id.toString());
     const index = stringMedia.indexOf(media.toString());
     if (index !== -1) {
-      return portfolio.media.splice(index, 1);
+      portfolio.media.splice(index, 1);
+      return portfolio;
     }
     throw new BadValuesError("The media given doesn't exist in the media of the portfolio");
   }
@@ -171,25 +214,55 @@ export default class PortfolioConcept {
     }
     return portfolio;
   }
+}
 
-  /**
-   * Checks if a given user already has a porfolio
-   * @param user id of the user we're checking
-   * @throws HasPortfolioError if the user already has a porfolio
-   */
-  private async alreadyExists(user: ObjectId) {
-    if (await this.portfolios.readOne({ user })) {
-      throw new HasPortfolioError(user);
-    }
+export class PortfolioEdited extends DomainEvent {
+  constructor(public readonly user: ObjectId) {
+    super();
+  }
+}
+
+export class PortfolioUpdated extends DomainEvent {
+  constructor(public readonly user: ObjectId) {
+    super();
+  }
+}
+
+export class HeadshotChanged extends DomainEvent {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly headshot: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class PortfolioMediaAdded extends DomainEvent {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly media: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class PortfolioMediaRemoved extends DomainEvent {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly media: ObjectId,
+  ) {
+    super();
   }
 }
 
+@ErrorCode("NO_PORTFOLIO")
 export class NoPortfolioError extends NotFoundError {
   constructor(public readonly user: ObjectId) {
     super("{0} already has a portfolio! They can't have 2", user);
   }
 }
 
+@ErrorCode("HAS_PORTFOLIO")
 export class HasPortfolioError extends NotAllowedError {
   constructor(public readonly user: ObjectId) {
     super("{0} already has a portfolio! They can't have 2", user);
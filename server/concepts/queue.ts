@@ -1,6 +1,7 @@
 import { ObjectId } from "mongodb";
 
 import DocCollection, { BaseDoc } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
 import { NotAllowedError, NotFoundError } from "./errors";
 
 export interface QueueDoc extends BaseDoc {
@@ -14,7 +15,9 @@ export interface QueueDoc extends BaseDoc {
 }
 
 export default class QueueConcept {
-  public readonly queues = new DocCollection<QueueDoc>("queues");
+  public readonly queues = new DocCollection<QueueDoc>("queues", {
+    indexes: [{ keys: { queueFor: 1 }, unique: true, onDuplicate: (queue) => new DuplicateQueueError(queue.queueFor!) }, { keys: { queueManager: 1 } }],
+  });
 
   /**
    * Creates a new queue for an opportunity if it doesn't already exist
@@ -24,9 +27,9 @@ export default class QueueConcept {
    * @param startTime start time of the interview/audition
    * @param timePerPerson estimated number of hours per person in queue
    * @returns an object containing a success message and a queue object
+   * @throws DuplicateQueueError if the opportunity already has a queue
    */
   async create(queueManager: ObjectId, queueFor: ObjectId, queue: ObjectId[], startTime: Date, timePerPerson: number) {
-    await this.alreadyExists(queueFor);
     const currentPosition = 0;
     const totalQueued = queue.length;
     const _id = await this.queues.createOne({ queueManager, queueFor, queue, startTime, timePerPerson, currentPosition, totalQueued });
@@ -104,18 +107,6 @@ export default class QueueConcept {
     return { msg: "Queue successfully deleted all user's queues!" };
   }
 
-  /**
-   * Checks if a given opportunity already has a queue
-   * @param queueFor id of the opportunity we're checking
-   * @throws DuplicateQueueError if the opportunity already has a queue
-   */
-  private async alreadyExists(queueFor: ObjectId) {
-    const queue = await this.queues.readOne({ queueFor });
-    if (queue) {
-      throw new DuplicateQueueError(queueFor);
-    }
-  }
-
   /**
    * Checks if a given opportunity has a queue or not
    * @param queueFor id of the opportunity we're checking
@@ -143,24 +134,28 @@ export default class QueueConcept {
   }
 }
 
+@ErrorCode("DUPLICATE_QUEUE")
 export class DuplicateQueueError extends NotAllowedError {
   constructor(public readonly opId: ObjectId) {
     super("There already exists a queue for {0}", opId);
   }
 }
 
+@ErrorCode("NO_QUEUE")
 export class NoQueueError extends NotFoundError {
   constructor(public readonly opId: ObjectId) {
     super("There is no queue for {0}", opId);
   }
 }
 
+@ErrorCode("NOT_QUEUE_MANAGER")
 export class NotManagerError extends NotAllowedError {
   constructor(public readonly user: ObjectId) {
     super("{0} is not the manager of this queue!", user);
   }
 }
 
+@ErrorCode("NOT_IN_QUEUE")
 export class NotInQueueError extends NotAllowedError {
   constructor(
     public readonly user: ObjectId,
@@ -1,6 +1,7 @@
 import { ObjectId } from "mongodb";
 
 import DocCollection, { BaseDoc } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
 import { NotAllowedError, UnauthenticatedError } from "./errors";
 
 export interface RestrictionDoc extends BaseDoc {
@@ -11,16 +12,18 @@ export interface RestrictionDoc extends BaseDoc {
 }
 
 export default class RestrictionConcept {
-  public readonly restrictions = new DocCollection<RestrictionDoc>("restrictions");
+  public readonly restrictions = new DocCollection<RestrictionDoc>("restrictions", {
+    indexes: [{ keys: { user: 1 }, unique: true, onDuplicate: (restriction) => new AlreadyInitializedError(restriction.user!) }],
+  });
 
   /**
    * Creates a new restrictions entry for a given user (if it doesn't already exist)
    * @param user id of user
    * @param accountTypes array of user types which could include actor, casting director, admin
    * @returns an object containing a success message and restricitons object
+   * @throws AlreadyInitializedError if the user already has a restrictions object
    */
   async create(user: ObjectId, accountTypes: string[]) {
-    await this.alreadyExists(user);
     const actorPages = accountTypes.includes("actor");
     const castingDirPages = accountTypes.includes("casting director");
     const adminPages = accountTypes.includes("admin");
@@ -117,17 +120,6 @@ export default class RestrictionConcept {
     return { msg: "successfully deleted restrictions" };
   }
 
-  /**
-   * Checks if a given user doesn't already have a restrictions entry in the db
-   * @param user id of user
-   * @throws AlreadyInitializedError if the user already has a restrictions object
-   */
-  private async alreadyExists(user: ObjectId) {
-    if (await this.restrictions.readOne({ user })) {
-      throw new AlreadyInitializedError(user);
-    }
-  }
-
   /**
    * Checks if a given user has a restrictions entry in the db
    * @param user id of user
@@ -143,12 +135,14 @@ export default class RestrictionConcept {
   }
 }
 
+@ErrorCode("RESTRICTIONS_INITIALIZED")
 export class AlreadyInitializedError extends NotAllowedError {
   constructor(public readonly user: ObjectId) {
     super("{0} already has initialized restrictions", user);
   }
 }
 
+@ErrorCode("NO_RESTRICTIONS")
 export class NoRestrictionsError extends NotAllowedError {
   constructor(public readonly user: ObjectId) {
     super("{0} hasn't initialized restrictions", user);
@@ -0,0 +1,252 @@
+import { Filter, ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, Page, PageOptions, WriteEvent } from "../framework/doc";
+import { Word, stem, words } from "../framework/text";
+import { BadValuesError } from "./errors";
+
+/**
+ * A collection whose documents can be searched, e.g. the posts.
+ */
+export interface SearchSource<Schema extends BaseDoc> {
+  /** What its documents are called in results, e.g. `post`. */
+  type: string;
+  collection: DocCollection<Schema>;
+  /** The searched text of `doc` by field, e.g. `{ title, description }`, or `null` if `doc` shouldn't be found. */
+  fields(doc: Schema): Record<string, string> | null;
+  /** How much more words weigh in some fields than in the others (1), e.g. `{ title: 3 }`. */
+  weights?: Record<string, number>;
+}
+
+export interface SearchEntryDoc extends BaseDoc {
+  type: string;
+  /** Id of the document in the source's collection. */
+  document: ObjectId;
+  fields: Record<string, string>;
+  /** Stems of the words of `fields`. */
+  terms: string[];
+  /** Beginnings of the words of `fields`, so a query for "dan" finds "dancer". */
+  prefixes: string[];
+}
+
+export interface SearchResult {
+  type: string;
+  document: ObjectId;
+  score: number;
+  /** Field the snippet is from. */
+  field: string;
+  /** Part of the field around the first match, HTML-escaped, with the matching words in `<mark>`s. */
+  snippet: string;
+}
+
+/** Shortest beginning of a word a query can find it by. */
+const MIN_PREFIX = 2;
+/** Longest beginning of a word that's indexed, so long words don't add lots of prefixes. */
+const MAX_PREFIX = 15;
+/** Most entries ranked for a query; the others are left out of the results. */
+const MAX_CANDIDATES = 1000;
+const SNIPPET_LENGTH = 160;
+/** How many documents {@link SearchConcept.rebuild} reads at once. */
+const REBUILD_BATCH = 500;
+/** Term frequency saturation of BM25: words repeated more than a few times barely count more. */
+const K1 = 1.2;
+/** How much less a word counts when it only starts with a query word (e.g. "dancer" for "dan") than when it has its stem. */
+const PREFIX_FACTOR = 0.5;
+
+interface QueryWord {
+  word: string;
+  stem: string;
+}
+
+function escapeHTML(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+/**
+ * How much `word` of a document matches the query word `query`: 1 if they have the same stem, {@link PREFIX_FACTOR} if it starts with it, else 0.
+ */
+function matchOf(word: string, query: QueryWord) {
+  if (stem(word) === query.stem) {
+    return 1;
+  }
+  return query.word.length >= MIN_PREFIX && word.startsWith(query.word) ? PREFIX_FACTOR : 0;
+}
+
+/**
+ * Search results are ranked, not sorted by date like other pages, so their cursor is the number of results already returned.
+ */
+function decodeOffset(cursor?: string) {
+  if (cursor === undefined) {
+    return 0;
+  }
+  const offset = Number(Buffer.from(cursor, "base64url").toString());
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new BadValuesError("Invalid page cursor '{0}'!", cursor);
+  }
+  return offset;
+}
+
+export default class SearchConcept {
+  public readonly entries = new DocCollection<SearchEntryDoc>("search index", {
+    audit: false,
+    indexes: [{ keys: { document: 1 }, unique: true }, { keys: { terms: 1 } }, { keys: { prefixes: 1 } }],
+  });
+  private readonly sources = new Map<string, SearchSource<BaseDoc>>();
+
+  /**
+   * Makes the documents of `source` searchable. They're indexed as they are written, see {@link record}, and by {@link rebuild}.
+   * @param source the collection, what its documents are called and their searched fields
+   */
+  addSource<Schema extends BaseDoc>(source: SearchSource<Schema>) {
+    this.sources.set(source.collection.name, source as unknown as SearchSource<BaseDoc>);
+  }
+
+  /**
+   * Gets the types of documents that can be searched
+   * @returns the types of every source, e.g. `["post", "user"]`
+   */
+  getTypes() {
+    return [...this.sources.values()].map((source) => source.type);
+  }
+
+  /**
+   * Updates the index after a write to one of the sources
+   * @param event the write, as reported by {@link DocCollection.onWrite}
+   */
+  async record(event: WriteEvent) {
+    const source = this.sources.get(event.collection);
+    if (!source) {
+      return;
+    }
+    for (const { _id, after } of event.changes) {
+      // Documents in the trash can't be found either.
+      await this.index(source, _id, after && !after.deletedAt ? source.fields(after as BaseDoc) : null);
+    }
+  }
+
+  /**
+   * Indexes every document of every source again, e.g. for documents written before they could be searched.
+   * Documents are read a batch at a time and the index stays usable meanwhile, so it doesn't need a transaction.
+   * @returns how many documents are in the index
+   */
+  async rebuild() {
+    const started = new Date();
+    for (const source of this.sources.values()) {
+      let batch = await source.collection.readMany({}, { sort: { _id: 1 }, limit: REBUILD_BATCH });
+      while (batch.length > 0) {
+        for (const doc of batch) {
+          await this.index(source, doc._id, source.fields(doc));
+        }
+        batch = await source.collection.readMany({ _id: { $gt: batch[batch.length - 1]._id } }, { sort: { _id: 1 }, limit: REBUILD_BATCH });
+      }
+    }
+    // What wasn't indexed again (nor written since) is about documents that are gone.
+    await this.entries.deleteMany({ dateCreated: { $lt: started } });
+    return await this.entries.count({});
+  }
+
+  /**
+   * Finds the documents matching all the words of `query`, most relevant first.
+   * A word matches words with the same stem ("dancing" finds "danced") and words starting with it ("dan" finds "dancers", ranked lower).
+   * Documents are ranked with BM25: a match counts more for words that few documents have, and more in weighted fields, but less and less
+   * as a word repeats in a document.
+   * @param query words to look for
+   * @param types types of documents to search, all of them if left out
+   * @param page which page of results to get
+   * @returns a page of results, with a snippet of the text that matched
+   * @throws BadValuesError if the query has no words that can be searched, or one of `types` can't be searched
+   */
+  async search(query: string, types?: string[], page: PageOptions = {}): Promise<Page<SearchResult>> {
+    const queryWords = [...new Map(words(query).map(({ word }) => [word, { word, stem: stem(word) }])).values()];
+    if (queryWords.length === 0) {
+      throw new BadValuesError("The search '{0}' has no words to look for!", query);
+    }
+    const unknown = types?.filter((type) => !this.getTypes().includes(type)) ?? [];
+    if (unknown.length > 0) {
+      throw new BadValuesError("Can't search {0}!", unknown.join(", "));
+    }
+    const limit = Math.min(page.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = decodeOffset(page.after);
+
+    const matching = (query: QueryWord): Filter<SearchEntryDoc> => (query.word.length >= MIN_PREFIX ? { $or: [{ terms: query.stem }, { prefixes: query.word }] } : { terms: query.stem });
+    const filter: Filter<SearchEntryDoc> = { $and: [...queryWords.map(matching), ...(types ? [{ type: { $in: types } }] : [])] };
+    const candidates = await this.entries.readMany(filter, { limit: MAX_CANDIDATES });
+    const total = await this.entries.count({});
+    const idf = await Promise.all(
+      queryWords.map(async (query) => {
+        const count = await this.entries.count(matching(query));
+        return Math.log(1 + (total - count + 0.5) / (count + 0.5));
+      }),
+    );
+
+    const results = candidates.map((entry) => this.rank(entry, queryWords, idf)).sort((a, b) => b.score - a.score || a.document.toHexString().localeCompare(b.document.toHexString()));
+    const items = results.slice(offset, offset + limit);
+    const next = offset + limit;
+    return { items, nextCursor: next < results.length ? Buffer.from(String(next)).toString("base64url") : null };
+  }
+
+  /**
+   * Scores `entry` against the query and makes the snippet of its best matching field.
+   */
+  private rank(entry: SearchEntryDoc, queryWords: QueryWord[], idf: number[]): SearchResult {
+    const source = [...this.sources.values()].find((source) => source.type === entry.type);
+    // How often each query word appears, weighted by field, and how much each field matched.
+    const frequencies = queryWords.map(() => 0);
+    let best = { field: Object.keys(entry.fields)[0] ?? "", score: -1, words: [] as Word[] };
+    for (const [field, text] of Object.entries(entry.fields)) {
+      const weight = source?.weights?.[field] ?? 1;
+      const fieldWords = words(text);
+      let fieldScore = 0;
+      queryWords.forEach((query, i) => {
+        const matched = fieldWords.reduce((sum, { word }) => sum + matchOf(word, query), 0);
+        frequencies[i] += matched * weight;
+        fieldScore += matched * weight * idf[i];
+      });
+      if (fieldScore > best.score) {
+        best = { field, score: fieldScore, words: fieldWords };
+      }
+    }
+    const score = frequencies.reduce((sum, frequency, i) => sum + (idf[i] * frequency * (K1 + 1)) / (frequency + K1), 0);
+    const matches = best.words.filter(({ word }) => queryWords.some((query) => matchOf(word, query) > 0));
+    return { type: entry.type, document: entry.document, score: Math.round(score * 1000) / 1000, field: best.field, snippet: this.snippet(entry.fields[best.field] ?? "", matches) };
+  }
+
+  /**
+   * Cuts {@link SNIPPET_LENGTH} characters of `text` around the first of `matches`, at word boundaries, and highlights the matches in it.
+   */
+  private snippet(text: string, matches: Word[]) {
+    let start = 0;
+    if (text.length > SNIPPET_LENGTH && matches.length > 0) {
+      // Leave some context before the first match.
+      start = Math.max(0, Math.min(matches[0].start - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+      const space = text.lastIndexOf(" ", start);
+      start = space === -1 ? 0 : space + 1;
+    }
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (end < text.length) {
+      const space = text.lastIndexOf(" ", end);
+      end = space > start ? space : end;
+    }
+    let snippet = start > 0 ? "…" : "";
+    let position = start;
+    for (const match of matches.filter((match) => match.start >= start && match.end <= end)) {
+      snippet += escapeHTML(text.slice(position, match.start)) + `<mark>${escapeHTML(text.slice(match.start, match.end))}</mark>`;
+      position = match.end;
+    }
+    snippet += escapeHTML(text.slice(position, end)).trimEnd();
+    return end < text.length ? `${snippet}…` : snippet;
+  }
+
+  /**
+   * Indexes the fields of the document `_id` of `source`, or removes it from the index if `fields` is `null`.
+   */
+  private async index(source: SearchSource<BaseDoc>, _id: ObjectId, fields: Record<string, string> | null) {
+    await this.entries.deleteOne({ document: _id });
+    if (!fields) {
+      return;
+    }
+    const all = Object.values(fields).flatMap((text) => words(text).map(({ word }) => word));
+    const terms = new Set(all.map(stem));
+    const prefixes = new Set(all.flatMap((word) => Array.from({ length: Math.min(word.length, MAX_PREFIX) - MIN_PREFIX + 1 }, (_, i) => word.slice(0, MIN_PREFIX + i))));
+    await this.entries.createOne({ type: source.type, document: _id, fields, terms: [...terms], prefixes: [...prefixes] });
+  }
+}
@@ -1,6 +1,8 @@
-import { ObjectId } from "mongodb";
+import { Filter, ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { ErrorCode } from "../framework/errors";
+import { DomainEvent, publish } from "../framework/events";
 import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export interface TagDoc extends BaseDoc {
@@ -10,7 +12,11 @@ export interface TagDoc extends BaseDoc {
 }
 
 export default class TagConcept {
-  public readonly tags = new DocCollection<TagDoc>("tags");
+  // Tags go to the trash with their post, and come back with it.
+  public readonly tags = new DocCollection<TagDoc>("tags", {
+    softDelete: true,
+    indexes: [{ keys: { tagged: 1, post: 1 }, unique: true, onDuplicate: (tag) => new DuplicatedTagError(tag.tagged!, tag.post!) }, { keys: { post: 1 } }],
+  });
 
   /**
    * Creates a new tag
@@ -18,39 +24,46 @@ export default class TagConcept {
    * @param tagged id of the user tagged
    * @param post id of the post tag is on
    * @returns an object containing a success message and the tag object
+   * @throws DuplicatedTagError if the user is already tagged in the given post
    */
   async create(tagger: ObjectId, tagged: ObjectId, post: ObjectId) {
-    await this.tagExists(tagged, post);
     const _id = await this.tags.createOne({ tagger, tagged, post });
+    await publish(new TagAdded(tagger, tagged, post));
     return { msg: "Tag successfully created!", tag: await this.tags.readOne({ _id }) };
   }
 
+  /**
+   * Gets a tag by its id
+   * @param _id id of the tag
+   * @returns the tag with that id
+   * @throws NotFoundError if no tag exists with that id
+   */
+  async getById(_id: ObjectId) {
+    const tag = await this.tags.readById(_id);
+    if (tag) {
+      return tag;
+    }
+    throw new NotFoundError("Tag {0} does not exist!", _id);
+  }
+
   /**
    * Gets tags for a given post
    * @param post id of the post that we're retrieving tags for
-   * @returns tag objects which belong to a given post
+   * @param page which page of tags to get
+   * @returns a page of tag objects which belong to a given post
    */
-  async getByPost(post: ObjectId) {
-    return await this.tags.readMany(
-      { post },
-      {
-        sort: { dateUpdated: -1 },
-      },
-    );
+  async getByPost(post: ObjectId, page?: PageOptions) {
+    return await this.tags.readPage({ post }, page);
   }
 
   /**
    * Gets tags for a given user
    * @user id of the user that we're retrieving tags for
-   * @returns tag objects which belong to a given user
+   * @param page which page of tags to get
+   * @returns a page of tag objects which belong to a given user
    */
-  async getByTagged(tagged: ObjectId) {
-    return await this.tags.readMany(
-      { tagged },
-      {
-        sort: { dateUpdated: -1 },
-      },
-    );
+  async getByTagged(tagged: ObjectId, page?: PageOptions) {
+    return await this.tags.readPage({ tagged }, page);
   }
 
   /**
@@ -65,45 +78,78 @@ export default class TagConcept {
     const tagId = (await this.tags.readOne({ tagged, post }))?._id;
     if (tagId) {
       await this.isTagger(tagId, user);
-      await this.tags.deleteOne({ _id: tagId });
+      await this.remove({ _id: tagId });
+      await publish(new TagRemoved(user, tagged, post));
       return { msg: "Tag deleted successfully!" };
     }
     throw new BadValuesError("Tag doesn't exist");
   }
 
+  /**
+   * Gets all tags by and for a user, for exporting their data
+   * @param user id of the user
+   * @returns the tags the user made or is tagged in, oldest first
+   */
+  async exportUser(user: ObjectId) {
+    return await this.tags.readMany({ $or: [{ tagger: user }, { tagged: user }] }, { sort: { _id: 1 } });
+  }
+
   /**
    * Removes all tags by and for a user
    * @param user id of the user trying to delete tag
    * @returns an object containing a success message
    */
   async deleteUser(user: ObjectId) {
-    await this.tags.deleteMany({
+    await this.remove({
       $or: [{ tagged: user }, { tagger: user }],
     });
     return { msg: "Tags deleted successfully!" };
   }
 
   /**
-   * Removes all tags for a given post
-   * @param user id of the user trying to delete tag
+   * Moves all tags for a given post to the trash, along with the post
+   * @param post id of the post
    * @returns an object containing a success message
    */
   async deletePost(post: ObjectId) {
+    const tags = await this.tags.readMany({ post });
     await this.tags.deleteMany({ post });
+    for (const tag of tags) {
+      await publish(new TagRemoved(tag.tagger, tag.tagged, post));
+    }
     return { msg: "Tags deleted successfully!" };
   }
 
   /**
-   * Checks if a given post already has a tag for given user
-   * @param tagged id of the user being tagged
-   * @param post id of the post we're checking
-   * @throws DuplicatedTagError if the user is already tagged in the given post
+   * Takes the tags for a given post back out of the trash, along with the post
+   * @param post id of the post
+   * @returns an object containing a success message
    */
-  private async tagExists(tagged: ObjectId, post: ObjectId) {
-    const tag = await this.tags.readOne({ tagged, post });
-    if (tag) {
-      throw new DuplicatedTagError(tagged, post);
+  async restorePost(post: ObjectId) {
+    for (let tag = await this.tags.readDeletedOne({ post }); tag; tag = await this.tags.readDeletedOne({ post })) {
+      await this.tags.restoreOne({ _id: tag._id });
+      await publish(new TagAdded(tag.tagger, tag.tagged, post));
     }
+    return { msg: "Tags restored successfully!" };
+  }
+
+  /**
+   * Permanently deletes the tags for given posts, in or out of the trash
+   * @param posts ids of the posts
+   * @returns the removed tags
+   */
+  async purgePosts(posts: ObjectId[]) {
+    return await this.remove({ post: { $in: posts } });
+  }
+
+  /**
+   * Deletes tags for good, instead of moving them to the trash, so that the same user can be tagged in the post again
+   * @param filter which tags to delete
+   * @returns the removed tags
+   */
+  private async remove(filter: Filter<TagDoc>) {
+    await this.tags.deleteMany(filter);
+    return await this.tags.purge(filter);
   }
 
   /**
@@ -116,7 +162,7 @@ export default class TagConcept {
   private async isTagger(_id: ObjectId, user: ObjectId) {
     const tag = await this.tags.readOne({ _id });
     if (!tag) {
-      throw new NotFoundError(`Tag ${_id} does not exist!`);
+      throw new NotFoundError("Tag {0} does not exist!", _id);
     }
     if (tag.tagger.toString() !== user.toString()) {
       throw new TaggerNotMatchError(user, tag.post);
@@ -124,6 +170,27 @@ export default class TagConcept {
   }
 }
 
+export class TagAdded extends DomainEvent {
+  constructor(
+    public readonly tagger: ObjectId,
+    public readonly tagged: ObjectId,
+    public readonly post: ObjectId,
+  ) {
+    super();
+  }
+}
+
+export class TagRemoved extends DomainEvent {
+  constructor(
+    public readonly tagger: ObjectId,
+    public readonly tagged: ObjectId,
+    public readonly post: ObjectId,
+  ) {
+    super();
+  }
+}
+
+@ErrorCode("NOT_TAGGER")
 export class TaggerNotMatchError extends NotAllowedError {
   constructor(
     public readonly user: ObjectId,
@@ -133,6 +200,7 @@ export class TaggerNotMatchError extends NotAllowedError {
   }
 }
 
+@ErrorCode("DUPLICATE_TAG")
 export class DuplicatedTagError extends NotAllowedError {
   constructor(
     public readonly user: ObjectId,
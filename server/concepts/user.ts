@@ -1,5 +1,6 @@
 import { ObjectId } from "mongodb";
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { DomainEvent, publish } from "../framework/events";
 import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export interface UserDoc extends BaseDoc {
@@ -11,10 +12,14 @@ export interface UserDoc extends BaseDoc {
   city: string;
   state: string;
   country: string;
+  /** Locale the user wants messages in, e.g. `es`. Without one, the browser's languages are used. */
+  locale?: string;
 }
 
 export default class UserConcept {
-  public readonly users = new DocCollection<UserDoc>("users");
+  public readonly users = new DocCollection<UserDoc>("users", {
+    indexes: [{ keys: { email: 1 }, unique: true, onDuplicate: (user) => new NotAllowedError("User with email {0} already exists!", user.email) }],
+  });
 
   /**
    * Creates a new user
@@ -23,11 +28,13 @@ export default class UserConcept {
    * @param name name of user
    * @param information general information on the user
    * @returns an object containing a success message and a user object
+   * @throws NotAllowedError if the email is already taken
    */
   async create(email: string, password: string, name: string, birthday: Date, city: string, state: string, country: string) {
-    await this.canCreate(email, password);
+    this.canCreate(email, password);
     const tempProfilePic = new ObjectId();
     const _id = await this.users.createOne({ email, password, name, profilePic: tempProfilePic, birthday, city, state, country });
+    await publish(new UserCreated(_id));
     return { msg: "User created successfully!", user: await this.users.readOne({ _id }) };
   }
 
@@ -51,37 +58,51 @@ export default class UserConcept {
     return this.sanitizeUser(user);
   }
 
+  /**
+   * Finds users by their ids
+   * @param ids ids of the users
+   * @returns the users' information (without password), in the order of `ids`
+   * @throws NotFoundError if one of the users isn't found
+   */
+  async getUsersByIds(ids: ObjectId[]) {
+    const users = await this.users.readByIds(ids);
+    if (users.some((user) => !user)) {
+      throw new NotFoundError(`User not found!`);
+    }
+    return (users as UserDoc[]).map((user) => this.sanitizeUser(user));
+  }
+
   /**
    * Gets the names of given users from their ids
    * @param ids ids of users we're getting the name for
    * @returns an array containing users' names
    */
   async idsToNames(ids: ObjectId[]) {
-    const users = await this.users.readMany({ _id: { $in: ids } });
-    // Store strings in Map because ObjectId comparison by reference is wrong
-    const idToUser = new Map(users.map((user) => [user._id.toString(), user]));
-    return ids.map((id) => idToUser.get(id.toString())?.name ?? "DELETED_USER");
+    const users = await this.users.readByIds(ids);
+    return users.map((user) => user?.name ?? "DELETED_USER");
   }
 
   /**
    * Gets user info from their ids
    * @param ids ids of users we're getting the info for
-   * @returns an array containing users' info
+   * @returns an array containing the info of the users that exist, in the order of `ids`
    */
   async idsToUsers(ids: ObjectId[]) {
-    return await this.users.readMany({ _id: { $in: ids } });
+    const users = await this.users.readByIds(ids);
+    return users.filter((user): user is UserDoc => user !== null);
   }
 
   /**
    * Retrieves all users or users with a given name
    * @param name name being searched
-   * @returns user objects that have that name or all users if no name is indicated
+   * @param page which page of users to get
+   * @returns a page of user objects that have that name or all users if no name is indicated
    */
-  async getUsers(name?: string) {
+  async getUsers(name?: string, page?: PageOptions) {
     // If username is undefined, return all users by applying empty filter
     const filter = name ? { name } : {};
-    const users = (await this.users.readMany(filter)).map(this.sanitizeUser);
-    return users;
+    const users = await this.users.readPage(filter, page);
+    return { items: users.items.map(this.sanitizeUser), nextCursor: users.nextCursor };
   }
 
   /**
@@ -103,16 +124,14 @@ export default class UserConcept {
    * Updates the information of a user
    * @param _id id of user being updated
    * @param update new information for the user
+   * @param version version of the user the change is based on, if the client sent one
    * @returns an object containing a success message
+   * @throws NotAllowedError if the new email is already taken
+   * @throws ConflictError if the user was changed since that version
    */
-  async update(_id: ObjectId, update: Partial<UserDoc>) {
+  async update(_id: ObjectId, update: Partial<UserDoc>, version?: number) {
     this.sanitizeUpdate(update);
-    if ("email" in update) {
-      if (update.email) {
-        await this.isEmailUnique(update.email);
-      }
-    }
-    await this.users.updateOne({ _id }, update);
+    await this.users.updateOne({ _id }, update, { ifVersion: version });
     return { msg: "User updated successfully!" };
   }
 
@@ -120,11 +139,13 @@ export default class UserConcept {
    * Updates the profile picture for a given user
    * @param _id id of user being updated
    * @param profilePic new profile pic id for the user
+   * @param version version of the user the change is based on, if the client sent one
    * @returns the id of the old profile pic
+   * @throws ConflictError if the user was changed since that version
    */
-  async updateProfilePic(_id: ObjectId, profilePic: ObjectId) {
+  async updateProfilePic(_id: ObjectId, profilePic: ObjectId, version?: number) {
     const oldProfilePic = (await this.userDoesntExist(_id)).profilePic;
-    await this.users.updateOne({ _id }, { profilePic });
+    await this.users.updateOne({ _id }, { profilePic }, { ifVersion: version });
     return oldProfilePic;
   }
 
@@ -135,6 +156,7 @@ export default class UserConcept {
    */
   async delete(_id: ObjectId) {
     await this.users.deleteOne({ _id });
+    await publish(new UserDeleted(_id));
     return { msg: "User deleted!" };
   }
 
@@ -159,7 +181,7 @@ export default class UserConcept {
    * @throws NotfoundError if the user isn't found
    */
   private async userDoesntExist(_id: ObjectId) {
-    const user = await this.users.readOne({ _id });
+    const user = await this.users.readById(_id);
     if (!user) {
       throw new NotFoundError(`User not found!`);
     }
@@ -183,22 +205,10 @@ export default class UserConcept {
    * @param password password being checked
    * @throws BadValuesError if the email or password is empty
    */
-  private async canCreate(email: string, password: string) {
+  private canCreate(email: string, password: string) {
     if (!email || !password) {
       throw new BadValuesError("Email and password must be non-empty!");
     }
-    await this.isEmailUnique(email);
-  }
-
-  /**
-   * Checks if a given email is unique
-   * @param email email that we're checking if it's unique
-   * @throws NotAllowedError if the email isn't unique
-   */
-  private async isEmailUnique(email: string) {
-    if (await this.users.readOne({ email })) {
-      throw new NotAllowedError(`User with email ${email} already exists!`);
-    }
   }
 
   /**
@@ -207,11 +217,23 @@ export default class UserConcept {
    * @throws NotAllowedError if trying to update a readonly field
    */
   private sanitizeUpdate(update: Partial<UserDoc>) {
-    const allowedUpdates = ["email", "password", "name", "city", "state", "country"];
+    const allowedUpdates = ["email", "password", "name", "city", "state", "country", "locale"];
     for (const key in update) {
       if (!allowedUpdates.includes(key)) {
-        throw new NotAllowedError(`Cannot update '${key}' field!`);
+        throw new NotAllowedError("Cannot update '{0}' field!", key);
       }
     }
   }
 }
+
+export class UserCreated extends DomainEvent {
+  constructor(public readonly user: ObjectId) {
+    super();
+  }
+}
+
+export class UserDeleted extends DomainEvent {
+  constructor(public readonly user: ObjectId) {
+    super();
+  }
+}
@@ -1,6 +1,7 @@
 import { ObjectId } from "mongodb";
 
 import DocCollection, { BaseDoc } from "../framework/doc";
+import { DomainEvent, publish } from "../framework/events";
 import { BadValuesError } from "./errors";
 
 export interface VoteDoc extends BaseDoc {
@@ -10,7 +11,9 @@ export interface VoteDoc extends BaseDoc {
 }
 
 export default class VoteConcept {
-  public readonly votes = new DocCollection<VoteDoc>("votes");
+  public readonly votes = new DocCollection<VoteDoc>("votes", {
+    indexes: [{ keys: { user: 1, parent: 1 }, unique: true }, { keys: { parent: 1 } }],
+  });
 
   /**
    * Creates a vote if it doesn't exist and updates or deletes it if it does
@@ -30,18 +33,21 @@ export default class VoteConcept {
           if (upvote) {
             applause = -0.5; // cancel perks from upvote
           }
+          await publish(new VoteCast(user, parent, applause));
           return { applausePoints: applause, msg: "vote removed" };
         }
         await this.votes.updateOne({ user, parent }, { upvote });
         if (!upvote) {
           applause = -0.5; // deduct applause for downvote
         }
+        await publish(new VoteCast(user, parent, applause * 2));
         return { applausePoints: applause * 2, msg: "vote value updated" }; // double to undo previous vote
       }
       await this.votes.createOne({ user, upvote, parent });
       if (!upvote) {
         applause = -0.5; // deduct applause for downvote
       }
+      await publish(new VoteCast(user, parent, applause));
       return { applausePoints: applause, msg: "Vote successfully created!" };
     }
     throw new BadValuesError("there is a required field that's empty");
@@ -76,6 +82,15 @@ export default class VoteConcept {
     return { msg: "Vote successfully deleted!" };
   }
 
+  /**
+   * Gets all votes by a given user, for exporting their data
+   * @param user id of the user
+   * @returns the user's votes, oldest first
+   */
+  async exportUser(user: ObjectId) {
+    return await this.votes.readMany({ user }, { sort: { _id: 1 } });
+  }
+
   /**
    * Deletes all votes by a given user
    * @param user id of the user
@@ -85,4 +100,24 @@ export default class VoteConcept {
     await this.votes.deleteMany({ user });
     return { msg: "Votes successfully deleted!" };
   }
+
+  /**
+   * Deletes all votes on given posts or comments
+   * @param parents ids of the posts or comments
+   * @returns an object containing a success message
+   */
+  async deleteParents(parents: ObjectId[]) {
+    await this.votes.deleteMany({ parent: { $in: parents } });
+    return { msg: "Votes successfully deleted!" };
+  }
+}
+
+export class VoteCast extends DomainEvent {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly parent: ObjectId,
+    public readonly applausePoints: number,
+  ) {
+    super();
+  }
 }
@@ -13,6 +13,8 @@ declare module "express-session" {
     admin?: boolean;
     actor?: boolean;
     castor?: boolean;
+    /** Locale the logged in user prefers messages in, from their profile. */
+    locale?: string;
   }
 }
 
@@ -43,6 +45,7 @@ export default class WebSessionConcept {
     session.actor = undefined;
     session.admin = undefined;
     session.castor = undefined;
+    session.locale = undefined;
   }
 
   /**
@@ -58,6 +61,15 @@ export default class WebSessionConcept {
     session.castor = castor;
   }
 
+  /**
+   * Sets the locale messages are sent to the user in
+   * @param session websession object for a given session
+   * @param locale the user's preferred locale, or undefined to go by the browser's languages
+   */
+  setLocale(session: WebSessionDoc, locale: string | undefined) {
+    session.locale = locale;
+  }
+
   /**
    * Gets the id of the logged in user
    * @param session websession object for a given session
@@ -1,17 +1,24 @@
 import { MongoClient, ServerApiVersion } from "mongodb";
 
+import { logger } from "./framework/logger";
+import MemoryStorage from "./framework/memory";
+import { MongoStorage, StorageDriver } from "./framework/storage";
+
 const mongoUri = process.env.MONGO_SRV;
-if (!mongoUri) {
-  throw new Error("Please add the MongoDB connection SRV as 'MONGO_SRV'");
-}
 
-export const client = new MongoClient(mongoUri, {
-  serverApi: {
-    version: ServerApiVersion.v1,
-    strict: true,
-    deprecationErrors: true,
-  },
-});
+/**
+ * The MongoDB client, or `null` if no 'MONGO_SRV' is configured,
+ * in which case all data is kept in memory.
+ */
+export const client = mongoUri
+  ? new MongoClient(mongoUri, {
+      serverApi: {
+        version: ServerApiVersion.v1,
+        strict: true,
+        deprecationErrors: true,
+      },
+    })
+  : null;
 
 export const DB_NAME = "conception-db"; // Feel free to change db name!
 
@@ -20,14 +27,18 @@ export const DB_NAME = "conception-db"; // Feel free to change db name!
  * Called in `main.ts`.
  */
 export async function connectDb() {
+  if (!client) {
+    logger.warn("No 'MONGO_SRV' given, storing data in memory. It will be lost when the server stops!");
+    return;
+  }
   try {
     await client.connect();
   } catch (e) {
     throw new Error("MongoDB Connection failed: " + e);
   }
   await client.db("admin").command({ ping: 1 });
-  console.log("You successfully connected to MongoDB!");
+  logger.info("Connected to MongoDB");
 }
 
-const db = client.db(DB_NAME);
+const db: StorageDriver = client ? new MongoStorage(client, DB_NAME) : new MemoryStorage();
 export default db;
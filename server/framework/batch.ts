@@ -0,0 +1,186 @@
+import { Router as ExpressRouter, Request, Response } from "express";
+
+import { BadValuesError, NotFoundError } from "../concepts/errors";
+import { getRequestContext } from "./context";
+import { ErrorCode, FormattableError } from "./errors";
+import { negotiateLocale } from "./i18n";
+import { HttpMethod, Router } from "./router";
+
+/**
+ * One of the requests of a batch. `path` is relative to the API version the batch was sent to,
+ * e.g. `/users/6540...` or `/focusedPosts?authorEmail=...`.
+ *
+ * The path and string values of the body can refer to the result of an earlier request of the batch with `{{<index>.<field>...}}`,
+ * e.g. `/portfolio/{{0._id}}` once request 0 got a user. A value that is only a reference gets the referred value as is (e.g. a list).
+ */
+export interface BatchRequest {
+  method: HttpMethod;
+  path: string;
+  body?: Record<string, unknown>;
+  /** Headers to send on top of the ones of the batch request, e.g. `If-Match`. */
+  headers?: Record<string, string>;
+}
+
+export interface BatchResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** Most requests a batch can hold. */
+export const MAX_BATCH_SIZE = 20;
+
+const METHODS: HttpMethod[] = ["get", "post", "put", "patch", "delete"];
+
+const REFERENCE = /{{(\d+)((?:\.[\w$-]+)*)}}/g;
+
+// Marks the requests of a batch, see {@link isBatched}.
+const BATCHED = Symbol("batched");
+
+/**
+ * Thrown instead of running a request of a batch whose references can't be resolved,
+ * because the request it refers to failed or its result doesn't have the field.
+ */
+@ErrorCode("FAILED_DEPENDENCY")
+export class FailedDependencyError extends FormattableError {
+  public readonly HTTP_CODE = 424;
+}
+
+/**
+ * Checks everything about the requests of a batch that can be checked before running any of them.
+ * @throws BadValuesError if `requests` isn't a list of requests, or a request refers to one that doesn't come before it
+ */
+function validate(requests: unknown): asserts requests is BatchRequest[] {
+  if (!Array.isArray(requests) || requests.length === 0 || requests.length > MAX_BATCH_SIZE) {
+    throw new BadValuesError("A batch takes a list of 1 to {0} requests!", MAX_BATCH_SIZE);
+  }
+  requests.forEach((request: Partial<BatchRequest> | null, index) => {
+    if (typeof request?.path !== "string" || !request.path.startsWith("/") || !METHODS.includes(request.method?.toLowerCase() as HttpMethod)) {
+      throw new BadValuesError("Invalid request {0} in the batch, expected a method ({1}) and a path starting with /!", index, METHODS.join(", "));
+    }
+    if (/^\/batch\b/.test(request.path)) {
+      throw new BadValuesError("Request {0} in the batch can't be another batch!", index);
+    }
+    for (const [, referred] of JSON.stringify(request).matchAll(REFERENCE)) {
+      if (Number(referred) >= index) {
+        throw new BadValuesError("Request {0} in the batch refers to request {1}, which doesn't come before it!", index, Number(referred));
+      }
+    }
+  });
+}
+
+function lookup(responses: BatchResponse[], index: number, referred: number, fields: string) {
+  const response = responses[referred];
+  if (response.status >= 400) {
+    throw new FailedDependencyError("Request {0} in the batch refers to request {1}, which failed!", index, referred);
+  }
+  let value = response.body;
+  for (const field of fields.split(".").slice(1)) {
+    value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[field] : undefined;
+  }
+  if (value === undefined) {
+    throw new FailedDependencyError("Request {0} in the batch refers to {1}, which the result of request {2} doesn't have!", index, fields.slice(1), referred);
+  }
+  return value;
+}
+
+/**
+ * Replaces the references in `value` (and the strings it contains) with what they refer to.
+ * @throws FailedDependencyError if a reference can't be resolved
+ */
+function resolve(value: unknown, responses: BatchResponse[], index: number): unknown {
+  if (typeof value === "string") {
+    const whole = new RegExp(`^${REFERENCE.source}$`).exec(value);
+    if (whole) {
+      return lookup(responses, index, Number(whole[1]), whole[2]);
+    }
+    return value.replace(REFERENCE, (match, referred: string, fields: string) => String(lookup(responses, index, Number(referred), fields)));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolve(item, responses, index));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item, responses, index)]));
+  }
+  return value;
+}
+
+/**
+ * Whether `req` is one of the requests of a batch, whose response only captures the status, headers and JSON or text body
+ * routes respond with, so routes writing to the response themselves (e.g. a stream or a file) can't run in it.
+ */
+export function isBatched(req: Request) {
+  return BATCHED in req;
+}
+
+/**
+ * Runs `request` through `router` as if it was sent by the client that sent `req`,
+ * i.e. with the same session and headers, and captures what the route responds with.
+ */
+async function dispatch(router: ExpressRouter, req: Request, request: BatchRequest) {
+  const url = new URL(request.path, "http://batch");
+  const subRequest = Object.assign(Object.create(req) as Request, {
+    method: request.method.toUpperCase(),
+    url: url.pathname + url.search,
+    originalUrl: req.baseUrl + url.pathname + url.search,
+    baseUrl: req.baseUrl,
+    params: {},
+    query: Object.fromEntries(url.searchParams),
+    body: request.body ?? {},
+    headers: { ...req.headers, ...Object.fromEntries(Object.entries(request.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value])) },
+    [BATCHED]: true,
+  });
+  return await new Promise<BatchResponse>((resolve, reject) => {
+    const captured: BatchResponse = { status: 200, headers: {}, body: null };
+    // The parts of express' response that routes use.
+    const response = {
+      // Read by the route's metrics.
+      statusCode: captured.status,
+      set(field: string | Record<string, string>, value?: string) {
+        Object.assign(captured.headers, typeof field === "string" ? { [field]: value } : field);
+        return response;
+      },
+      status(code: number) {
+        captured.status = response.statusCode = code;
+        return response;
+      },
+      type(type: string) {
+        return response.set("Content-Type", type);
+      },
+      json(body: unknown) {
+        // Stored the way the client would get it, so references see ids as strings.
+        resolve({ ...captured, body: JSON.parse(JSON.stringify(body ?? null)) as unknown });
+        return response;
+      },
+      send(body: unknown) {
+        resolve({ ...captured, body });
+        return response;
+      },
+    };
+    // Called when no route responded, or with an error express itself ran into.
+    router(subRequest, response as unknown as Response, (error?: unknown) => reject(error ?? new NotFoundError("route doesn't exist")));
+  });
+}
+
+/**
+ * Makes the action of the `/batch` route of `router`, which runs a list of requests one after the other
+ * through the routes of `router` and responds with the status, headers and body each got.
+ * A request failing doesn't stop the ones after it, except those referring to its result.
+ */
+export function makeBatchAction(router: ExpressRouter) {
+  return async function batch(req: Request, requests: unknown) {
+    validate(requests);
+    const responses: BatchResponse[] = [];
+    for (const [index, request] of requests.entries()) {
+      try {
+        const resolved = resolve({ path: request.path, body: request.body }, responses, index) as Pick<BatchRequest, "path" | "body">;
+        responses.push(await dispatch(router, req, { ...request, ...resolved }));
+      } catch (e: unknown) {
+        const locale = negotiateLocale(req.session?.locale, req.get("Accept-Language"));
+        const { status, body } = await Router.errorResponse(e, locale, getRequestContext()?.requestId ?? "");
+        responses.push({ status, headers: {}, body });
+      }
+    }
+    return { responses };
+  };
+}
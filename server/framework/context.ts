@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * What is known about the request currently being handled.
+ */
+export interface RequestContext {
+  /** Unique id of the request, sent back in the `X-Request-Id` header and with errors. */
+  requestId: string;
+  /** Method and path of the route handling the request, e.g. `DELETE /api/users`. */
+  route: string;
+  /** Id of the logged in user, if any. */
+  user?: string;
+}
+
+const contexts = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs `fn` with `context` as the request context of everything it (asynchronously) calls.
+ */
+export async function runInContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return await contexts.run(context, fn);
+}
+
+/**
+ * Returns the context of the request being handled, or `undefined` outside of requests (e.g. at startup).
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return contexts.getStore();
+}
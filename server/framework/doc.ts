@@ -1,6 +1,5 @@
 import {
   BulkWriteOptions,
-  Collection,
   Condition,
   CountDocumentsOptions,
   DeleteOptions,
@@ -9,33 +8,250 @@ import {
   Filter,
   FindOneAndUpdateOptions,
   FindOptions,
+  MongoServerError,
   ObjectId,
   OptionalUnlessRequiredId,
   ReplaceOptions,
+  UpdateFilter,
   UpdateResult,
   WithId,
   WithoutId,
 } from "mongodb";
 
+import { BadValuesError, ConflictError, NotAllowedError } from "../concepts/errors";
 import db from "../db";
+import { forgetLoaded, requestLoader } from "./loader";
+import { logOperations } from "./logger";
+import { timeOperations } from "./metrics";
+import { CollectionDriver, IndexDescription } from "./storage";
 
 export interface BaseDoc {
   _id: ObjectId;
   dateCreated: Date;
   dateUpdated: Date;
+  /** Starts at 1 and is incremented by every update, see {@link UpdateOneOptions.ifVersion}. */
+  version: number;
+  /** When the document was moved to the trash, for collections with {@link DocCollectionOptions.softDelete}. */
+  deletedAt?: Date;
+}
+
+export type WriteOperation = "createOne" | "createMany" | "replaceOne" | "updateOne" | "deleteOne" | "deleteMany" | "restoreOne" | "purge";
+
+/**
+ * A write made through a {@link DocCollection}, with the state of every document it changed before and after it.
+ * `before` is `null` for created documents and `after` is `null` for permanently deleted ones.
+ */
+export interface WriteEvent {
+  collection: string;
+  operation: WriteOperation;
+  filter: Document | null;
+  changes: { _id: ObjectId; before: Document | null; after: Document | null }[];
+}
+
+export type WriteListener = (event: WriteEvent) => Promise<void>;
+
+export interface IndexSpec<Schema extends BaseDoc> {
+  /** Indexed fields, in order, with 1 for ascending and -1 for descending. */
+  keys: Partial<Record<keyof Schema & string, 1 | -1>>;
+  /** Whether no two documents can have the same values for all of `keys`. */
+  unique?: boolean;
+  /**
+   * For unique indexes, builds the error thrown when a write would duplicate the values of `keys`.
+   * Defaults to a generic {@link NotAllowedError}.
+   */
+  onDuplicate?: (values: Partial<Schema>) => Error;
+}
+
+export interface DocCollectionOptions<Schema extends BaseDoc = BaseDoc> {
+  /**
+   * Whether deleting a document only marks it with `deletedAt` instead of removing it.
+   * Marked documents are ignored by all reads and updates until they are restored, and removed for good by `purge`.
+   */
+  softDelete?: boolean;
+  /** Whether writes to the collection are reported to {@link DocCollection.onWrite} listeners. Defaults to `true`. */
+  audit?: boolean;
+  /** Indexes the collection should have. They are created by {@link DocCollection.syncIndexes}. */
+  indexes?: IndexSpec<Schema>[];
+}
+
+/**
+ * Names an index the way MongoDB does by default, e.g. `user_1_parent_1`.
+ */
+function indexName(keys: Record<string, unknown>) {
+  return Object.entries(keys)
+    .map(([field, direction]) => `${field}_${direction}`)
+    .join("_");
+}
+
+function sameKeys(a: Record<string, unknown>, b: Record<string, unknown>) {
+  return JSON.stringify(Object.entries(a)) === JSON.stringify(Object.entries(b));
+}
+
+export interface UpdateOneOptions extends FindOneAndUpdateOptions {
+  /**
+   * Only update the document if its `version` is still this one, i.e. nobody changed it since it was read.
+   * @see DocCollection.updateOne
+   */
+  ifVersion?: number;
 }
 
 export type WithoutBase<T extends BaseDoc> = Omit<T, keyof BaseDoc>;
 
+export interface PageOptions {
+  /** Maximum number of items in the page, see {@link DEFAULT_PAGE_SIZE} and {@link MAX_PAGE_SIZE}. */
+  limit?: number;
+  /** Cursor of the previous page. The first page is returned if left out. */
+  after?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Opaque cursor to pass as `after` to get the next page, or `null` if this is the last page. */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Cursors encode the sort key (`dateUpdated` and `_id`) of the last item of a page.
+ */
+function encodeCursor(doc: BaseDoc) {
+  return Buffer.from(JSON.stringify([doc.dateUpdated.toISOString(), doc._id.toHexString()])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [Date, ObjectId] {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch {
+    decoded = undefined;
+  }
+  if (Array.isArray(decoded) && typeof decoded[0] === "string" && typeof decoded[1] === "string" && ObjectId.isValid(decoded[1])) {
+    const dateUpdated = new Date(decoded[0]);
+    if (!isNaN(dateUpdated.getTime())) {
+      return [dateUpdated, new ObjectId(decoded[1])];
+    }
+  }
+  throw new BadValuesError("Invalid page cursor '{0}'!", cursor);
+}
+
 export default class DocCollection<Schema extends BaseDoc> {
-  protected readonly collection: Collection<Schema>;
-  private static collectionNames: Set<string> = new Set();
+  protected readonly collection: CollectionDriver<Schema>;
+  private static readonly collections = new Map<string, DocCollection<BaseDoc>>();
+  private static readonly writeListeners: WriteListener[] = [];
 
-  constructor(public readonly name: string) {
-    if (DocCollection.collectionNames.has(name)) {
+  constructor(
+    public readonly name: string,
+    private readonly options: DocCollectionOptions<Schema> = {},
+  ) {
+    if (DocCollection.collections.has(name)) {
       throw new Error(`Collection '${name}' already exists!`);
     }
-    this.collection = db.collection(name);
+    DocCollection.collections.set(name, this as unknown as DocCollection<BaseDoc>);
+    this.collection = logOperations(name, timeOperations(name, db.collection<Schema>(name)));
+  }
+
+  /**
+   * Makes the indexes of every collection match their {@link DocCollectionOptions.indexes}, see {@link syncIndexes}.
+   * A collection whose indexes can't be synced (e.g. because it already holds duplicates for a new unique index) doesn't stop the others.
+   * @returns what was changed in each collection, or why it couldn't be
+   */
+  static async syncAllIndexes() {
+    const results = [];
+    for (const collection of this.collections.values()) {
+      try {
+        results.push({ collection: collection.name, ...(await collection.syncIndexes()) });
+      } catch (e) {
+        results.push({ collection: collection.name, created: [], dropped: [], error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Removes every document of every collection, including the ones in the trash, without reporting the writes.
+   * Meant for resetting demo and test databases; indexes are kept.
+   */
+  static async clearAll() {
+    for (const collection of this.collections.values()) {
+      await collection.collection.deleteMany({});
+    }
+  }
+
+  /**
+   * Makes the indexes of the collection match {@link DocCollectionOptions.indexes}:
+   * creates the missing ones, drops the ones that are no longer declared and recreates the ones that changed.
+   * @returns names of the indexes that were created and dropped
+   */
+  async syncIndexes() {
+    const declared: IndexDescription[] = (this.options.indexes ?? []).map((index) => ({
+      name: indexName(index.keys),
+      key: index.keys as Record<string, 1 | -1>,
+      unique: index.unique ?? false,
+    }));
+    const existing = await this.collection.listIndexes();
+    const created: string[] = [];
+    const dropped: string[] = [];
+    for (const index of existing) {
+      const wanted = declared.find((d) => d.name === index.name);
+      if (index.name !== "_id_" && (!wanted || wanted.unique !== index.unique || !sameKeys(wanted.key, index.key))) {
+        await this.collection.dropIndex(index.name);
+        dropped.push(index.name);
+      }
+    }
+    for (const index of declared) {
+      if (dropped.includes(index.name) || !existing.some((e) => e.name === index.name)) {
+        await this.collection.createIndex(index);
+        created.push(index.name);
+      }
+    }
+    return { created, dropped };
+  }
+
+  /**
+   * Calls `listener` after every write to a collection (that doesn't opt out with {@link DocCollectionOptions.audit}).
+   * Listeners run before the write returns, as part of its transaction if there is one.
+   */
+  static onWrite(listener: WriteListener) {
+    this.writeListeners.push(listener);
+  }
+
+  private get audited() {
+    return this.options.audit !== false && DocCollection.writeListeners.length > 0;
+  }
+
+  /**
+   * Reads the documents matching `filter` that a write is about to change, if anyone listens to writes.
+   */
+  private async readBefore(filter: Filter<Schema>, many: boolean): Promise<Schema[]> {
+    if (!this.audited) {
+      return [];
+    }
+    if (many) {
+      return await this.collection.find(filter);
+    }
+    const doc = await this.collection.findOne(filter);
+    return doc ? [doc] : [];
+  }
+
+  /**
+   * Reports a write to the listeners, along with the state after it of the documents with ids `ids`
+   * (by default the ones that were read before it).
+   * Also forgets the documents {@link readByIds} loaded for the current request, since they may have changed.
+   */
+  private async reportWrite(operation: WriteOperation, filter: Filter<Schema> | null, before: Schema[], ids = before.map((doc) => doc._id)) {
+    forgetLoaded(this.name);
+    if (!this.audited || ids.length === 0) {
+      return;
+    }
+    const after = await this.collection.find({ _id: { $in: ids } } as Filter<Schema>);
+    const byId = (docs: Schema[]) => new Map(docs.map((doc) => [doc._id.toHexString(), doc]));
+    const [beforeById, afterById] = [byId(before), byId(after)];
+    const changes = ids.map((_id) => ({ _id, before: beforeById.get(_id.toHexString()) ?? null, after: afterById.get(_id.toHexString()) ?? null }));
+    for (const listener of DocCollection.writeListeners) {
+      await listener({ collection: this.name, operation, filter, changes });
+    }
   }
 
   /**
@@ -46,6 +262,8 @@ export default class DocCollection<Schema extends BaseDoc> {
     delete item._id;
     delete item.dateCreated;
     delete item.dateUpdated;
+    delete item.version;
+    delete item.deletedAt;
   }
 
   /**
@@ -58,6 +276,37 @@ export default class DocCollection<Schema extends BaseDoc> {
     }
   }
 
+  /**
+   * Runs a write, turning duplicate key errors of unique indexes into the error the index declares.
+   * @throws NotAllowedError (or the index's {@link IndexSpec.onDuplicate} error) if the write would duplicate the keys of a unique index
+   */
+  private async guardUnique<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (e) {
+      if (!(e instanceof MongoServerError) || e.code !== 11000) {
+        throw e;
+      }
+      const values = (e.keyValue ?? {}) as Partial<Schema>;
+      const index = this.options.indexes?.find((index) => e.keyPattern && sameKeys(index.keys, e.keyPattern));
+      throw index?.onDuplicate?.(values) ?? new NotAllowedError("{0} with {1} already exists!", this.name, JSON.stringify(values));
+    }
+  }
+
+  /**
+   * Restricts `filter` to documents that are not in the trash.
+   */
+  private live(filter: Filter<Schema>): Filter<Schema> {
+    return this.options.softDelete ? ({ $and: [filter, { deletedAt: { $exists: false } }] } as Filter<Schema>) : filter;
+  }
+
+  /**
+   * Restricts `filter` to documents that are in the trash.
+   */
+  private trashed(filter: Filter<Schema>): Filter<Schema> {
+    return { $and: [filter, { deletedAt: { $exists: true } }] } as Filter<Schema>;
+  }
+
   /**
    * Add `item` to the collection. Returns the _id of the inserted document.
    */
@@ -65,7 +314,10 @@ export default class DocCollection<Schema extends BaseDoc> {
     this.sanitizeItem(item);
     item.dateCreated = new Date();
     item.dateUpdated = new Date();
-    return (await this.collection.insertOne(item as OptionalUnlessRequiredId<Schema>)).insertedId;
+    item.version = 1;
+    const _id = await this.guardUnique(() => this.collection.insertOne(item as OptionalUnlessRequiredId<Schema>));
+    await this.reportWrite("createOne", null, [], [_id]);
+    return _id;
   }
 
   /**
@@ -76,8 +328,11 @@ export default class DocCollection<Schema extends BaseDoc> {
       this.sanitizeItem(item);
       item.dateCreated = new Date();
       item.dateUpdated = new Date();
+      item.version = 1;
     });
-    return (await this.collection.insertMany(items as OptionalUnlessRequiredId<Schema>[], options)).insertedIds;
+    const ids = await this.guardUnique(() => this.collection.insertMany(items as OptionalUnlessRequiredId<Schema>[], options));
+    await this.reportWrite("createMany", null, [], Object.values(ids));
+    return ids;
   }
 
   /**
@@ -85,7 +340,7 @@ export default class DocCollection<Schema extends BaseDoc> {
    */
   async readOne(filter: Filter<Schema>, options?: FindOptions): Promise<Schema | null> {
     this.sanitizeFilter(filter);
-    return await this.collection.findOne<Schema>(filter, options);
+    return await this.collection.findOne(this.live(filter), options);
   }
 
   /**
@@ -93,7 +348,69 @@ export default class DocCollection<Schema extends BaseDoc> {
    */
   async readMany(filter: Filter<Schema>, options?: FindOptions): Promise<Schema[]> {
     this.sanitizeFilter(filter);
-    return await this.collection.find<Schema>(filter, options).toArray();
+    return await this.collection.find(this.live(filter), options);
+  }
+
+  /**
+   * Read the documents with ids `ids`, in the same order, with `null` for the ones that don't exist (or are in the trash).
+   * The ids read while handling a request are gathered into a single `$in` query and the documents are kept until the collection
+   * is written to, so converting many documents that refer to the same ones (e.g. the authors of posts) doesn't query each of them.
+   */
+  async readByIds(ids: ObjectId[]): Promise<(Schema | null)[]> {
+    const loader = requestLoader(
+      this.name,
+      async (ids: ObjectId[]) => {
+        const docs = await this.readMany({ _id: { $in: ids } } as Filter<Schema>);
+        return new Map(docs.map((doc) => [doc._id.toHexString(), doc]));
+      },
+      (_id) => _id.toString(),
+    );
+    return await loader.loadMany(ids);
+  }
+
+  /**
+   * Read the document with id `_id`, see {@link readByIds}. Returns `null` if there is none.
+   */
+  async readById(_id: ObjectId): Promise<Schema | null> {
+    return (await this.readByIds([_id]))[0];
+  }
+
+  /**
+   * Read one page of the documents that match `filter`, most recently updated first.
+   * Ties on `dateUpdated` are broken by `_id`, so paging is stable even if documents are inserted in between.
+   * @throws BadValuesError if `page.after` is not a cursor returned by this method
+   */
+  async readPage(filter: Filter<Schema>, page: PageOptions = {}): Promise<Page<Schema>> {
+    this.sanitizeFilter(filter);
+    return await this.findPage(this.live(filter), page);
+  }
+
+  /**
+   * Same as {@link readOne} but for the documents in the trash.
+   */
+  async readDeletedOne(filter: Filter<Schema>, options?: FindOptions): Promise<Schema | null> {
+    this.sanitizeFilter(filter);
+    return await this.collection.findOne(this.trashed(filter), options);
+  }
+
+  /**
+   * Same as {@link readPage} but for the documents in the trash.
+   */
+  async readDeletedPage(filter: Filter<Schema>, page: PageOptions = {}): Promise<Page<Schema>> {
+    this.sanitizeFilter(filter);
+    return await this.findPage(this.trashed(filter), page);
+  }
+
+  private async findPage(filter: Filter<Schema>, page: PageOptions) {
+    const limit = Math.min(Math.max(Math.floor(page.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+    if (page.after) {
+      const [dateUpdated, _id] = decodeCursor(page.after);
+      filter = { $and: [filter, { $or: [{ dateUpdated: { $lt: dateUpdated } }, { dateUpdated, _id: { $lt: _id } }] }] } as Filter<Schema>;
+    }
+    // Read one extra document to find out whether there is a next page.
+    const docs = await this.collection.find(filter, { sort: { dateUpdated: -1, _id: -1 }, limit: limit + 1 });
+    const items = docs.slice(0, limit);
+    return { items, nextCursor: docs.length > limit ? encodeCursor(items[items.length - 1]) : null };
   }
 
   /**
@@ -102,33 +419,91 @@ export default class DocCollection<Schema extends BaseDoc> {
   async replaceOne(filter: Filter<Schema>, item: Partial<Schema>, options?: ReplaceOptions): Promise<UpdateResult<Schema> | Document> {
     this.sanitizeFilter(filter);
     this.sanitizeItem(item);
-    return await this.collection.replaceOne(filter, item as WithoutId<Schema>, options);
+    const before = await this.readBefore(this.live(filter), false);
+    item.version = ((await this.collection.findOne(this.live(filter)))?.version ?? 0) + 1;
+    const result = await this.guardUnique(() => this.collection.replaceOne(this.live(filter), item as WithoutId<Schema>, options));
+    await this.reportWrite("replaceOne", filter, before);
+    return result;
   }
 
   /**
-   * Update the document that matches `filter` based on existing fields in `update`.
+   * Update the document that matches `filter` based on existing fields in `update`, and increment its version.
+   * If `options.ifVersion` is given, read-modify-write cycles can use it to detect that someone else changed the document in between.
+   * @throws ConflictError if the document matching `filter` exists but its version isn't `options.ifVersion`
    */
-  async updateOne(filter: Filter<Schema>, update: Partial<Schema>, options?: FindOneAndUpdateOptions): Promise<UpdateResult<Schema>> {
+  async updateOne(filter: Filter<Schema>, update: Partial<Schema>, options: UpdateOneOptions = {}): Promise<UpdateResult<Schema>> {
     this.sanitizeItem(update);
     this.sanitizeFilter(filter);
     update.dateUpdated = new Date();
-    return await this.collection.updateOne(filter, { $set: update }, options);
+    const { ifVersion, ...updateOptions } = options;
+    const target = ifVersion === undefined ? this.live(filter) : ({ $and: [this.live(filter), { version: ifVersion }] } as Filter<Schema>);
+    const before = await this.readBefore(this.live(filter), false);
+    const result = await this.guardUnique(() => this.collection.updateOne(target, { $set: update, $inc: { version: 1 } } as unknown as UpdateFilter<Schema>, updateOptions));
+    if (result.matchedCount === 0 && ifVersion !== undefined) {
+      const current = await this.collection.findOne(this.live(filter));
+      if (current) {
+        throw new ConflictError("'{0}' was changed by someone else: expected version {1} but it is at version {2}!", current._id, ifVersion, current.version);
+      }
+    }
+    await this.reportWrite("updateOne", filter, before);
+    return result;
   }
 
   /**
-   * Delete the document that matches `filter`.
+   * Delete the document that matches `filter`, or move it to the trash if the collection uses soft deletion.
    */
   async deleteOne(filter: Filter<Schema>, options?: DeleteOptions): Promise<DeleteResult> {
     this.sanitizeFilter(filter);
-    return await this.collection.deleteOne(filter, options);
+    const before = await this.readBefore(this.live(filter), false);
+    let result: DeleteResult;
+    if (this.options.softDelete) {
+      const updated = await this.collection.updateOne(this.live(filter), { $set: { deletedAt: new Date() }, $inc: { version: 1 } } as unknown as UpdateFilter<Schema>);
+      result = { acknowledged: updated.acknowledged, deletedCount: updated.modifiedCount };
+    } else {
+      result = await this.collection.deleteOne(filter, options);
+    }
+    await this.reportWrite("deleteOne", filter, before);
+    return result;
   }
 
   /**
-   * Delete all documents that match `filter`.
+   * Delete all documents that match `filter`, or move them to the trash if the collection uses soft deletion.
    */
   async deleteMany(filter: Filter<Schema>, options?: DeleteOptions): Promise<DeleteResult> {
     this.sanitizeFilter(filter);
-    return await this.collection.deleteMany(filter, options);
+    const before = await this.readBefore(this.live(filter), true);
+    let result: DeleteResult;
+    if (this.options.softDelete) {
+      const updated = await this.collection.updateMany(this.live(filter), { $set: { deletedAt: new Date() }, $inc: { version: 1 } } as unknown as UpdateFilter<Schema>);
+      result = { acknowledged: updated.acknowledged, deletedCount: updated.modifiedCount };
+    } else {
+      result = await this.collection.deleteMany(filter, options);
+    }
+    await this.reportWrite("deleteMany", filter, before);
+    return result;
+  }
+
+  /**
+   * Take the document in the trash that matches `filter` back out of it.
+   */
+  async restoreOne(filter: Filter<Schema>): Promise<UpdateResult<Schema>> {
+    this.sanitizeFilter(filter);
+    const before = await this.readBefore(this.trashed(filter), false);
+    const result = await this.guardUnique(() => this.collection.updateOne(this.trashed(filter), { $unset: { deletedAt: "" }, $inc: { version: 1 } } as unknown as UpdateFilter<Schema>));
+    await this.reportWrite("restoreOne", filter, before);
+    return result;
+  }
+
+  /**
+   * Permanently delete the documents in the trash that match `filter`.
+   * Returns the deleted documents so callers can clean up what they referenced.
+   */
+  async purge(filter: Filter<Schema>): Promise<Schema[]> {
+    this.sanitizeFilter(filter);
+    const docs = await this.collection.find(this.trashed(filter));
+    await this.collection.deleteMany({ _id: { $in: docs.map((doc) => doc._id) } } as Filter<Schema>);
+    await this.reportWrite("purge", filter, docs);
+    return docs;
   }
 
   /**
@@ -136,7 +511,7 @@ export default class DocCollection<Schema extends BaseDoc> {
    */
   async count(filter: Filter<Schema>, options?: CountDocumentsOptions): Promise<number> {
     this.sanitizeFilter(filter);
-    return await this.collection.countDocuments(filter, options);
+    return await this.collection.countDocuments(this.live(filter), options);
   }
 
   /**
@@ -153,3 +528,24 @@ export default class DocCollection<Schema extends BaseDoc> {
     return one;
   }
 }
+
+/**
+ * Runs `fn` as a single all-or-nothing unit of work, see `StorageDriver.transaction`.
+ * Concept methods called inside `fn` join the transaction without having to do anything.
+ */
+export async function transaction<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await db.transaction(fn);
+  } catch (e) {
+    // Documents loaded inside the transaction may hold changes that were just rolled back.
+    forgetLoaded();
+    throw e;
+  }
+}
+
+/**
+ * Runs `effect` once the current transaction committed, or right away outside of transactions, see `StorageDriver.afterCommit`.
+ */
+export function afterCommit(effect: () => void) {
+  db.afterCommit(effect);
+}
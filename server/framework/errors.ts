@@ -0,0 +1,96 @@
+import { fillPlaceholders } from "./i18n";
+
+type ErrorClass = new (...args: never[]) => Error;
+
+// Codes declared with `@ErrorCode`, by error class.
+const codes = new Map<ErrorClass, string>();
+
+/**
+ * Decorator giving an error class a stable, machine-readable code, e.g. `NOT_FOLDER_OWNER`,
+ * so clients can tell errors apart without matching their messages.
+ * Subclasses without a code of their own use the code of their closest decorated ancestor.
+ *
+ * Example:
+ * ```
+ * @ErrorCode("NOT_FOLDER_OWNER")
+ * export class NotFolderOwnerError extends NotAllowedError { ... }
+ * ```
+ */
+export function ErrorCode(code: string) {
+  return function (target: ErrorClass, context: ClassDecoratorContext) {
+    const existing = [...codes.entries()].find(([, other]) => other === code);
+    if (existing) {
+      throw new Error(`Error code ${code} is used by both ${existing[0].name} and ${String(context.name)}!`);
+    }
+    codes.set(target, code);
+  };
+}
+
+/**
+ * Returns the code of `error`, see {@link ErrorCode}.
+ */
+export function codeOf(error: ErrorClass): string {
+  for (let current: unknown = error; current; current = Object.getPrototypeOf(current)) {
+    const code = codes.get(current as ErrorClass);
+    if (code) {
+      return code;
+    }
+  }
+  return codeOf(FormattableError);
+}
+
+/**
+ * Lists every error class that declared a code, along with its status code, message format and parameter names.
+ */
+export function getErrorCodes() {
+  return [...codes.entries()].map(([error, code]) => {
+    // Error classes only take format arguments, so a throwaway instance is enough to read them.
+    const instance = new (error as unknown as new (...args: unknown[]) => FormattableError)("");
+    return { code, name: error.name, status: instance.HTTP_CODE, ...(instance.format && { format: instance.format }), params: Object.keys(instance.params) };
+  });
+}
+
+// Properties of errors that aren't arguments of their message.
+const OWN_PROPERTIES = ["format", "args", "code", "HTTP_CODE"];
+
+/**
+ * A formattable error. Use `{0}`, `{1}`, etc. in the error message to format it with the arguments passed to the constructor.
+ * The `formatWith` method can be used to create a new error with the same format but different arguments.
+ *
+ * Example:
+ * ```
+ * let error = new FormattableError("{0} is not the author of post {1}!", author, _id);
+ * let errorWithUsername = e.formatWith(username, _id);
+ * ```
+ */
+@ErrorCode("INTERNAL_ERROR")
+export class FormattableError extends Error {
+  public HTTP_CODE: number = 500;
+  public code: string = codeOf(this.constructor as ErrorClass);
+  public readonly args: unknown[];
+
+  constructor(
+    public readonly format: string,
+    ...args: unknown[]
+  ) {
+    super(fillPlaceholders(format, args));
+    this.args = args;
+  }
+
+  /**
+   * The values the error is about, for clients to build their own message with.
+   * Errors that keep them as properties (like `user` in `NotFolderOwnerError`) give them by name,
+   * others by their position in the format, e.g. `{ "0": "title" }`.
+   */
+  get params(): Record<string, unknown> {
+    const named = Object.entries(this).filter(([key]) => !OWN_PROPERTIES.includes(key));
+    return Object.fromEntries(named.length > 0 ? named : this.args.map((arg, i) => [i.toString(), arg]));
+  }
+
+  formatWith(...args: unknown[]) {
+    const e = new FormattableError(this.format, ...args);
+    e.HTTP_CODE = this.HTTP_CODE;
+    e.code = this.code;
+    return e;
+  }
+}
@@ -0,0 +1,119 @@
+import { Filter, ObjectId } from "mongodb";
+
+import { getRequestContext } from "./context";
+import DocCollection, { BaseDoc, PageOptions } from "./doc";
+
+/**
+ * Something that happened in a concept that other concepts may react to, e.g. a post being created.
+ * Events only hold the values describing what happened, as public readonly fields set by their constructor,
+ * and are named after their class (past tense, e.g. `PostCreated`), so renaming one breaks replaying the recorded ones.
+ *
+ * Example:
+ * ```
+ * export class PostCreated extends DomainEvent {
+ *   constructor(public readonly post: ObjectId, public readonly author: ObjectId) { super(); }
+ * }
+ * ```
+ */
+export abstract class DomainEvent {}
+
+export type EventClass<E extends DomainEvent> = new (...args: never[]) => E;
+
+export type EventHandler<E extends DomainEvent> = (event: E) => unknown;
+
+export interface SubscribeOptions {
+  /** Whether {@link replay} runs the handler too. Handlers with side effects outside the database, like notifying users, shouldn't. Defaults to true. */
+  replay?: boolean;
+}
+
+export interface EventDoc extends BaseDoc {
+  /** Class name of the event, e.g. `PostCreated`. */
+  name: string;
+  /** Fields of the event. */
+  payload: Record<string, unknown>;
+  /** Route of the request that published the event, or "system" for events published outside of requests. */
+  actor: string;
+  /** The logged in user whose request published the event, if any. */
+  user?: ObjectId;
+}
+
+export interface EventQuery {
+  names?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+const recorded = new DocCollection<EventDoc>("events", { audit: false, indexes: [{ keys: { name: 1 } }] });
+
+// Event classes and their handlers, by event name.
+const subscribers = new Map<string, { event: EventClass<DomainEvent>; handlers: { handle: EventHandler<DomainEvent>; replay: boolean }[] }>();
+
+/**
+ * Runs `handler` every time an `event` is published. Handlers of an event run one after the other, in the order they subscribed.
+ */
+export function subscribe<E extends DomainEvent>(event: EventClass<E>, handler: EventHandler<E>, options?: SubscribeOptions) {
+  const subscriber = subscribers.get(event.name) ?? { event, handlers: [] };
+  subscriber.handlers.push({ handle: handler as EventHandler<DomainEvent>, replay: options?.replay ?? true });
+  subscribers.set(event.name, subscriber);
+}
+
+async function deliver(event: DomainEvent, replaying = false) {
+  for (const { handle, replay } of subscribers.get(event.constructor.name)?.handlers ?? []) {
+    if (replay || !replaying) {
+      await handle(event);
+    }
+  }
+}
+
+/**
+ * Records `event` and runs its handlers. Errors thrown by handlers reach the publisher,
+ * so an event published inside a transaction is rolled back along with whatever its handlers did.
+ * Handlers with side effects outside the database should make them with `afterCommit` (from `doc.ts`), like `notify` does,
+ * so they don't happen for a transaction that is rolled back or happen twice for one that is retried.
+ */
+export async function publish(event: DomainEvent) {
+  const context = getRequestContext();
+  await recorded.createOne({
+    name: event.constructor.name,
+    payload: { ...event },
+    actor: context?.route ?? "system",
+    ...(context?.user && { user: new ObjectId(context.user) }),
+  });
+  await deliver(event);
+}
+
+function toFilter(query: EventQuery) {
+  const filter: Filter<EventDoc> = {};
+  if (query.names) {
+    filter.name = { $in: query.names };
+  }
+  if (query.from || query.to) {
+    filter.dateCreated = { ...(query.from && { $gte: query.from }), ...(query.to && { $lte: query.to }) };
+  }
+  return filter;
+}
+
+/**
+ * Finds recorded events, most recent first.
+ */
+export async function getEvents(query: EventQuery, page?: PageOptions) {
+  return await recorded.readPage(toFilter(query), page);
+}
+
+/**
+ * Runs the current handlers (except those subscribed with `replay: false`) again on the recorded events matching `query`, oldest first, without recording them again.
+ * Handlers aren't idempotent (e.g. applause is added, not set), so whatever they maintain should be reset before replaying.
+ * @returns how many events were replayed
+ */
+export async function replay(query: EventQuery) {
+  const events = await recorded.readMany(toFilter(query), { sort: { _id: 1 } });
+  let replayed = 0;
+  for (const { name, payload } of events) {
+    const subscriber = subscribers.get(name);
+    if (subscriber) {
+      await deliver(Object.assign(Object.create(subscriber.event.prototype) as DomainEvent, payload), true);
+      replayed++;
+    }
+  }
+  return replayed;
+}
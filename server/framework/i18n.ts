@@ -0,0 +1,103 @@
+/**
+ * Translations of messages into one language, keyed by the English message.
+ * Translations keep the `{0}`, `{1}`, etc. placeholders of the message, in whatever order the language needs,
+ * e.g. `"{0} and {1} are already connected!": "¡{0} y {1} ya están conectados!"`.
+ */
+export type Catalog = Record<string, string>;
+
+/** The language messages are written in, used when no catalog matches what the client asked for. */
+export const DEFAULT_LOCALE = "en";
+
+const catalogs = new Map<string, Catalog>();
+
+/**
+ * Adds the catalog of `locale`, e.g. `es` or `pt-br`.
+ */
+export function registerCatalog(locale: string, catalog: Catalog) {
+  catalogs.set(locale.toLowerCase(), catalog);
+}
+
+/**
+ * Lists the locales messages can be translated to, including {@link DEFAULT_LOCALE}.
+ */
+export function getLocales() {
+  return [DEFAULT_LOCALE, ...catalogs.keys()];
+}
+
+/**
+ * Replaces the `{0}`, `{1}`, etc. placeholders in `format` with `args`. Placeholders without an argument are kept as is.
+ */
+export function fillPlaceholders(format: string, args: unknown[]) {
+  return format.replace(/{(\d+)}/g, (match, number) => {
+    return typeof args[number] !== "undefined" ? (args[number] as string) : match;
+  });
+}
+
+/**
+ * Finds the supported locale closest to `locale`, e.g. `es` for `es-MX`.
+ */
+function matchLocale(locale: string) {
+  const tag = locale.trim().toLowerCase();
+  const supported = getLocales();
+  return [tag, tag.split("-")[0]].find((candidate) => supported.includes(candidate));
+}
+
+/**
+ * Picks the locale to answer a request in: the user's preference if it is supported,
+ * then the languages of the `Accept-Language` header by their weight, then {@link DEFAULT_LOCALE}.
+ */
+export function negotiateLocale(preferred: string | undefined, acceptLanguage: string | undefined) {
+  const accepted = (acceptLanguage ?? "")
+    .split(",")
+    .map((entry) => {
+      const [tag, ...options] = entry.split(";");
+      const quality = options.map((option) => /^\s*q=([\d.]+)\s*$/.exec(option)).find((match) => match);
+      return { tag: tag.trim(), quality: quality ? Number(quality[1]) : 1 };
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+    .map(({ tag }) => tag);
+  for (const locale of [...(preferred ? [preferred] : []), ...accepted]) {
+    const match = matchLocale(locale);
+    if (match) {
+      return match;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Translates `message` to `locale` and fills in its placeholders with `args`.
+ * Messages missing from the locale's catalog are left in English.
+ */
+export function translate(locale: string, message: string, args: unknown[] = []) {
+  return fillPlaceholders(catalogs.get(locale)?.[message] ?? message, args);
+}
+
+/**
+ * A success message with placeholders, so it can be translated before its arguments are filled in.
+ * Return it as the `msg` of a route's result, where a plain string would need the arguments baked in.
+ *
+ * Example:
+ * ```
+ * return { msg: new FormattableMessage("Permanently deleted {0} items from the trash!", purged) };
+ * ```
+ */
+export class FormattableMessage {
+  public readonly args: unknown[];
+
+  constructor(
+    public readonly format: string,
+    ...args: unknown[]
+  ) {
+    this.args = args;
+  }
+
+  toString() {
+    return fillPlaceholders(this.format, this.args);
+  }
+
+  toJSON() {
+    return this.toString();
+  }
+}
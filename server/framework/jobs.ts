@@ -0,0 +1,249 @@
+import { randomUUID } from "crypto";
+import { Filter, ObjectId } from "mongodb";
+import { hostname } from "os";
+
+import { NotFoundError } from "../concepts/errors";
+import DocCollection, { BaseDoc, PageOptions, transaction } from "./doc";
+import { logger } from "./logger";
+
+/**
+ * Something the app does in the background, e.g. deactivating opportunities once they expire.
+ * Recurring jobs run every {@link every} milliseconds; the others only run when scheduled with {@link scheduleJob}.
+ */
+export interface Job {
+  /** Unique, e.g. `expire-opportunities`. */
+  name: string;
+  /**
+   * Does the work, in a transaction so a failed run leaves nothing half done, unless {@link transaction} is `false`.
+   * @param data what the job was scheduled with, empty for recurring jobs
+   * @returns a summary of what was done, kept with the run, e.g. "Deactivated 3 opportunities"
+   */
+  run(data: Record<string, unknown>): Promise<string | void>;
+  /** How often the job runs, in milliseconds, if it's recurring. */
+  every?: number;
+  /** How many times a run is tried before giving up on it, with a growing delay in between. Defaults to {@link DEFAULT_ATTEMPTS}. */
+  attempts?: number;
+  /**
+   * Whether the run happens in a transaction. Defaults to `true`. Jobs writing too much for one transaction should be `false`,
+   * and do their work in steps that can be run again if a run stops halfway.
+   */
+  transaction?: boolean;
+}
+
+export interface JobDoc extends BaseDoc {
+  /** Name of the {@link Job} to run. */
+  name: string;
+  /** The job's name for recurring jobs, so there's only one of each. One-off jobs get a unique key unless scheduled with one. */
+  key: string;
+  data: Record<string, unknown>;
+  every?: number;
+  /** When the job runs next. */
+  runAt: Date;
+  /** `done` and `failed` jobs don't run anymore. Recurring jobs are always `scheduled`. */
+  status: "scheduled" | "done" | "failed";
+  /** How many times the current run failed. */
+  failures: number;
+  /** Instance running the job, while it runs. */
+  lockedBy: string | null;
+  /** When the lock expires, so another instance can take over if the one running the job died. */
+  lockedUntil: Date;
+}
+
+export interface JobRunDoc extends BaseDoc {
+  job: ObjectId;
+  name: string;
+  instance: string;
+  /** 1 for the first try of a run, 2 for the first retry, and so on. */
+  attempt: number;
+  startedAt: Date;
+  finishedAt: Date;
+  status: "succeeded" | "failed";
+  result?: string;
+  error?: string;
+}
+
+export interface JobRunQuery {
+  name?: string;
+  status?: JobRunDoc["status"];
+}
+
+export const DEFAULT_ATTEMPTS = 3;
+
+/** Delay before the first retry of a failed run, doubled for every retry after that. */
+const BACKOFF_MS = 30_000;
+/** How long an instance can run a job before others consider it dead. */
+const LOCK_MS = 10 * 60_000;
+const POLL_MS = 15_000;
+const UNLOCKED = new Date(0);
+
+const instance = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const jobs = new DocCollection<JobDoc>("jobs", { audit: false, indexes: [{ keys: { key: 1 }, unique: true }, { keys: { status: 1, runAt: 1 } }] });
+const runs = new DocCollection<JobRunDoc>("job runs", { audit: false, indexes: [{ keys: { name: 1 } }] });
+
+const defined = new Map<string, Job>();
+let timer: NodeJS.Timeout | undefined;
+let ticking = false;
+
+/**
+ * Adds the job described by `values` unless one with the same key exists, even if another instance adds it at the same time.
+ */
+async function ensureJob(values: Omit<JobDoc, keyof BaseDoc>) {
+  const existing = await jobs.readOne({ key: values.key });
+  if (existing) {
+    return existing;
+  }
+  try {
+    return (await jobs.readById(await jobs.createOne(values)))!;
+  } catch (e) {
+    const created = await jobs.readOne({ key: values.key });
+    if (!created) {
+      throw e;
+    }
+    return created;
+  }
+}
+
+/**
+ * Schedules a one-off run of the job named `name` at `runAt` with `data`.
+ * Giving a `key` (e.g. `remind:<application id>`) schedules it only once however many times this is called.
+ * @throws NotFoundError if no job is named `name`
+ */
+export async function scheduleJob(name: string, runAt: Date, data: Record<string, unknown> = {}, key?: string) {
+  if (!defined.has(name)) {
+    throw new NotFoundError("Job {0} doesn't exist!", name);
+  }
+  return await ensureJob({ name, key: key ?? `${name}:${new ObjectId().toHexString()}`, data, runAt, status: "scheduled", failures: 0, lockedBy: null, lockedUntil: UNLOCKED });
+}
+
+/**
+ * Takes the lock of `job`, unless another instance took it first.
+ */
+async function claim(job: JobDoc, now: Date) {
+  const claimed = await jobs.updateOne({ _id: job._id, status: "scheduled", runAt: { $lte: now }, lockedUntil: { $lte: now } }, { lockedBy: instance, lockedUntil: new Date(now.getTime() + LOCK_MS) });
+  return claimed.matchedCount === 1;
+}
+
+async function runJob(definition: Job, job: JobDoc) {
+  const attempt = job.failures + 1;
+  const startedAt = new Date();
+  let next: Partial<JobDoc>;
+  try {
+    const result = definition.transaction === false ? await definition.run(job.data) : await transaction(async () => await definition.run(job.data));
+    await runs.createOne({ job: job._id, name: job.name, instance, attempt, startedAt, finishedAt: new Date(), status: "succeeded", ...(result && { result }) });
+    next = job.every ? { runAt: new Date(startedAt.getTime() + job.every), failures: 0 } : { status: "done", failures: 0 };
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : String(e);
+    await runs.createOne({ job: job._id, name: job.name, instance, attempt, startedAt, finishedAt: new Date(), status: "failed", error });
+    logger.error("Job failed", { job: job.name, attempt, error: e });
+    if (attempt < (definition.attempts ?? DEFAULT_ATTEMPTS)) {
+      next = { runAt: new Date(Date.now() + BACKOFF_MS * 2 ** (attempt - 1)), failures: attempt };
+    } else {
+      // Recurring jobs give up on this run only and try again at the next one.
+      next = job.every ? { runAt: new Date(startedAt.getTime() + job.every), failures: 0 } : { status: "failed", failures: attempt };
+    }
+  }
+  // Unless the run took so long that the lock expired and another instance took over the job.
+  await jobs.updateOne({ _id: job._id, lockedBy: instance }, { ...next, lockedBy: null, lockedUntil: UNLOCKED });
+}
+
+/**
+ * Runs the jobs that are due and that no other instance is running, one after the other.
+ */
+async function tick() {
+  if (ticking) {
+    return;
+  }
+  ticking = true;
+  try {
+    const now = new Date();
+    const due = await jobs.readMany({ status: "scheduled", runAt: { $lte: now }, lockedUntil: { $lte: now }, name: { $in: [...defined.keys()] } }, { sort: { runAt: 1 } });
+    for (const job of due) {
+      if (await claim(job, now)) {
+        await runJob(defined.get(job.name)!, job);
+      }
+    }
+  } catch (e) {
+    logger.error("Could not run the due jobs", { error: e });
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Starts running `definitions` in the background: recurring jobs first run right away (unless another instance ran them recently),
+ * and due jobs are looked for every few seconds. Every instance of the app can run the scheduler, since each job run is locked by one of them.
+ */
+export async function startScheduler(definitions: Job[]) {
+  for (const definition of definitions) {
+    defined.set(definition.name, definition);
+    if (definition.every) {
+      const job = await ensureJob({
+        name: definition.name,
+        key: definition.name,
+        data: {},
+        every: definition.every,
+        runAt: new Date(),
+        status: "scheduled",
+        failures: 0,
+        lockedBy: null,
+        lockedUntil: UNLOCKED,
+      });
+      if (job.every !== definition.every) {
+        await jobs.updateOne({ _id: job._id }, { every: definition.every });
+      }
+    }
+  }
+  timer = setInterval(() => void tick(), POLL_MS);
+  void tick();
+}
+
+/**
+ * Stops looking for due jobs. A job that is running finishes.
+ */
+export function stopScheduler() {
+  clearInterval(timer);
+  timer = undefined;
+}
+
+/**
+ * Finds the scheduled jobs, including the ones that are done or failed.
+ */
+export async function getJobs(page?: PageOptions) {
+  return await jobs.readPage({}, page);
+}
+
+/**
+ * Finds the runs of jobs matching `query`, most recent first.
+ */
+export async function getJobRuns(query: JobRunQuery, page?: PageOptions) {
+  const filter: Filter<JobRunDoc> = {};
+  if (query.name) {
+    filter.name = query.name;
+  }
+  if (query.status) {
+    filter.status = query.status;
+  }
+  return await runs.readPage(filter, page);
+}
+
+/**
+ * Makes the recurring job named `name` run as soon as possible instead of waiting for its next run.
+ * @throws NotFoundError if no recurring job is named `name`
+ */
+export async function runJobSoon(name: string) {
+  const job = await jobs.readOne({ key: name, every: { $exists: true } });
+  if (!job) {
+    throw new NotFoundError("Job {0} doesn't exist!", name);
+  }
+  await jobs.updateOne({ _id: job._id }, { runAt: new Date(), failures: 0 });
+  void tick();
+}
+
+/**
+ * Removes the runs that finished before `before`, so the log doesn't grow forever.
+ * @returns how many runs were removed
+ */
+export async function deleteJobRuns(before: Date) {
+  return (await runs.deleteMany({ finishedAt: { $lt: before } })).deletedCount;
+}
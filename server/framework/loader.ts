@@ -0,0 +1,114 @@
+import { RequestContext, getRequestContext } from "./context";
+
+/**
+ * Loads the values of `keys` at once, e.g. with a single `$in` query.
+ * Returns them by the string form of their key; keys missing from the map have no value.
+ */
+export type BatchLoad<K, V> = (keys: K[]) => Promise<Map<string, V>>;
+
+/**
+ * Loads values by key, gathering the keys asked for while the current work runs into a single {@link BatchLoad}
+ * and caching the values, so loading the same key again doesn't load it again.
+ *
+ * Example:
+ * ```
+ * const users = new Loader(async (ids: ObjectId[]) => new Map((await Users.readMany({ _id: { $in: ids } })).map((user) => [user._id.toString(), user])));
+ * const [author, tagged] = await Promise.all([users.load(post.author), users.load(tag.tagged)]); // one query
+ * ```
+ */
+export class Loader<K, V> {
+  private readonly cache = new Map<string, Promise<V | null>>();
+  private pending: { key: K; resolve: (value: V | null) => void; reject: (reason: unknown) => void }[] = [];
+
+  constructor(
+    private readonly batchLoad: BatchLoad<K, V>,
+    private readonly keyOf: (key: K) => string = String,
+  ) {}
+
+  /**
+   * Loads the value of `key`, or `null` if it has none.
+   */
+  async load(key: K): Promise<V | null> {
+    const cacheKey = this.keyOf(key);
+    let value = this.cache.get(cacheKey);
+    if (!value) {
+      value = new Promise((resolve, reject) => {
+        if (this.pending.length === 0) {
+          // Once every promise that is ready ran, so keys asked for after a few awaits still make it into the batch.
+          setImmediate(() => void this.dispatch());
+        }
+        this.pending.push({ key, resolve, reject });
+      });
+      this.cache.set(cacheKey, value);
+    }
+    return await value;
+  }
+
+  /**
+   * Loads the values of `keys`, in the same order, with `null` for keys that have none.
+   */
+  async loadMany(keys: K[]): Promise<(V | null)[]> {
+    return await Promise.all(keys.map(async (key) => await this.load(key)));
+  }
+
+  /**
+   * Forgets the loaded values, e.g. because they changed.
+   */
+  clear() {
+    this.cache.clear();
+  }
+
+  private async dispatch() {
+    const pending = this.pending;
+    this.pending = [];
+    try {
+      const values = await this.batchLoad(pending.map(({ key }) => key));
+      for (const { key, resolve } of pending) {
+        resolve(values.get(this.keyOf(key)) ?? null);
+      }
+    } catch (e: unknown) {
+      for (const { key, reject } of pending) {
+        // So loading the key again tries again.
+        this.cache.delete(this.keyOf(key));
+        reject(e);
+      }
+    }
+  }
+}
+
+const requestLoaders = new WeakMap<RequestContext, Map<string, Loader<unknown, unknown>>>();
+
+/**
+ * Returns the loader named `name` of the request being handled, making it with `batchLoad` the first time,
+ * so everything handling the request shares its batches and cache.
+ * Outside of requests (e.g. in migrations) every call gets a new loader, so nothing is cached.
+ */
+export function requestLoader<K, V>(name: string, batchLoad: BatchLoad<K, V>, keyOf?: (key: K) => string): Loader<K, V> {
+  const context = getRequestContext();
+  if (!context) {
+    return new Loader(batchLoad, keyOf);
+  }
+  const loaders = requestLoaders.get(context) ?? new Map<string, Loader<unknown, unknown>>();
+  requestLoaders.set(context, loaders);
+  if (!loaders.has(name)) {
+    loaders.set(name, new Loader(batchLoad, keyOf) as Loader<unknown, unknown>);
+  }
+  return loaders.get(name) as Loader<K, V>;
+}
+
+/**
+ * Forgets what the loader named `name` of the request being handled loaded,
+ * or what all of its loaders loaded if no name is given.
+ */
+export function forgetLoaded(name?: string) {
+  const context = getRequestContext();
+  const loaders = context && requestLoaders.get(context);
+  if (!loaders) {
+    return;
+  }
+  for (const [loaderName, loader] of loaders) {
+    if (name === undefined || loaderName === name) {
+      loader.clear();
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+
+import { RequestContext, getRequestContext, runInContext } from "./context";
+import { aroundMethods } from "./utils";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/** Request ids clients can pass in `X-Request-Id` to correlate our logs with theirs; others are replaced. */
+const CLIENT_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+function elapsedMs(start: bigint) {
+  return Math.round(Number(process.hrtime.bigint() - start) / 1e3) / 1e3;
+}
+
+function minimumLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  return level && LEVELS.includes(level) ? level : "info";
+}
+
+/**
+ * Whether lines of `level` are written, i.e. it's at least `LOG_LEVEL` (`info` by default).
+ */
+export function isLogged(level: LogLevel) {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(minimumLevel());
+}
+
+/**
+ * Turns `error` into what is logged of it: its class, message, stack, code (see {@link ErrorCode}) and cause.
+ */
+export function serializeError(error: unknown): Record<string, unknown> {
+  if (!(error instanceof Error)) {
+    return { class: typeof error, message: String(error) };
+  }
+  const { code, cause } = error as Error & { code?: unknown; cause?: unknown };
+  return {
+    class: error.constructor.name,
+    message: error.message,
+    ...(code !== undefined && { code }),
+    stack: error.stack,
+    ...(cause !== undefined && { cause: serializeError(cause) }),
+  };
+}
+
+/**
+ * Writes `msg` as a line of JSON to the standard output, along with the time, the level,
+ * the id, route and user of the request being handled (see {@link getRequestContext}) and `fields`.
+ * Errors in `fields` are logged with {@link serializeError}.
+ */
+export function log(level: LogLevel, msg: string, fields: Record<string, unknown> = {}) {
+  if (!isLogged(level)) {
+    return;
+  }
+  const context = getRequestContext();
+  const line = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(context && { requestId: context.requestId, route: context.route, ...(context.user && { user: context.user }) }),
+    ...Object.fromEntries(Object.entries(fields).map(([name, value]) => [name, value instanceof Error ? serializeError(value) : value])),
+  };
+  process.stdout.write(JSON.stringify(line) + "\n");
+}
+
+export const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) => log("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => log("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => log("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => log("error", msg, fields),
+};
+
+/**
+ * Express middleware giving each request an id, sent back in the `X-Request-Id` header, and handling the rest of it
+ * in a request context with that id (see {@link runInContext}), so everything logged while handling it can be told apart.
+ * Logs a `request` line once the response is sent.
+ */
+export function logRequests() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const start = process.hrtime.bigint();
+    const given = req.get("X-Request-Id");
+    const requestId = given && CLIENT_REQUEST_ID.test(given) ? given : randomUUID();
+    res.set("X-Request-Id", requestId);
+    const context: RequestContext = { requestId, route: `${req.method} ${req.path}` };
+    res.on("finish", () => {
+      // Routes run in a context of their own, with their path and user, which is gone by now.
+      const route = req.route ? `${req.method} ${req.baseUrl}${(req.route as { path: string }).path}` : context.route;
+      void runInContext({ ...context, route, user: req.session?.user }, async () => logger.info("request", { method: req.method, url: req.originalUrl, status: res.statusCode, ms: elapsedMs(start) }));
+    });
+    void runInContext(context, async () => next());
+  };
+}
+
+/**
+ * Wraps the async methods of `driver` (e.g. a collection of a storage backend) so each call is logged at the `debug` level,
+ * with how long it took, within the request context it was made in.
+ * @param collection name of the collection, logged with each operation
+ */
+export function logOperations<T extends object>(collection: string, driver: T): T {
+  return aroundMethods(driver, async (operation, call) => {
+    if (!isLogged("debug")) {
+      return await call();
+    }
+    const start = process.hrtime.bigint();
+    try {
+      return await call();
+    } finally {
+      logger.debug("db operation", { collection, operation, ms: elapsedMs(start) });
+    }
+  });
+}
@@ -0,0 +1,438 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Document, Filter, FindOptions, MongoServerError, ObjectId, OptionalUnlessRequiredId, UpdateFilter, UpdateResult, WithoutId } from "mongodb";
+
+import { CollectionDriver, IndexDescription, StorageDriver } from "./storage";
+
+/**
+ * Undo actions for the writes made in a transaction, in the order the writes were made.
+ */
+type Journal = (() => void)[];
+
+/**
+ * What a transaction of {@link MemoryStorage} keeps while it runs.
+ */
+interface MemoryTransaction {
+  journal: Journal;
+  /** Effects of {@link StorageDriver.afterCommit} waiting for the commit. */
+  effects: (() => void)[];
+}
+
+/**
+ * Storage driver that keeps every collection in process memory.
+ * Useful for running the app and its tests without a MongoDB instance;
+ * all data is lost when the process exits.
+ *
+ * Transactions are all-or-nothing but not isolated: other requests can see their writes before they finish.
+ */
+export default class MemoryStorage implements StorageDriver {
+  public readonly name = "memory";
+  private readonly collections = new Map<string, MemoryCollection<Document>>();
+  private readonly transactions = new AsyncLocalStorage<MemoryTransaction>();
+
+  collection<Schema extends Document>(name: string): CollectionDriver<Schema> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new MemoryCollection(() => this.transactions.getStore()?.journal);
+      this.collections.set(name, collection);
+    }
+    return collection as unknown as CollectionDriver<Schema>;
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transactions.getStore()) {
+      return await fn();
+    }
+    const transaction: MemoryTransaction = { journal: [], effects: [] };
+    let result: T;
+    try {
+      result = await this.transactions.run(transaction, fn);
+    } catch (e) {
+      transaction.journal.reverse().forEach((undo) => undo());
+      throw e;
+    }
+    transaction.effects.forEach((effect) => effect());
+    return result;
+  }
+
+  afterCommit(effect: () => void) {
+    const transaction = this.transactions.getStore();
+    if (transaction) {
+      transaction.effects.push(effect);
+    } else {
+      effect();
+    }
+  }
+}
+
+/**
+ * In-memory collection supporting the subset of the MongoDB query language used by the concepts:
+ * equality (including on ObjectIds, Dates and array elements), `$or`/`$and`/`$nor`,
+ * `$eq`/`$ne`/`$in`/`$nin`/`$gt`/`$gte`/`$lt`/`$lte`/`$exists` and the `sort`, `skip` and `limit` options.
+ * Documents are copied on the way in and out so callers can't mutate stored state.
+ * Indexes don't speed anything up, but unique ones are enforced like in MongoDB.
+ */
+export class MemoryCollection<Schema extends Document> implements CollectionDriver<Schema> {
+  private docs: Schema[] = [];
+  private indexes: IndexDescription[] = [{ name: "_id_", key: { _id: 1 }, unique: true }];
+
+  constructor(private readonly journal: () => Journal | undefined = () => undefined) {}
+
+  async insertOne(item: OptionalUnlessRequiredId<Schema>) {
+    // Like MongoDB, generated ids come first in the document.
+    const { _id, ...rest } = clone(item) as Document;
+    const doc: Document = { _id: _id ?? new ObjectId(), ...rest };
+    this.checkUnique(doc);
+    this.docs.push(doc as Schema);
+    this.record(() => this.remove(doc as Schema));
+    return doc._id as ObjectId;
+  }
+
+  async insertMany(items: OptionalUnlessRequiredId<Schema>[]) {
+    const ids: Record<number, ObjectId> = {};
+    for (const [i, item] of items.entries()) {
+      ids[i] = await this.insertOne(item);
+    }
+    return ids;
+  }
+
+  async findOne(filter: Filter<Schema>, options?: FindOptions) {
+    return (await this.find(filter, { ...options, limit: 1 }))[0] ?? null;
+  }
+
+  async find(filter: Filter<Schema>, options?: FindOptions) {
+    let found = this.docs.filter((doc) => matches(doc, filter));
+    if (options?.sort) {
+      found = sortDocs(found, options.sort);
+    }
+    const skip = options?.skip ?? 0;
+    const end = options?.limit ? skip + options.limit : undefined;
+    return found.slice(skip, end).map(clone);
+  }
+
+  async replaceOne(filter: Filter<Schema>, item: WithoutId<Schema>) {
+    const index = this.docs.findIndex((doc) => matches(doc, filter));
+    if (index === -1) {
+      return updateResult(0);
+    }
+    const previous = this.docs[index];
+    const replacement = { ...clone(item), _id: previous._id } as unknown as Schema;
+    this.checkUnique(replacement, previous);
+    this.docs[index] = replacement;
+    this.record(() => this.restore(previous));
+    return updateResult(1);
+  }
+
+  async updateOne(filter: Filter<Schema>, update: UpdateFilter<Schema>) {
+    const doc = this.docs.find((doc) => matches(doc, filter));
+    if (!doc) {
+      return updateResult(0);
+    }
+    this.update(doc, update);
+    return updateResult(1);
+  }
+
+  async updateMany(filter: Filter<Schema>, update: UpdateFilter<Schema>) {
+    const docs = this.docs.filter((doc) => matches(doc, filter));
+    for (const doc of docs) {
+      this.update(doc, update);
+    }
+    return updateResult(docs.length);
+  }
+
+  async deleteOne(filter: Filter<Schema>) {
+    const index = this.docs.findIndex((doc) => matches(doc, filter));
+    if (index === -1) {
+      return { acknowledged: true, deletedCount: 0 };
+    }
+    const [deleted] = this.docs.splice(index, 1);
+    this.record(() => this.docs.push(deleted));
+    return { acknowledged: true, deletedCount: 1 };
+  }
+
+  async deleteMany(filter: Filter<Schema>) {
+    const deleted = this.docs.filter((doc) => matches(doc, filter));
+    this.docs = this.docs.filter((doc) => !matches(doc, filter));
+    this.record(() => this.docs.push(...deleted));
+    return { acknowledged: true, deletedCount: deleted.length };
+  }
+
+  async countDocuments(filter: Filter<Schema>) {
+    return this.docs.filter((doc) => matches(doc, filter)).length;
+  }
+
+  async listIndexes() {
+    return this.indexes.map(clone);
+  }
+
+  async createIndex(index: IndexDescription) {
+    if (this.indexes.some((existing) => existing.name === index.name)) {
+      return;
+    }
+    if (index.unique) {
+      this.docs.forEach((doc, i) => this.checkUnique(doc, doc, [index], this.docs.slice(0, i)));
+    }
+    this.indexes.push(clone(index));
+  }
+
+  async dropIndex(name: string) {
+    if (name === "_id_" || !this.indexes.some((index) => index.name === name)) {
+      throw new MongoServerError({ message: `index not found with name [${name}]`, code: 27 });
+    }
+    this.indexes = this.indexes.filter((index) => index.name !== name);
+  }
+
+  private update(doc: Schema, update: UpdateFilter<Schema>) {
+    const updated = clone(doc);
+    applyUpdate(updated, update);
+    this.checkUnique(updated, doc);
+    this.docs[this.docs.indexOf(doc)] = updated;
+    this.record(() => this.restore(doc));
+  }
+
+  /**
+   * Throws a duplicate key error like MongoDB's if `doc` has the same values as one of `others` for the fields of a unique index.
+   * @param replacing the stored document `doc` is about to replace, which it can't conflict with
+   */
+  private checkUnique(doc: Document, replacing?: Document, indexes = this.indexes, others = this.docs) {
+    for (const index of indexes.filter((index) => index.unique)) {
+      const fields = Object.keys(index.key);
+      // Like in MongoDB, a missing field counts as `null`.
+      const keyValue = Object.fromEntries(fields.map((field) => [field, getPath(doc, field) ?? null]));
+      if (others.some((other) => other !== replacing && fields.every((field) => deepEquals(getPath(other, field) ?? null, keyValue[field])))) {
+        throw new MongoServerError({ message: `E11000 duplicate key error index: ${index.name} dup key: ${JSON.stringify(keyValue)}`, code: 11000, keyPattern: index.key, keyValue });
+      }
+    }
+  }
+
+  /**
+   * Adds the action undoing a write to the journal of the current transaction, if there is one.
+   * Undo actions find documents by `_id`, so they still work after unrelated writes to the collection.
+   */
+  private record(undo: () => void) {
+    this.journal()?.push(undo);
+  }
+
+  private remove(doc: Schema) {
+    this.docs = this.docs.filter((d) => !deepEquals(d._id, doc._id));
+  }
+
+  private restore(previous: Schema) {
+    const index = this.docs.findIndex((d) => deepEquals(d._id, previous._id));
+    if (index !== -1) {
+      this.docs[index] = previous;
+    }
+  }
+}
+
+function updateResult<Schema extends Document>(matched: number): UpdateResult<Schema> {
+  return { acknowledged: true, matchedCount: matched, modifiedCount: matched, upsertedCount: 0, upsertedId: null };
+}
+
+/**
+ * Deep copy of a document. ObjectIds are immutable so they are shared.
+ */
+function clone<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (value instanceof ObjectId) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(clone) as T;
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, clone(v)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Reads a (possibly dotted) path like `requirements.location` from a document.
+ */
+function getPath(doc: Document, path: string): unknown {
+  let value: unknown = doc;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Document)[key];
+  }
+  return value;
+}
+
+function setPath(doc: Document, path: string, value: unknown) {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let target = doc;
+  for (const key of keys) {
+    if (target[key] === null || typeof target[key] !== "object") {
+      target[key] = {};
+    }
+    target = target[key];
+  }
+  if (value === undefined) {
+    delete target[last];
+  } else {
+    target[last] = value;
+  }
+}
+
+function applyUpdate(doc: Document, update: Document) {
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Document)) {
+      switch (operator) {
+        case "$set":
+          setPath(doc, path, clone(value));
+          break;
+        case "$unset":
+          setPath(doc, path, undefined);
+          break;
+        case "$inc":
+          setPath(doc, path, ((getPath(doc, path) as number) ?? 0) + (value as number));
+          break;
+        default:
+          throw new Error(`Update operator '${operator}' is not supported by the in-memory storage!`);
+      }
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Document {
+  return value !== null && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof ObjectId);
+}
+
+/**
+ * Checks whether `doc` matches the MongoDB-style `filter`.
+ */
+export function matches(doc: Document, filter: Document): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case "$or":
+        return (condition as Document[]).some((f) => matches(doc, f));
+      case "$and":
+        return (condition as Document[]).every((f) => matches(doc, f));
+      case "$nor":
+        return !(condition as Document[]).some((f) => matches(doc, f));
+      default:
+        return matchesCondition(getPath(doc, key), condition);
+    }
+  });
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  const isOperator = isPlainObject(condition) && Object.keys(condition).length > 0 && Object.keys(condition).every((key) => key.startsWith("$"));
+  if (!isOperator) {
+    return equals(value, condition);
+  }
+  return Object.entries(condition).every(([operator, arg]) => {
+    switch (operator) {
+      case "$eq":
+        return equals(value, arg);
+      case "$ne":
+        return !equals(value, arg);
+      case "$in":
+        return (arg as unknown[]).some((a) => equals(value, a));
+      case "$nin":
+        return !(arg as unknown[]).some((a) => equals(value, a));
+      case "$gt":
+        return compareMatch(value, arg, (c) => c > 0);
+      case "$gte":
+        return compareMatch(value, arg, (c) => c >= 0);
+      case "$lt":
+        return compareMatch(value, arg, (c) => c < 0);
+      case "$lte":
+        return compareMatch(value, arg, (c) => c <= 0);
+      case "$exists":
+        return (value !== undefined) === Boolean(arg);
+      default:
+        throw new Error(`Query operator '${operator}' is not supported by the in-memory storage!`);
+    }
+  });
+}
+
+function compareMatch(value: unknown, arg: unknown, test: (comparison: number) => boolean): boolean {
+  if (Array.isArray(value)) {
+    return value.some((v) => compareMatch(v, arg, test));
+  }
+  const comparison = compare(value, arg);
+  return comparison !== undefined && test(comparison);
+}
+
+/**
+ * Equality as MongoDB sees it: arrays match if any element matches,
+ * ObjectIds and Dates are compared by value and a missing field equals `null`.
+ */
+function equals(value: unknown, target: unknown): boolean {
+  if (Array.isArray(value) && !Array.isArray(target)) {
+    return value.some((v) => equals(v, target));
+  }
+  return deepEquals(value, target);
+}
+
+function deepEquals(a: unknown, b: unknown): boolean {
+  if (a === undefined || a === null) {
+    return b === undefined || b === null;
+  }
+  if (a instanceof ObjectId || b instanceof ObjectId) {
+    return a instanceof ObjectId && b instanceof ObjectId && a.equals(b);
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => deepEquals(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => deepEquals(a[key], b[key]));
+  }
+  return a === b;
+}
+
+/**
+ * Compares two values of the same kind. Returns `undefined` if they can't be compared.
+ */
+function compare(a: unknown, b: unknown): number | undefined {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (a instanceof ObjectId && b instanceof ObjectId) {
+    return a.toHexString().localeCompare(b.toHexString());
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return undefined;
+}
+
+function sortDocs<Schema extends Document>(docs: Schema[], sort: NonNullable<FindOptions["sort"]>) {
+  const direction = (d: unknown) => (d === -1 || d === "desc" || d === "descending" ? -1 : 1);
+  let spec: [string, number][];
+  if (typeof sort === "string") {
+    spec = [[sort, 1]];
+  } else if (Array.isArray(sort)) {
+    spec = (sort as unknown[]).map((s) => (Array.isArray(s) ? [s[0], direction(s[1])] : [s as string, 1]));
+  } else if (sort instanceof Map) {
+    spec = [...sort.entries()].map(([key, d]) => [key, direction(d)]);
+  } else {
+    spec = Object.entries(sort).map(([key, d]) => [key, direction(d)]);
+  }
+  return [...docs].sort((a, b) => {
+    for (const [key, d] of spec) {
+      const [x, y] = [getPath(a, key), getPath(b, key)];
+      // Missing values sort before everything else, like in MongoDB.
+      const comparison = x === undefined || x === null ? (y === undefined || y === null ? 0 : -1) : y === undefined || y === null ? 1 : (compare(x, y) ?? 0);
+      if (comparison !== 0) {
+        return d * comparison;
+      }
+    }
+    return 0;
+  });
+}
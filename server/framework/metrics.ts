@@ -0,0 +1,133 @@
+import { aroundMethods } from "./utils";
+
+/**
+ * Values of the labels of a metric, e.g. `{ method: "GET", route: "/api/users" }`.
+ */
+export type Labels = Record<string, string | number>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  /** The metric's lines in the Prometheus text format, without its `# HELP` and `# TYPE` lines. */
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+function escapeLabel(value: string | number) {
+  return String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series of a metric are kept by their labels, in the order they were first seen.
+function seriesKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * A value that only goes up, e.g. the number of errors, counted separately for each combination of labels.
+ */
+export class Counter implements Metric {
+  public readonly type = "counter";
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+  ) {
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += amount;
+    this.series.set(key, series);
+  }
+
+  render() {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+/**
+ * Counts observed values (e.g. durations, in seconds) in buckets, so percentiles can be estimated from it.
+ * Each bucket counts the values up to its upper bound, and the last one (`+Inf`) all of them.
+ */
+export class Histogram implements Metric {
+  public readonly type = "histogram";
+  private readonly series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    /** Upper bounds of the buckets, in increasing order. */
+    private readonly bounds: number[],
+  ) {
+    metrics.push(this);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Runs `action` and observes how long it took, in seconds, whether it succeeded or not.
+   */
+  async time<T>(labels: Labels, action: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    try {
+      return await action();
+    } finally {
+      this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+  }
+
+  render() {
+    return [...this.series.values()].flatMap(({ labels, buckets, sum, count }) => [
+      ...this.bounds.map((bound, i) => `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${buckets[i]}`),
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ]);
+  }
+}
+
+/** Buckets for the durations of requests, in seconds. */
+export const REQUEST_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+/** Buckets for the durations of database operations, in seconds. */
+export const DB_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+export const requestDuration = new Histogram("http_request_duration_seconds", "How long requests took to handle, by route and status code.", REQUEST_BUCKETS);
+export const requestErrors = new Counter("http_request_errors_total", "Requests that failed, by route, status code and error class.");
+export const dbOperationDuration = new Histogram("db_operation_duration_seconds", "How long database operations took, by collection and operation.", DB_BUCKETS);
+
+/**
+ * Wraps the async methods of `driver` (e.g. a collection of a storage backend) so {@link dbOperationDuration} times them.
+ * @param collection name of the collection, used as the `collection` label
+ */
+export function timeOperations<T extends object>(collection: string, driver: T): T {
+  return aroundMethods(driver, (operation, call) => dbOperationDuration.time({ collection, operation }, call));
+}
+
+/**
+ * Renders every metric in the Prometheus text exposition format, for `GET /api/metrics`.
+ */
+export function renderMetrics() {
+  const lines = metrics.flatMap((metric) => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()]);
+  return lines.join("\n") + "\n";
+}
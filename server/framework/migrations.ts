@@ -0,0 +1,84 @@
+import db from "../db";
+import DocCollection, { BaseDoc, transaction } from "./doc";
+import { StorageDriver } from "./storage";
+
+/**
+ * A change to the shape of stored documents, e.g. adding a field to every document of a collection.
+ * Migrations work on the raw collections of `storage` so they can read and write fields the concepts no longer know about.
+ */
+export interface Migration {
+  /** Unique and sortable, e.g. `003-backfill-versions`. Migrations are applied in order of their names. */
+  name: string;
+  /** Upgrades the documents to the new shape. */
+  up(storage: StorageDriver): Promise<void>;
+  /** Reverts {@link up}, bringing the documents back to the old shape. */
+  down(storage: StorageDriver): Promise<void>;
+}
+
+export interface MigrationDoc extends BaseDoc {
+  name: string;
+}
+
+const applied = new DocCollection<MigrationDoc>("migrations", {
+  audit: false,
+  // So that two instances starting at once can't both apply a migration: the second one fails to record it and is rolled back.
+  indexes: [{ keys: { name: 1 }, unique: true, onDuplicate: (migration) => new Error(`Migration '${migration.name}' was applied by another instance meanwhile!`) }],
+});
+
+function sorted(migrations: Migration[]) {
+  return [...migrations].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Lists the migrations and whether each of them has been applied.
+ */
+export async function getMigrationStatus(migrations: Migration[]) {
+  const names = new Set((await applied.readMany({})).map((migration) => migration.name));
+  return sorted(migrations).map((migration) => ({ name: migration.name, applied: names.has(migration.name) }));
+}
+
+/**
+ * Applies every migration that hasn't been applied yet, in order.
+ * Each migration runs in its own transaction along with recording it, so a failed migration leaves nothing half done.
+ * @returns names of the migrations that were applied
+ */
+export async function migrateUp(migrations: Migration[]) {
+  // The indexes of other collections are only synced after migrations, which may have to prepare documents for them.
+  await applied.syncIndexes();
+  const done: string[] = [];
+  for (const { name, applied: isApplied } of await getMigrationStatus(migrations)) {
+    if (isApplied) {
+      continue;
+    }
+    const migration = migrations.find((migration) => migration.name === name)!;
+    await transaction(async () => {
+      await migration.up(db);
+      await applied.createOne({ name });
+    });
+    done.push(name);
+  }
+  return done;
+}
+
+/**
+ * Reverts the last `steps` applied migrations, most recent first.
+ * @returns names of the migrations that were reverted
+ * @throws Error if an applied migration is missing from `migrations`, since it couldn't be reverted
+ */
+export async function migrateDown(migrations: Migration[], steps = 1) {
+  const done: string[] = [];
+  const toRevert = (await getMigrationStatus(migrations)).filter((migration) => migration.applied).reverse();
+  const unknown = (await applied.readMany({})).find((record) => !migrations.some((migration) => migration.name === record.name));
+  if (unknown) {
+    throw new Error(`Migration '${unknown.name}' was applied but doesn't exist anymore!`);
+  }
+  for (const { name } of toRevert.slice(0, steps)) {
+    const migration = migrations.find((migration) => migration.name === name)!;
+    await transaction(async () => {
+      await migration.down(db);
+      await applied.deleteOne({ name });
+    });
+    done.push(name);
+  }
+  return done;
+}
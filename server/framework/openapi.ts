@@ -0,0 +1,261 @@
+import { PreconditionFailedError } from "../concepts/errors";
+import { codeOf } from "./errors";
+import { InvalidParamsError, ParamSpec, getParamSpec } from "./params";
+import { ErrorClass, RouteDefinition } from "./router";
+import { getParamNames } from "./utils";
+
+export interface ApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+interface Parameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  parameters: Parameter[];
+  requestBody?: { required: boolean; content: { "application/json": { schema: JsonSchema } } };
+  responses: Record<string, { description: string; content?: { "application/json": { schema: JsonSchema } } }>;
+  security?: Record<string, string[]>[];
+  deprecated?: boolean;
+  /** Date after which a deprecated route may be removed. */
+  "x-sunset"?: string;
+  /** What the route's guards require, e.g. `["login"]` or `["casting director"]`. */
+  "x-requires"?: string[];
+}
+
+export interface OpenApiSpec {
+  openapi: string;
+  info: ApiInfo;
+  servers: { url: string }[];
+  paths: Record<string, Record<string, Operation>>;
+  components: Record<string, Record<string, JsonSchema>>;
+}
+
+// Arguments filled in by the router itself rather than by the client.
+const FRAMEWORK_ARGS = ["session", "param", "query", "body", "ifMatch", "req", "res"];
+
+function paramToSchema(spec: ParamSpec | undefined): JsonSchema {
+  if (!spec) {
+    return {};
+  }
+  const schemas: Record<ParamSpec["type"], JsonSchema> = {
+    string: { type: "string" },
+    number: { type: "number" },
+    boolean: { type: "boolean" },
+    date: { type: "string", format: "date-time" },
+    id: { type: "string", pattern: "^[0-9a-fA-F]{24}$" },
+    list: { type: "array", items: { type: "string" }, description: "A list, or a comma-separated string" },
+    array: { type: "array", items: { type: "string" } },
+    object: { type: "object" },
+  };
+  const schema = { ...schemas[spec.type] };
+  if (spec.enum && (spec.type === "list" || spec.type === "array")) {
+    schema.items = { type: "string", enum: spec.enum };
+  } else if (spec.enum) {
+    schema.enum = spec.enum;
+  }
+  if (spec.default !== undefined) {
+    schema.default = spec.default;
+  }
+  return schema;
+}
+
+function isRequired(spec: ParamSpec | undefined) {
+  return spec !== undefined && !spec.optional && spec.default === undefined;
+}
+
+/**
+ * Error classes only take format arguments, so a throwaway instance is enough to read their status code.
+ */
+function httpCodeOf(error: ErrorClass) {
+  const instance = new (error as new (...args: unknown[]) => Error & { HTTP_CODE?: number })("");
+  return instance.HTTP_CODE ?? 500;
+}
+
+/**
+ * Turns a handler name like `getUserById` into a summary like "Get user by id".
+ */
+function humanize(name: string) {
+  const words = name.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function toOperation(route: RouteDefinition): Operation {
+  const pathParams = [...route.path.matchAll(/:(\w+)/g)].map((match) => match[1]);
+  const args = getParamNames(route.action).filter((name) => name && (name in route.params || !FRAMEWORK_ARGS.includes(name)));
+  const inQuery = route.method === "get" || route.method === "head";
+
+  const parameters: Parameter[] = [];
+  const bodyProperties: Record<string, JsonSchema> = {};
+  const bodyRequired: string[] = [];
+  for (const name of args) {
+    const spec = getParamSpec(route.params, name);
+    if (pathParams.includes(name)) {
+      parameters.push({ name, in: "path", required: true, schema: paramToSchema(spec) });
+    } else if (inQuery) {
+      parameters.push({ name, in: "query", required: isRequired(spec), schema: paramToSchema(spec) });
+    } else {
+      bodyProperties[name] = paramToSchema(spec);
+      if (isRequired(spec)) {
+        bodyRequired.push(name);
+      }
+    }
+  }
+
+  const operation: Operation = {
+    operationId: route.name,
+    summary: humanize(route.name),
+    tags: [route.path.split("/").find((segment) => segment && !segment.startsWith(":")) ?? "default"],
+    parameters,
+    responses: { "200": { description: "Success", content: { "application/json": { schema: {} } } } },
+  };
+  if (Object.keys(bodyProperties).length > 0) {
+    operation.requestBody = {
+      required: bodyRequired.length > 0,
+      content: { "application/json": { schema: { type: "object", properties: bodyProperties, required: bodyRequired } } },
+    };
+  }
+  if (getParamNames(route.action).includes("ifMatch")) {
+    parameters.push({ name: "If-Match", in: "header", required: false, description: "ETag of the version of the document the change is based on", schema: { type: "string" } });
+  }
+  if (getParamNames(route.action).includes("session") || route.guards.length > 0) {
+    operation.security = [{ session: [] }];
+  }
+  if (route.guards.length > 0) {
+    operation["x-requires"] = route.guards.map((guard) => guard.requires);
+  }
+  if (route.deprecation) {
+    operation.deprecated = true;
+    if (route.deprecation.sunset) {
+      operation["x-sunset"] = route.deprecation.sunset;
+    }
+  }
+
+  // Group the errors the route can raise by their status code.
+  const errors = [
+    ...route.guards.flatMap((guard) => guard.raises),
+    ...(Object.keys(route.params).length > 0 ? [InvalidParamsError] : []),
+    ...(getParamNames(route.action).includes("ifMatch") ? [PreconditionFailedError] : []),
+    ...route.raises,
+  ];
+  for (const error of new Set(errors)) {
+    const code = httpCodeOf(error).toString();
+    const response = operation.responses[code];
+    const description = `${error.name} (${codeOf(error)})`;
+    if (response) {
+      response.description += `, ${description}`;
+    } else {
+      operation.responses[code] = { description, content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } };
+    }
+  }
+  return operation;
+}
+
+/**
+ * Builds an OpenAPI 3 document describing `routes`, served under `server`.
+ */
+export function getOpenApiSpec(routes: RouteDefinition[], info: ApiInfo = { title: "API", version: "1.0.0" }, server = "/api"): OpenApiSpec {
+  const paths: OpenApiSpec["paths"] = {};
+  for (const route of routes) {
+    // Catch-all routes are not real endpoints.
+    if (route.path.includes("*")) {
+      continue;
+    }
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [route.method]: toOperation(route) };
+  }
+  return {
+    openapi: "3.0.3",
+    info,
+    servers: [{ url: server }],
+    paths,
+    components: {
+      schemas: {
+        Error: {
+          type: "object",
+          properties: {
+            code: { type: "string", description: "Stable code of the error, e.g. NOT_FOLDER_OWNER. All codes are listed at /api/errors" },
+            msg: { type: "string" },
+            params: { type: "object", description: "Values the error is about, e.g. the user and opportunity ids. For INVALID_PARAMS, `fields` holds the reason each parameter was rejected" },
+            requestId: { type: "string", description: "Id of the request, also sent in the X-Request-Id header" },
+          },
+          required: ["code", "msg", "params", "requestId"],
+        },
+      },
+      securitySchemes: {
+        session: { type: "apiKey", in: "cookie", name: "connect.sid" },
+      },
+    },
+  };
+}
+
+function escape(text: unknown) {
+  return String(text).replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
+
+function describeSchema(schema: JsonSchema) {
+  const type = schema.type === "array" ? `${(schema.items as JsonSchema).type}[]` : (schema.format ?? schema.type ?? "any");
+  const values = (schema.enum ?? (schema.items as JsonSchema | undefined)?.enum) as unknown[] | undefined;
+  return values ? `${type} (${values.join(" | ")})` : String(type);
+}
+
+/**
+ * Renders `spec` as a self-contained, browsable HTML page.
+ */
+export function renderDocsPage(spec: OpenApiSpec) {
+  const sections = new Map<string, string[]>();
+  for (const [path, operations] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(operations)) {
+      const fields = [
+        ...operation.parameters.map((p) => [p.name, p.in, p.required, p.schema] as const),
+        ...Object.entries((operation.requestBody?.content["application/json"].schema.properties ?? {}) as Record<string, JsonSchema>).map(
+          ([name, schema]) => [name, "body", (operation.requestBody!.content["application/json"].schema.required as string[]).includes(name), schema] as const,
+        ),
+      ];
+      const rows = fields.map(([name, where, required, schema]) => `<tr><td>${escape(name)}${required ? " *" : ""}</td><td>${where}</td><td>${escape(describeSchema(schema))}</td></tr>`);
+      const responses = Object.entries(operation.responses).map(([code, response]) => `<li><b>${code}</b> ${escape(response.description)}</li>`);
+      const html = `<details>
+  <summary><span class="method ${method}">${method.toUpperCase()}</span> <code>${escape(spec.servers[0].url + path)}</code> ${escape(operation.summary)}${operation.security ? " 🔒" : ""}</summary>
+  ${operation["x-requires"] ? `<p>Requires: ${operation["x-requires"].map(escape).join(", ")}</p>` : ""}
+  ${operation.deprecated ? `<p>Deprecated${operation["x-sunset"] ? `, to be removed after ${escape(operation["x-sunset"])}` : ""}.</p>` : ""}
+  ${rows.length > 0 ? `<table><tr><th>Parameter</th><th>In</th><th>Type</th></tr>${rows.join("")}</table>` : "<p>No parameters.</p>"}
+  <ul>${responses.join("")}</ul>
+</details>`;
+      const tag = operation.tags[0];
+      sections.set(tag, [...(sections.get(tag) ?? []), html]);
+    }
+  }
+  const body = [...sections.entries()].map(([tag, operations]) => `<section><h2>${escape(tag)}</h2>${operations.join("\n")}</section>`).join("\n");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escape(spec.info.title)}</title>
+<style>
+  body { font-family: sans-serif; max-width: 960px; margin: auto; padding: 1em; }
+  details { border: 1px solid #ddd; border-radius: 4px; margin: 0.5em 0; padding: 0.5em; }
+  summary { cursor: pointer; }
+  .method { display: inline-block; width: 4.5em; font-weight: bold; }
+  .get { color: #2a7; } .post { color: #27a; } .patch, .put { color: #a72; } .delete { color: #a22; }
+  table { border-collapse: collapse; margin: 0.5em 0; } td, th { border: 1px solid #ddd; padding: 0.2em 0.6em; text-align: left; }
+</style>
+</head>
+<body>
+<h1>${escape(spec.info.title)} <small>${escape(spec.info.version)}</small></h1>
+<p>Parameters marked with * are required, 🔒 routes use the session cookie. The raw spec is at <a href="docs/openapi.json">openapi.json</a>.</p>
+${body}
+</body>
+</html>`;
+}
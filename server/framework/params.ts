@@ -0,0 +1,173 @@
+import { ObjectId } from "mongodb";
+
+import { BadValuesError } from "../concepts/errors";
+import { ErrorCode } from "./errors";
+
+/**
+ * Types a route parameter can be coerced to:
+ * - `id`: an {@link ObjectId} given as a 24 character hex string
+ * - `date`: anything `new Date(...)` understands
+ * - `list`: an array of strings, or a comma-separated string
+ * - `array`: an array of strings only, so its items can contain commas (e.g. URLs)
+ * - `object`: a (JSON) object, e.g. a partial document for updates
+ */
+export type ParamType = "string" | "number" | "boolean" | "date" | "id" | "list" | "array" | "object";
+
+export interface ParamSpec {
+  type: ParamType;
+  /** Whether the parameter can be left out. Parameters with a `default` are always optional. */
+  optional?: boolean;
+  /** Allowed values. For lists, every element must be one of these. */
+  enum?: readonly unknown[];
+  /** Value used when the parameter is left out. */
+  default?: unknown;
+}
+
+/**
+ * Maps names of a route's arguments to their spec.
+ * A bare type like `{ id: "id" }` is a shorthand for a required parameter of that type.
+ */
+export type ParamSchema = Record<string, ParamType | ParamSpec>;
+
+/**
+ * Thrown when one or more route parameters are missing or have invalid values.
+ * `fields` maps every invalid parameter to the reason it was rejected.
+ */
+@ErrorCode("INVALID_PARAMS")
+export class InvalidParamsError extends BadValuesError {
+  constructor(public readonly fields: Record<string, string>) {
+    super(
+      "Invalid values for: {0}",
+      Object.entries(fields)
+        .map(([name, reason]) => `${name} (${reason})`)
+        .join(", "),
+    );
+  }
+}
+
+type Coerced = { value: unknown } | { error: string };
+
+function coerce(type: ParamType, raw: unknown): Coerced {
+  switch (type) {
+    case "string":
+      if (typeof raw === "string" || typeof raw === "number" || typeof raw === "boolean") {
+        return { value: String(raw) };
+      }
+      return { error: "must be a string" };
+    case "number": {
+      const value = typeof raw === "string" ? Number(raw) : raw;
+      if (typeof value === "number" && !isNaN(value)) {
+        return { value };
+      }
+      return { error: "must be a number" };
+    }
+    case "boolean":
+      if (raw === true || raw === "true") {
+        return { value: true };
+      }
+      if (raw === false || raw === "false") {
+        return { value: false };
+      }
+      return { error: "must be true or false" };
+    case "date": {
+      const value = typeof raw === "string" || typeof raw === "number" || raw instanceof Date ? new Date(raw) : undefined;
+      if (value && !isNaN(value.getTime())) {
+        return { value };
+      }
+      return { error: "must be a date" };
+    }
+    case "id":
+      if (raw instanceof ObjectId) {
+        return { value: raw };
+      }
+      if (typeof raw === "string" && /^[0-9a-fA-F]{24}$/.test(raw)) {
+        return { value: new ObjectId(raw) };
+      }
+      return { error: "must be a valid id" };
+    case "list":
+      if (Array.isArray(raw) && raw.every((item) => typeof item === "string")) {
+        return { value: raw };
+      }
+      if (typeof raw === "string") {
+        return {
+          value: raw
+            .split(",")
+            .map((item) => item.trim())
+            .filter((item) => item),
+        };
+      }
+      return { error: "must be a list of strings" };
+    case "array":
+      if (Array.isArray(raw) && raw.every((item) => typeof item === "string")) {
+        return { value: raw };
+      }
+      return { error: "must be an array of strings" };
+    case "object":
+      if (raw !== null && typeof raw === "object" && !Array.isArray(raw)) {
+        return { value: raw };
+      }
+      return { error: "must be an object" };
+  }
+}
+
+/**
+ * Validates and coerces a single parameter against its spec.
+ */
+function parseParam(spec: ParamSpec, raw: unknown): Coerced {
+  if (raw === undefined || raw === null || raw === "") {
+    if (spec.default !== undefined) {
+      return { value: spec.default };
+    }
+    return spec.optional ? { value: undefined } : { error: "is required" };
+  }
+  const coerced = coerce(spec.type, raw);
+  if ("error" in coerced || !spec.enum) {
+    return coerced;
+  }
+  const values = Array.isArray(coerced.value) ? coerced.value : [coerced.value];
+  if (!values.every((value) => spec.enum!.includes(value))) {
+    return { error: `must be one of: ${spec.enum.join(", ")}` };
+  }
+  return coerced;
+}
+
+/**
+ * Normalizes the shorthand form of a parameter spec.
+ */
+export function getParamSpec(schema: ParamSchema, name: string): ParamSpec | undefined {
+  const spec = schema[name];
+  return typeof spec === "string" ? { type: spec } : spec;
+}
+
+/**
+ * Coerces the raw values of the parameters listed in `schema`. Parameters not in the schema are passed through as is.
+ * @throws InvalidParamsError listing every parameter that is missing or invalid
+ */
+export function parseParams(schema: ParamSchema, names: string[], raw: unknown[]) {
+  const invalid: Record<string, string> = {};
+  const values = names.map((name, i) => {
+    const spec = getParamSpec(schema, name);
+    if (!spec) {
+      return raw[i];
+    }
+    const parsed = parseParam(spec, raw[i]);
+    if ("error" in parsed) {
+      invalid[name] = parsed.error;
+      return undefined;
+    }
+    return parsed.value;
+  });
+  if (Object.keys(invalid).length > 0) {
+    throw new InvalidParamsError(invalid);
+  }
+  return values;
+}
+
+/**
+ * Parameters of routes that return a page of results, see {@link DocCollection.readPage}.
+ * Spread them into the route's schema: `@Router.get("/posts", { ...PAGE_PARAMS })`.
+ */
+export const PAGE_PARAMS = {
+  limit: { type: "number", optional: true },
+  after: { type: "string", optional: true },
+} satisfies ParamSchema;
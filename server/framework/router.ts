@@ -1,55 +1,128 @@
+import { randomUUID } from "crypto";
 import express, { Request, Response } from "express";
+import { SessionData } from "express-session";
 import "reflect-metadata";
 
+import { BadValuesError, PreconditionFailedError } from "../concepts/errors";
+import { isBatched, makeBatchAction } from "./batch";
+import { getRequestContext, runInContext } from "./context";
+import { FormattableError, codeOf, getErrorCodes } from "./errors";
+import { FormattableMessage, negotiateLocale, translate } from "./i18n";
+import { logger } from "./logger";
+import { requestDuration, requestErrors } from "./metrics";
+import { ApiInfo, getOpenApiSpec, renderDocsPage } from "./openapi";
+import { ParamSchema, parseParams } from "./params";
 import { getParamNames } from "./utils";
 
 export type HttpMethod = "all" | "get" | "post" | "put" | "delete" | "patch" | "options" | "head";
 
+export type ErrorClass = new (...args: never[]) => Error;
+
 /**
- * A formattable error. Use `{0}`, `{1}`, etc. in the error message to format it with the arguments passed to the constructor.
- * The `formatWith` method can be used to create a new error with the same format but different arguments.
- *
- * Example:
- * ```
- * let error = new FormattableError("{0} is not the author of post {1}!", author, _id);
- * let errorWithUsername = e.formatWith(username, _id);
- * ```
+ * A requirement checked before a route handler runs, e.g. that the user is logged in. See {@link Router.guard}.
+ */
+export interface Guard {
+  /** What the guard requires, shown in the API docs, e.g. "login" or "admin". */
+  requires: string;
+  /** Throws if the request doesn't meet the requirement. */
+  check: (session: SessionData) => void | Promise<void>;
+  /** Errors `check` can throw. */
+  raises: ErrorClass[];
+}
+
+/**
+ * When a route was deprecated and when it will be removed, see {@link Router.deprecated}.
+ */
+export interface Deprecation {
+  /** Date the route was deprecated, e.g. "2026-10-19". */
+  since: string;
+  /** Date after which the route may be removed. */
+  sunset?: string;
+  /** URL of the route replacing this one, e.g. "/api/v2/users". */
+  successor?: string;
+}
+
+/**
+ * Everything the decorators in a Routes class say about one of its endpoints.
  */
-export class FormattableError extends Error {
-  public HTTP_CODE: number = 500;
+export interface RouteDefinition {
+  name: string;
+  method: HttpMethod;
+  path: string;
+  params: ParamSchema;
+  raises: ErrorClass[];
+  guards: Guard[];
+  deprecation?: Deprecation;
+  action: Function;
+}
+
+/**
+ * A version of the API, served under `/<name>` next to the other versions, e.g. `/api/v2`.
+ */
+export interface ApiVersion {
+  name: string;
+  routes: Object;
+}
 
-  constructor(
-    public readonly format: string,
-    ...args: unknown[]
-  ) {
-    super(
-      format.replace(/{(\d+)}/g, (match, number) => {
-        return typeof args[number] !== "undefined" ? (args[number] as string) : match;
-      }),
-    );
+/**
+ * Reads the version a client expects a document to be at from an `If-Match` header
+ * holding an ETag that {@link Router} sent with the document, i.e. `"<version>"`.
+ * @throws PreconditionFailedError if the header holds another ETag (e.g. the one express makes for responses without a version),
+ * since no version of the document can match it
+ */
+function parseIfMatch(header: string | undefined) {
+  if (header === undefined || header.trim() === "*") {
+    return undefined;
+  }
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  if (!match) {
+    throw new PreconditionFailedError('If-Match {0} is not the ETag of a version of the document, expected one like "3"!', header);
   }
+  return Number(match[1]);
+}
 
-  formatWith(...args: unknown[]) {
-    const e = new FormattableError(this.format, ...args);
-    e.HTTP_CODE = this.HTTP_CODE;
-    return e;
+/**
+ * Headers telling clients a route is going away: `Deprecation` (RFC 9745), `Sunset` (RFC 8594)
+ * and a `Link` to the route replacing it.
+ */
+function deprecationHeaders(deprecation: Deprecation) {
+  const headers: Record<string, string> = { Deprecation: `@${Math.floor(new Date(deprecation.since).getTime() / 1000)}` };
+  if (deprecation.sunset) {
+    headers.Sunset = new Date(deprecation.sunset).toUTCString();
+  }
+  if (deprecation.successor) {
+    headers.Link = `<${deprecation.successor}>; rel="successor-version"`;
   }
+  return headers;
 }
 
 /**
  * This class an abstraction over the express router, used to decorate methods in your concept classes.
  * It will automatically convert actions into express handlers.
  *
- * For error handling, `message` and `HTTP_CODE` properties of errors are used to send responses.
+ * Route arguments are looked up by name in the request's path params, query and body (in that order),
+ * and coerced according to the route's {@link ParamSchema} if it has one.
+ * An argument named `ifMatch` gets the document version from the `If-Match` header, see {@link parseIfMatch},
+ * and one named `req` gets the express request itself, for routes running other routes like `/batch`.
+ * One named `res` gets the express response, for routes writing it themselves (e.g. a stream), which can't run in a batch.
+ * Guards declared with {@link Router.guard} run before the arguments are parsed.
+ * Responses of routes marked with {@link Router.deprecated} carry the headers of {@link deprecationHeaders}.
+ *
+ * Errors are sent as `{ code, msg, params, requestId }`, using the `code`, `message`, `params` and `HTTP_CODE` of the error,
+ * and logged with their class and stack: at the `error` level if they're sent as a 500, else at the `info` level.
+ * The code and params come from the error the handler threw, while the message comes from it after {@link Router.registerError} handlers ran.
+ *
+ * Error messages and the `msg` of results are translated to the locale picked by {@link negotiateLocale}
+ * from the user's preference (`session.locale`) and the `Accept-Language` header.
  */
 export class Router {
   public readonly expressRouter = express.Router();
-  private static readonly errorHandlers: Map<new (...args: never[]) => Error, (e: Error) => Error | Promise<Error>> = new Map();
+  private static readonly errorHandlers: Map<ErrorClass, (e: Error) => Error | Promise<Error>> = new Map();
 
   constructor() {}
 
   public static registerError<EType>(etype: new (...args: never[]) => EType, handler: (e: EType) => Error | Promise<Error>) {
-    this.errorHandlers.set(etype as new (...args: never[]) => Error, handler as (e: Error) => Error | Promise<Error>);
+    this.errorHandlers.set(etype as ErrorClass, handler as (e: Error) => Error | Promise<Error>);
   }
 
   private static async handleError(err: Error) {
@@ -61,130 +134,326 @@ export class Router {
       }
       return err;
     } catch (e: unknown) {
+      logger.error("Could not handle an error", { error: e, handled: err });
       return new Error(`While handling below error:\n${err}\n\nAnother error occurred:\n${e}`);
     }
   }
 
-  public registerRoute(method: HttpMethod, path: string, action: Function) {
-    this.expressRouter[method](path, this.makeRoute(action));
+  /**
+   * Turns an error thrown while handling a request into the status and body to respond with, with the message in `locale`, and logs it.
+   */
+  public static async errorResponse(e: unknown, locale: string, requestId: string) {
+    const original = e as Error;
+    const error = (await Router.handleError(original)) as Error & { HTTP_CODE?: number };
+    const status = error.HTTP_CODE ?? 500;
+    logger[status >= 500 ? "error" : "info"]("Request failed", { status, error: original });
+    return {
+      status,
+      body: {
+        code: original instanceof FormattableError ? original.code : codeOf(FormattableError),
+        msg: error instanceof FormattableError ? translate(locale, error.format, error.args) : (error.message ?? "Internal Server Error"),
+        params: original instanceof FormattableError ? original.params : {},
+        requestId,
+      },
+    };
+  }
+
+  public registerRoute(method: HttpMethod, path: string, action: Function, params: ParamSchema = {}, guards: Guard[] = [], deprecation?: Deprecation) {
+    this.expressRouter[method](path, this.makeRoute(action, params, guards, deprecation));
   }
 
-  public all(path: string, action: Function) {
-    this.registerRoute("all", path, action);
+  public all(path: string, action: Function, params?: ParamSchema) {
+    this.registerRoute("all", path, action, params);
   }
-  public get(path: string, action: Function) {
-    this.registerRoute("get", path, action);
+  public get(path: string, action: Function, params?: ParamSchema) {
+    this.registerRoute("get", path, action, params);
   }
-  public post(path: string, action: Function) {
-    this.registerRoute("post", path, action);
+  public post(path: string, action: Function, params?: ParamSchema) {
+    this.registerRoute("post", path, action, params);
   }
-  public put(path: string, action: Function) {
-    this.registerRoute("put", path, action);
+  public put(path: string, action: Function, params?: ParamSchema) {
+    this.registerRoute("put", path, action, params);
   }
-  public delete(path: string, action: Function) {
-    this.registerRoute("delete", path, action);
+  public delete(path: string, action: Function, params?: ParamSchema) {
+    this.registerRoute("delete", path, action, params);
   }
-  public patch(path: string, action: Function) {
-    this.registerRoute("patch", path, action);
+  public patch(path: string, action: Function, params?: ParamSchema) {
+    this.registerRoute("patch", path, action, params);
   }
-  public options(path: string, action: Function) {
-    this.registerRoute("options", path, action);
+  public options(path: string, action: Function, params?: ParamSchema) {
+    this.registerRoute("options", path, action, params);
   }
-  public head(path: string, action: Function) {
-    this.registerRoute("head", path, action);
+  public head(path: string, action: Function, params?: ParamSchema) {
+    this.registerRoute("head", path, action, params);
   }
 
-  private makeRoute(f: Function) {
+  private makeRoute(f: Function, params: ParamSchema, guards: Guard[], deprecation?: Deprecation) {
     return async (req: Request, res: Response) => {
+      const start = process.hrtime.bigint();
+      const route = `${req.baseUrl}${req.route.path}`;
+      // Measured once the response is written, or the route started writing it itself (e.g. a stream of events).
+      const observe = () => requestDuration.observe({ method: req.method, route, status: res.statusCode }, Number(process.hrtime.bigint() - start) / 1e9);
+      // Given by `logRequests`, or by the request running this one (e.g. `/batch`).
+      const requestId = getRequestContext()?.requestId ?? randomUUID();
+      res.set("X-Request-Id", requestId);
+      if (deprecation) {
+        res.set(deprecationHeaders(deprecation));
+      }
+      // Picked once the handler ran, since logging in or changing the preference happens in handlers.
+      const negotiate = () => {
+        const locale = negotiateLocale(req.session?.locale, req.get("Accept-Language"));
+        res.set("Content-Language", locale);
+        return locale;
+      };
       const reqMap = (name: string) => {
-        if (name === "session" || name == "param" || name == "query" || name == "body") {
+        if (name === "session") {
           return req[name];
         }
+        // Unless the route has a param by that name, e.g. the `query` of GraphQL requests.
+        if ((name == "param" || name == "query" || name == "body") && !(name in params)) {
+          return req[name];
+        }
+        if (name === "ifMatch") {
+          return parseIfMatch(req.get("If-Match"));
+        }
+        if (name === "req") {
+          return req;
+        }
+        if (name === "res") {
+          return res;
+        }
         const ret = req.params[name] || req.query[name] || req.body[name];
         if (ret === undefined || ret === null) {
-          // TODO: Can we know if this param was required?
           return undefined;
         }
         return ret;
       };
 
       const argNames = getParamNames(f);
-      const args = argNames.map(reqMap);
 
       let result;
+      const context = { requestId, route: `${req.method} ${route}`, user: req.session?.user };
       try {
-        result = f.call(null, ...args);
-        if (result instanceof Promise) {
-          result = await result;
+        if (argNames.includes("res") && isBatched(req)) {
+          throw new BadValuesError("{0} {1} responds itself, so it can't be in a batch!", req.method, req.originalUrl);
+        }
+        for (const guard of guards) {
+          await guard.check(req.session);
         }
+        const args = parseParams(params, argNames, argNames.map(reqMap));
+        result = await runInContext(context, async () => await f.call(null, ...args));
       } catch (e: unknown) {
-        const error = (await Router.handleError(e as Error)) as Error & { HTTP_CODE?: number };
-        res.status(error.HTTP_CODE ?? 500).json({ msg: error.message ?? "Internal Server Error" });
+        // Logged as the route, and as whoever is logged in once it ran.
+        const { status, body } = await runInContext({ ...context, user: req.session?.user }, async () => await Router.errorResponse(e, negotiate(), requestId));
+        requestErrors.inc({ method: req.method, route, status, error: e instanceof Error ? e.constructor.name : typeof e });
+        res.status(status).json(body);
+        observe();
         return;
       }
+      // The route responded itself, e.g. with a stream of events.
+      if (res.headersSent) {
+        observe();
+        return;
+      }
+      // Lets clients send the version back in `If-Match` to make sure nobody changed the document in between.
+      if (req.method === "GET" && typeof result?.version === "number") {
+        res.set("ETag", `"${result.version}"`);
+      }
+      const locale = negotiate();
+      if (typeof result?.msg === "string") {
+        result = { ...result, msg: translate(locale, result.msg) };
+      } else if (result?.msg instanceof FormattableMessage) {
+        result = { ...result, msg: translate(locale, result.msg.format, result.msg.args) };
+      }
       res.json(result);
+      observe();
     };
   }
 
-  static all(route: string) {
-    return this.httpDecorator("get", route);
+  static all(route: string, params?: ParamSchema) {
+    return this.httpDecorator("get", route, params);
   }
-  static get(route: string) {
-    return this.httpDecorator("get", route);
+  static get(route: string, params?: ParamSchema) {
+    return this.httpDecorator("get", route, params);
   }
-  static post(route: string) {
-    return this.httpDecorator("post", route);
+  static post(route: string, params?: ParamSchema) {
+    return this.httpDecorator("post", route, params);
   }
-  static put(route: string) {
-    return this.httpDecorator("put", route);
+  static put(route: string, params?: ParamSchema) {
+    return this.httpDecorator("put", route, params);
   }
-  static delete(route: string) {
-    return this.httpDecorator("delete", route);
+  static delete(route: string, params?: ParamSchema) {
+    return this.httpDecorator("delete", route, params);
   }
-  static patch(route: string) {
-    return this.httpDecorator("patch", route);
+  static patch(route: string, params?: ParamSchema) {
+    return this.httpDecorator("patch", route, params);
   }
-  static options(route: string) {
-    return this.httpDecorator("options", route);
+  static options(route: string, params?: ParamSchema) {
+    return this.httpDecorator("options", route, params);
   }
-  static head(route: string) {
-    return this.httpDecorator("head", route);
+  static head(route: string, params?: ParamSchema) {
+    return this.httpDecorator("head", route, params);
   }
 
-  private static httpDecorator(method: HttpMethod, route: string) {
-    return function (originalMethod: Function, context: ClassMethodDecoratorContext<Object>) {
-      context.addInitializer(function () {
-        // For each method decorated with this decorator, save the method and path metadata.
-        // This metadata can be accessed later to build the express router.
-        Reflect.defineMetadata("method", method, this, context.name);
-        Reflect.defineMetadata("path", route, this, context.name);
-      });
+  /**
+   * Decorator for route handlers. `params` optionally declares the type of each argument of the handler;
+   * see {@link ParamSchema}.
+   */
+  private static httpDecorator(method: HttpMethod, route: string, params: ParamSchema = {}) {
+    return function (originalMethod: Function) {
+      // For each method decorated with this decorator, save the method and path metadata on the method itself,
+      // so a subclass overriding it (e.g. in a newer API version) doesn't mix its metadata with the original's.
+      // This metadata can be accessed later to build the express router.
+      Reflect.defineMetadata("method", method, originalMethod);
+      Reflect.defineMetadata("path", route, originalMethod);
+      Reflect.defineMetadata("params", params, originalMethod);
+    };
+  }
+
+  /**
+   * Makes a decorator that runs `guard` before the route handler. Guards of a route all have to pass, in the order they are listed.
+   *
+   * Example:
+   * ```
+   * const RequireLogin = Router.guard({ requires: "login", check: (session) => WebSession.isLoggedIn(session), raises: [UnauthenticatedError] });
+   *
+   * @Router.delete("/posts/:id")
+   * @RequireLogin
+   * async deletePost(session: WebSessionDoc, id: string) { ... }
+   * ```
+   */
+  static guard(guard: Guard) {
+    return function (originalMethod: Function) {
+      // Decorators are applied bottom up, so prepend to keep the order they are listed in.
+      const guards = (Reflect.getMetadata("guards", originalMethod) as Guard[] | undefined) ?? [];
+      Reflect.defineMetadata("guards", [guard, ...guards], originalMethod);
+    };
+  }
+
+  /**
+   * Decorator listing the errors a route handler can raise, so they show up in the API docs.
+   */
+  static raises(...errors: ErrorClass[]) {
+    return function (originalMethod: Function) {
+      Reflect.defineMetadata("raises", errors, originalMethod);
+    };
+  }
+
+  /**
+   * Decorator for routes scheduled for removal, typically because a newer API version replaced them.
+   * Their responses carry `Deprecation`, `Sunset` and `Link` headers, and the API docs mark them as deprecated.
+   *
+   * Example:
+   * ```
+   * @Router.post("/users", { userType: "list", ... })
+   * @Router.deprecated({ since: "2026-10-19", sunset: "2027-04-19", successor: "/api/v2/users" })
+   * async createUser(...) { ... }
+   * ```
+   */
+  static deprecated(deprecation: Deprecation) {
+    return function (originalMethod: Function) {
+      Reflect.defineMetadata("deprecation", deprecation, originalMethod);
     };
   }
 }
 
-export function getExpressRouter(routes: Object) {
-  const router = new Router();
+/**
+ * Collects the routes declared with decorators in `routes`, including the ones it inherits.
+ * A method overriding an inherited route replaces it, and removes it if the override isn't decorated as a route.
+ */
+export function getRoutes(routes: Object): RouteDefinition[] {
+  const definitions: RouteDefinition[] = [];
 
-  // Get all methods in the Routes class (e.g., getUsers, createUser, etc).
-  const endpoints = Object.getOwnPropertyNames(Object.getPrototypeOf(routes));
+  // Get all methods in the Routes class and the classes it extends (e.g., getUsers, createUser, etc),
+  // starting from the base class so inherited routes keep their order.
+  const prototypes = [];
+  for (let prototype = Object.getPrototypeOf(routes); prototype && prototype !== Object.prototype; prototype = Object.getPrototypeOf(prototype)) {
+    prototypes.unshift(prototype);
+  }
+  const endpoints = new Set(prototypes.flatMap((prototype) => Object.getOwnPropertyNames(prototype)));
 
-  // Register the methods as routes in `router`.
   for (const endpoint of endpoints) {
-    // Get the method and path metadata from the routes object.
+    // The ugly cast is because TypeScript doesn't know that `routes[endpoint]` is a correct method.
+    // This is the most derived version of the method, i.e. the one a subclass overrode it with.
+    const action = (routes as Record<string, Function>)[endpoint];
+
+    // Get the method and path metadata from the method.
     // These come from decorators in the Routes class.
-    const method = Reflect.getMetadata("method", routes, endpoint) as HttpMethod;
-    const path = Reflect.getMetadata("path", routes, endpoint) as string;
+    const method = Reflect.getMetadata("method", action) as HttpMethod;
+    const path = Reflect.getMetadata("path", action) as string;
+    const params = (Reflect.getMetadata("params", action) as ParamSchema) ?? {};
+    const raises = (Reflect.getMetadata("raises", action) as ErrorClass[]) ?? [];
+    const guards = (Reflect.getMetadata("guards", action) as Guard[]) ?? [];
+    const deprecation = Reflect.getMetadata("deprecation", action) as Deprecation | undefined;
 
     // Skip if the method or path is not defined (e.g., when endpoint is the constructor)
     if (!method || !path) {
       continue;
     }
 
-    // The ugly cast is because TypeScript doesn't know that `routes[endpoint]` is a correct method.
-    const action = (routes as Record<string, Function>)[endpoint];
+    definitions.push({ name: endpoint, method, path, params, raises, guards, deprecation, action });
+  }
+
+  return definitions;
+}
+
+/**
+ * Calls the route named `name` of `routes` the way {@link Router} does for a request with `session`:
+ * checks its guards, coerces `args` (given by argument name) with its params, then runs it.
+ * Lets other ways into the API, like GraphQL, share the checks and logic of the routes.
+ * @throws whatever the guards, the params or the route throw
+ */
+export async function callRoute(routes: Object, name: string, session: SessionData, args: Record<string, unknown>): Promise<unknown> {
+  const route = getRoutes(routes).find((route) => route.name === name);
+  if (!route) {
+    throw new Error(`No route is named '${name}'!`);
+  }
+  for (const guard of route.guards) {
+    await guard.check(session);
+  }
+  const argNames = getParamNames(route.action);
+  const values = parseParams(
+    route.params,
+    argNames,
+    argNames.map((argName) => (argName === "session" ? session : args[argName])),
+  );
+  return (await route.action.call(null, ...values)) as unknown;
+}
 
-    router.registerRoute(method, path, action);
+/**
+ * Builds an express router out of the decorated methods of `routes`.
+ * The router also serves the generated API docs at `/docs` (browsable) and `/docs/openapi.json`,
+ * the codes of all errors at `/errors`, and runs several requests at once with `POST /batch`, see {@link makeBatchAction}.
+ *
+ * Given several API versions, each is served under its name (e.g. `/v1/users` and `/v2/users`) with its own docs,
+ * and requests without a version go to the first one, which is what clients used before there were versions.
+ * Later versions usually extend the class of the previous one, overriding only the routes that changed.
+ */
+export function getExpressRouter(routes: Object | ApiVersion[], info?: ApiInfo, server = "/api"): express.Router {
+  if (Array.isArray(routes)) {
+    const router = express.Router();
+    for (const version of routes) {
+      const versionInfo = info && { ...info, version: `${info.version} (${version.name})` };
+      router.use(`/${version.name}`, getExpressRouter(version.routes, versionInfo, `${server}/${version.name}`));
+    }
+    // Registered last so the catch-all routes of the first version don't shadow the other versions.
+    router.use(getExpressRouter(routes[0].routes, info, server));
+    return router;
+  }
+
+  const router = new Router();
+  const definitions = getRoutes(routes);
+
+  // Docs are registered first so catch-all routes don't shadow them.
+  const spec = getOpenApiSpec(definitions, info, server);
+  router.expressRouter.get("/docs/openapi.json", (req, res) => res.json(spec));
+  router.expressRouter.get("/docs", (req, res) => res.type("html").send(renderDocsPage(spec)));
+  router.expressRouter.get("/errors", (req, res) => res.json(getErrorCodes()));
+  router.registerRoute("post", "/batch", makeBatchAction(router.expressRouter));
+
+  // Register the methods as routes in `router`.
+  for (const { method, path, action, params, guards, deprecation } of definitions) {
+    router.registerRoute(method, path, action, params, guards, deprecation);
   }
 
   return router.expressRouter;
@@ -0,0 +1,207 @@
+import { AsyncLocalStorage } from "async_hooks";
+import {
+  BulkWriteOptions,
+  ClientSession,
+  Collection,
+  CountDocumentsOptions,
+  Db,
+  DeleteOptions,
+  DeleteResult,
+  Document,
+  Filter,
+  FindOptions,
+  MongoClient,
+  MongoServerError,
+  ObjectId,
+  OptionalUnlessRequiredId,
+  ReplaceOptions,
+  UpdateFilter,
+  UpdateOptions,
+  UpdateResult,
+  WithoutId,
+} from "mongodb";
+
+/**
+ * An index of a collection, as listed by {@link CollectionDriver.listIndexes}.
+ */
+export interface IndexDescription {
+  name: string;
+  /** Indexed fields, in order, with 1 for ascending and -1 for descending. */
+  key: Record<string, 1 | -1>;
+  /**
+   * Whether no two documents can have the same values for the indexed fields.
+   * Writes breaking this fail with a MongoDB duplicate key error (`code` 11000, with `keyPattern` and `keyValue`).
+   */
+  unique: boolean;
+}
+
+/**
+ * The collection operations a storage backend has to provide for {@link DocCollection}.
+ * Filters, updates and options use the MongoDB query language;
+ * backends other than MongoDB implement the subset of it that the concepts use.
+ */
+export interface CollectionDriver<Schema extends Document> {
+  insertOne(item: OptionalUnlessRequiredId<Schema>): Promise<ObjectId>;
+  insertMany(items: OptionalUnlessRequiredId<Schema>[], options?: BulkWriteOptions): Promise<Record<number, ObjectId>>;
+  findOne(filter: Filter<Schema>, options?: FindOptions): Promise<Schema | null>;
+  find(filter: Filter<Schema>, options?: FindOptions): Promise<Schema[]>;
+  replaceOne(filter: Filter<Schema>, item: WithoutId<Schema>, options?: ReplaceOptions): Promise<UpdateResult<Schema> | Document>;
+  updateOne(filter: Filter<Schema>, update: UpdateFilter<Schema>, options?: UpdateOptions): Promise<UpdateResult<Schema>>;
+  updateMany(filter: Filter<Schema>, update: UpdateFilter<Schema>, options?: UpdateOptions): Promise<UpdateResult<Schema>>;
+  deleteOne(filter: Filter<Schema>, options?: DeleteOptions): Promise<DeleteResult>;
+  deleteMany(filter: Filter<Schema>, options?: DeleteOptions): Promise<DeleteResult>;
+  countDocuments(filter: Filter<Schema>, options?: CountDocumentsOptions): Promise<number>;
+  listIndexes(): Promise<IndexDescription[]>;
+  createIndex(index: IndexDescription): Promise<void>;
+  dropIndex(name: string): Promise<void>;
+}
+
+/**
+ * A storage backend, i.e. a factory of {@link CollectionDriver}s.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  collection<Schema extends Document>(name: string): CollectionDriver<Schema>;
+  /**
+   * Runs `fn` as a single unit of work: if it throws, none of the writes it made to any collection are kept.
+   * Collection operations made while `fn` runs (including from nested calls) join the transaction automatically,
+   * and a `transaction` started inside another one simply joins the outer one.
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+  /**
+   * Runs `effect` once the current transaction committed, or right away outside of transactions.
+   * For side effects that can't be rolled back, like notifying users: they don't run if the transaction is rolled back,
+   * nor more than once if it's retried.
+   */
+  afterCommit(effect: () => void): void;
+}
+
+/**
+ * What a transaction of {@link MongoStorage} keeps while it runs.
+ */
+interface MongoTransaction {
+  session: ClientSession;
+  /** Effects of {@link StorageDriver.afterCommit} waiting for the commit. */
+  effects: (() => void)[];
+}
+
+/**
+ * Storage driver that forwards every operation to a MongoDB database.
+ * Transactions use MongoDB client sessions, so they need a replica set (which Atlas always is).
+ */
+export class MongoStorage implements StorageDriver {
+  public readonly name = "mongodb";
+  private readonly db: Db;
+  private readonly transactions = new AsyncLocalStorage<MongoTransaction>();
+
+  constructor(
+    private readonly client: MongoClient,
+    dbName: string,
+  ) {
+    this.db = client.db(dbName);
+  }
+
+  collection<Schema extends Document>(name: string): CollectionDriver<Schema> {
+    return new MongoCollection<Schema>(this.db.collection<Schema>(name), () => this.transactions.getStore()?.session);
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transactions.getStore()) {
+      return await fn();
+    }
+    const session = this.client.startSession();
+    try {
+      let result: T;
+      let effects: (() => void)[] = [];
+      // `withTransaction` retries `fn` on transient errors and resolves to the commit result, not to what `fn` returns.
+      await session.withTransaction(async () => {
+        // Only the effects of the attempt that commits run.
+        effects = [];
+        result = await this.transactions.run({ session, effects }, fn);
+      });
+      effects.forEach((effect) => effect());
+      return result!;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  afterCommit(effect: () => void) {
+    const transaction = this.transactions.getStore();
+    if (transaction) {
+      transaction.effects.push(effect);
+    } else {
+      effect();
+    }
+  }
+}
+
+class MongoCollection<Schema extends Document> implements CollectionDriver<Schema> {
+  constructor(
+    private readonly collection: Collection<Schema>,
+    private readonly session: () => ClientSession | undefined,
+  ) {}
+
+  async insertOne(item: OptionalUnlessRequiredId<Schema>) {
+    return (await this.collection.insertOne(item, { session: this.session() })).insertedId as ObjectId;
+  }
+
+  async insertMany(items: OptionalUnlessRequiredId<Schema>[], options?: BulkWriteOptions) {
+    return (await this.collection.insertMany(items, { ...options, session: this.session() })).insertedIds as Record<number, ObjectId>;
+  }
+
+  async findOne(filter: Filter<Schema>, options?: FindOptions) {
+    return await this.collection.findOne<Schema>(filter, { ...options, session: this.session() });
+  }
+
+  async find(filter: Filter<Schema>, options?: FindOptions) {
+    return await this.collection.find<Schema>(filter, { ...options, session: this.session() }).toArray();
+  }
+
+  async replaceOne(filter: Filter<Schema>, item: WithoutId<Schema>, options?: ReplaceOptions) {
+    return await this.collection.replaceOne(filter, item, { ...options, session: this.session() });
+  }
+
+  async updateOne(filter: Filter<Schema>, update: UpdateFilter<Schema>, options?: UpdateOptions) {
+    return await this.collection.updateOne(filter, update, { ...options, session: this.session() });
+  }
+
+  async updateMany(filter: Filter<Schema>, update: UpdateFilter<Schema>, options?: UpdateOptions) {
+    return await this.collection.updateMany(filter, update, { ...options, session: this.session() });
+  }
+
+  async deleteOne(filter: Filter<Schema>, options?: DeleteOptions) {
+    return await this.collection.deleteOne(filter, { ...options, session: this.session() });
+  }
+
+  async deleteMany(filter: Filter<Schema>, options?: DeleteOptions) {
+    return await this.collection.deleteMany(filter, { ...options, session: this.session() });
+  }
+
+  async countDocuments(filter: Filter<Schema>, options?: CountDocumentsOptions) {
+    return await this.collection.countDocuments(filter, { ...options, session: this.session() });
+  }
+
+  // Index operations are never part of transactions.
+
+  async listIndexes() {
+    try {
+      const indexes = await this.collection.listIndexes().toArray();
+      return indexes.map(({ name, key, unique }) => ({ name, key, unique: unique ?? false }) as IndexDescription);
+    } catch (e) {
+      // The collection doesn't exist yet (NamespaceNotFound).
+      if (e instanceof MongoServerError && e.code === 26) {
+        return [];
+      }
+      throw e;
+    }
+  }
+
+  async createIndex({ name, key, unique }: IndexDescription) {
+    await this.collection.createIndex(key, { name, unique });
+  }
+
+  async dropIndex(name: string) {
+    await this.collection.dropIndex(name);
+  }
+}
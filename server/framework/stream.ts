@@ -0,0 +1,110 @@
+import { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+
+import { afterCommit } from "./doc";
+
+/**
+ * An update sent to the users it concerns over their event streams, see {@link openStream}.
+ */
+export interface StreamEvent {
+  /** Sent as the SSE `id`, so clients send it back in `Last-Event-ID` when they reconnect. */
+  id: string;
+  /** Sent as the SSE `event`, e.g. `commentCreated`. */
+  type: string;
+  data: unknown;
+}
+
+/** How many of the latest events are kept to replay to clients reconnecting. */
+export const LOG_SIZE = 1000;
+
+const HEARTBEAT_MS = 25_000;
+const RETRY_MS = 3_000;
+
+// Ids only mean something to the server that made them, since the log is lost on restart.
+const epoch = Date.now().toString(36);
+let sequence = 0;
+
+const log: (StreamEvent & { to: string[] | "everyone" })[] = [];
+
+// Open streams, by id of the user they belong to.
+const streams = new Map<string, Set<Response>>();
+
+function write(res: Response, event: StreamEvent) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+function concerns(event: (typeof log)[number], user: string) {
+  return event.to === "everyone" || event.to.includes(user);
+}
+
+/**
+ * Sends an event of type `type` with `data` to the open streams of the users `to` (or of everyone),
+ * and keeps it in the log, so users reconnecting soon after get it too.
+ * Inside a transaction, the event is only sent once the transaction committed, see {@link afterCommit}.
+ */
+export function notify(to: ObjectId[] | "everyone", type: string, data: unknown) {
+  afterCommit(() => {
+    const event = { id: `${epoch}-${++sequence}`, type, data, to: to === "everyone" ? to : to.map((user) => user.toString()) };
+    log.push(event);
+    if (log.length > LOG_SIZE) {
+      log.shift();
+    }
+    for (const [user, responses] of streams) {
+      if (concerns(event, user)) {
+        responses.forEach((res) => write(res, event));
+      }
+    }
+  });
+}
+
+/**
+ * Events `user` missed since the event `lastEventId`, or `null` if they can't be known
+ * because that event is no longer in the log or was sent before the server restarted.
+ */
+function missedSince(user: string, lastEventId: string) {
+  const [lastEpoch, last] = lastEventId.split("-");
+  const oldest = log.length > 0 ? Number(log[0].id.split("-")[1]) : sequence + 1;
+  if (lastEpoch !== epoch || !(Number(last) >= oldest - 1 && Number(last) <= sequence)) {
+    return null;
+  }
+  return log.filter((event) => Number(event.id.split("-")[1]) > Number(last) && concerns(event, user));
+}
+
+/**
+ * Turns the response to `req` into a Server-Sent Events stream of the events sent to `user`, which stays open until the client leaves.
+ * A client reconnecting with `lastEventId` first gets the events it missed, or a `reset` event if they're no longer known,
+ * after which it should fetch whatever it shows again.
+ */
+export function openStream(user: ObjectId, req: Request, res: Response, lastEventId?: string) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Keeps proxies like nginx from holding events back.
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const userId = user.toString();
+  if (lastEventId) {
+    const missed = missedSince(userId, lastEventId);
+    if (missed) {
+      missed.forEach((event) => write(res, event));
+    } else {
+      write(res, { id: `${epoch}-${sequence}`, type: "reset", data: null });
+    }
+  }
+
+  const responses = streams.get(userId) ?? new Set<Response>();
+  responses.add(res);
+  streams.set(userId, responses);
+  // Comments keep idle connections from being closed by proxies.
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    responses.delete(res);
+    if (responses.size === 0) {
+      streams.delete(userId);
+    }
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * A word of a text, lowercased and without accents, and where it is in the text.
+ */
+export interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Too common to tell documents apart, so they aren't indexed.
+const STOP_WORDS = new Set(["a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it", "of", "on", "or", "the", "to", "with"]);
+
+/**
+ * Splits `text` into its words, leaving out punctuation and {@link STOP_WORDS}.
+ */
+export function words(text: string) {
+  const found: Word[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+    if (!STOP_WORDS.has(word)) {
+      found.push({ word, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return found;
+}
+
+function isConsonant(word: string, i: number): boolean {
+  if ("aeiou".includes(word[i])) {
+    return false;
+  }
+  // "y" is a vowel after a consonant, as in "try".
+  return word[i] !== "y" || i === 0 || !isConsonant(word, i - 1);
+}
+
+/**
+ * Counts the vowels-consonants sequences of `stem`, e.g. 0 for "tr", 1 for "trouble", 2 for "troubles".
+ */
+function measure(stem: string) {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) {
+    i++;
+  }
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) {
+      i++;
+    }
+    if (i === stem.length) {
+      break;
+    }
+    while (i < stem.length && isConsonant(stem, i)) {
+      i++;
+    }
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string) {
+  return [...stem].some((_, i) => !isConsonant(stem, i));
+}
+
+function endsWithDoubleConsonant(word: string) {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/**
+ * Whether `word` ends with consonant-vowel-consonant, the last one not being "w", "x" or "y", as in "hop" or "fil".
+ */
+function endsWithCVC(word: string) {
+  const n = word.length;
+  return n >= 3 && isConsonant(word, n - 3) && !isConsonant(word, n - 2) && isConsonant(word, n - 1) && !"wxy".includes(word[n - 1]);
+}
+
+/**
+ * Replaces the longest of the `suffixes` that `word` ends with, if what's left before it measures more than `minMeasure`.
+ */
+function replaceSuffix(word: string, suffixes: [string, string][], minMeasure: number) {
+  const suffix = suffixes.find(([suffix]) => word.endsWith(suffix));
+  if (!suffix) {
+    return word;
+  }
+  const stem = word.slice(0, -suffix[0].length);
+  return measure(stem) > minMeasure ? stem + suffix[1] : word;
+}
+
+const byLength = (suffixes: [string, string][]) => suffixes.sort((a, b) => b[0].length - a[0].length);
+
+const STEP_2 = byLength([
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["abli", "able"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+]);
+const STEP_3 = byLength([
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+]);
+const STEP_4 = byLength(
+  ["al", "ance", "ence", "er", "ic", "able", "ible", "ant", "ement", "ment", "ent", "ou", "ism", "ate", "iti", "ous", "ive", "ize"].map((suffix) => [suffix, ""] as [string, string]),
+);
+
+/**
+ * Reduces an English word from {@link words} to its stem with the Porter algorithm, so that e.g. "dancing", "dances" and "danced" all become "danc".
+ * Words with other characters than a-z (numbers, other languages) are left as they are.
+ */
+export function stem(word: string) {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+  // Step 1a: plurals.
+  if (word.endsWith("sses") || word.endsWith("ies")) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith("s") && !word.endsWith("ss")) {
+    word = word.slice(0, -1);
+  }
+  // Step 1b: past tenses and gerunds.
+  if (word.endsWith("eed")) {
+    if (measure(word.slice(0, -3)) > 0) {
+      word = word.slice(0, -1);
+    }
+  } else {
+    const suffix = ["ed", "ing"].find((suffix) => word.endsWith(suffix) && hasVowel(word.slice(0, -suffix.length)));
+    if (suffix) {
+      word = word.slice(0, -suffix.length);
+      if (word.endsWith("at") || word.endsWith("bl") || word.endsWith("iz")) {
+        word += "e";
+      } else if (endsWithDoubleConsonant(word) && !"lsz".includes(word[word.length - 1])) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsWithCVC(word)) {
+        word += "e";
+      }
+    }
+  }
+  // Step 1c.
+  if (word.endsWith("y") && hasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + "i";
+  }
+  // Steps 2 to 4: derivational suffixes.
+  word = replaceSuffix(word, STEP_2, 0);
+  word = replaceSuffix(word, STEP_3, 0);
+  if (word.endsWith("ion") && /[st]$/.test(word.slice(0, -3)) && measure(word.slice(0, -3)) > 1) {
+    word = word.slice(0, -3);
+  } else {
+    word = replaceSuffix(word, STEP_4, 1);
+  }
+  // Step 5: final "e" and double "l".
+  if (word.endsWith("e")) {
+    const m = measure(word.slice(0, -1));
+    if (m > 1 || (m === 1 && !endsWithCVC(word.slice(0, -1)))) {
+      word = word.slice(0, -1);
+    }
+  }
+  if (word.endsWith("ll") && measure(word) > 1) {
+    word = word.slice(0, -1);
+  }
+  return word;
+}
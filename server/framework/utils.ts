@@ -5,3 +5,19 @@ export function getParamNames(f: Function) {
     .split(",") // Simple regex to get "name: type" items in signature
     .map((param: string) => param.split("=")[0].trim()); // remove whitespaces
 }
+
+/**
+ * Wraps the methods of `target` so each call goes through `around`, e.g. to time or log them.
+ * @param around called with the name of the method and a function making the actual call
+ */
+export function aroundMethods<T extends object>(target: T, around: (method: string, call: () => Promise<unknown>) => Promise<unknown>): T {
+  return new Proxy(target, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver) as unknown;
+      if (typeof value !== "function") {
+        return value;
+      }
+      return (...args: unknown[]) => around(String(property), async () => (await value.apply(target, args)) as unknown);
+    },
+  });
+}
@@ -0,0 +1,159 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+import { BadValuesError } from "../concepts/errors";
+
+export interface ZipEntry {
+  /** Path of the file in the archive, e.g. `posts.json`. */
+  name: string;
+  data: Buffer | string;
+}
+
+/** Most bytes {@link readZip} unpacks, so a small archive can't fill the memory. */
+export const MAX_UNZIPPED_SIZE = 50 * 1024 * 1024;
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// Names are UTF-8.
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+
+// CRC-32 of every byte value, for {@link crc32}.
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Checksum of `data` stored with each file of a zip archive.
+ * zlib only has one from Node 20.15 on, so it's computed here.
+ */
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Date and time the way zip archives store them (MS-DOS format, local time).
+ */
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/**
+ * Packs `entries` into a zip archive, compressing each of them.
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()) {
+  const { time, day } = dosDateTime(modified);
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.data);
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(DEFLATED, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(DEFLATED, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+  const centralSize = centrals.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+/**
+ * Unpacks the files of the zip archive `archive`, by name. Folders are left out.
+ * @throws BadValuesError if `archive` isn't a zip archive (of the kind {@link createZip} makes), or unpacks to more than {@link MAX_UNZIPPED_SIZE}
+ */
+export function readZip(archive: Buffer) {
+  const invalid = () => new BadValuesError("The file isn't a valid zip archive!");
+  // The end of central directory record is last, followed by a comment of up to 64KB.
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw invalid();
+  }
+  const files = new Map<string, Buffer>();
+  let unzipped = 0;
+  let position = archive.readUInt32LE(end + 16);
+  try {
+    for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+      if (archive.readUInt32LE(position) !== CENTRAL_HEADER) {
+        throw invalid();
+      }
+      const method = archive.readUInt16LE(position + 10);
+      const compressedSize = archive.readUInt32LE(position + 20);
+      const size = archive.readUInt32LE(position + 24);
+      const nameLength = archive.readUInt16LE(position + 28);
+      const extraLength = archive.readUInt16LE(position + 30);
+      const commentLength = archive.readUInt16LE(position + 32);
+      const localOffset = archive.readUInt32LE(position + 42);
+      const name = archive.toString("utf8", position + 46, position + 46 + nameLength);
+      position += 46 + nameLength + extraLength + commentLength;
+
+      if (archive.readUInt32LE(localOffset) !== LOCAL_HEADER || (method !== STORED && method !== DEFLATED)) {
+        throw invalid();
+      }
+      unzipped += size;
+      if (unzipped > MAX_UNZIPPED_SIZE) {
+        throw new BadValuesError("The archive unpacks to more than {0} MB!", MAX_UNZIPPED_SIZE / 1024 / 1024);
+      }
+      const start = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+      const data = archive.subarray(start, start + compressedSize);
+      if (!name.endsWith("/")) {
+        files.set(name, method === STORED ? data : inflateRawSync(data, { maxOutputLength: Math.max(size, 1) }));
+      }
+    }
+  } catch (e) {
+    // Offsets pointing past the end of the archive, or data that doesn't inflate.
+    throw e instanceof BadValuesError ? e : invalid();
+  }
+  return files;
+}
@@ -0,0 +1,379 @@
+import { Request } from "express";
+import {
+  GraphQLBoolean,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFieldConfigMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  graphql,
+} from "graphql";
+import { ObjectId } from "mongodb";
+
+import { Application, Comment, FocusedPost, Opportunity, Portfolio, Tag, User, Vote, WebSession } from "./app";
+import { ApplicationDoc } from "./concepts/application";
+import { CommentDoc } from "./concepts/comment";
+import { CategoriesDoc, FocusedPostDoc } from "./concepts/focusedPost";
+import { OpportunityDoc } from "./concepts/opportunity";
+import { PortfolioDoc } from "./concepts/portfolio";
+import { TagDoc } from "./concepts/tag";
+import { UserDoc } from "./concepts/user";
+import { WebSessionDoc } from "./concepts/websession";
+import { getRequestContext } from "./framework/context";
+import { BaseDoc } from "./framework/doc";
+import { FormattableMessage, negotiateLocale, translate } from "./framework/i18n";
+import { parseParams } from "./framework/params";
+import { Router, callRoute } from "./framework/router";
+import { loginGuard, roleGuard } from "./guards";
+import Responses from "./responses";
+
+interface GraphQLContext {
+  session: WebSessionDoc;
+  locale: string;
+  /** Routes mutations run, see {@link routeMutation}. */
+  routes: Object;
+}
+
+type PageArgs = { limit?: number; after?: string };
+
+const PAGE_ARGS: GraphQLFieldConfigArgumentMap = { limit: { type: GraphQLInt }, after: { type: GraphQLString } };
+
+/**
+ * Coerces an `ID` argument into an {@link ObjectId}, with the same error as route params.
+ * @throws InvalidParamsError if `value` isn't a valid id
+ */
+function toId(value: string) {
+  return parseParams({ id: "id" }, ["id"], [value])[0] as ObjectId;
+}
+
+function list<T extends GraphQLOutputType>(type: T) {
+  return new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+}
+
+const DateTime = new GraphQLScalarType({
+  name: "DateTime",
+  description: "A date as an ISO 8601 string, e.g. 2024-01-31T12:00:00.000Z",
+  serialize: (value) => (value instanceof Date ? value.toISOString() : value),
+});
+
+function baseFields(): GraphQLFieldConfigMap<BaseDoc, GraphQLContext> {
+  return {
+    _id: { type: new GraphQLNonNull(GraphQLID) },
+    dateCreated: { type: new GraphQLNonNull(DateTime) },
+    dateUpdated: { type: new GraphQLNonNull(DateTime) },
+    version: { type: new GraphQLNonNull(GraphQLInt) },
+  };
+}
+
+/**
+ * The type of a page of `type` items, like the results of routes taking {@link PAGE_ARGS}.
+ */
+function pageOf(type: GraphQLObjectType) {
+  return new GraphQLObjectType({
+    name: `${type.name}Page`,
+    fields: { items: { type: list(type) }, nextCursor: { type: GraphQLString } },
+  });
+}
+
+const UserType: GraphQLObjectType<Omit<UserDoc, "password">, GraphQLContext> = new GraphQLObjectType({
+  name: "User",
+  fields: () => ({
+    ...baseFields(),
+    email: { type: new GraphQLNonNull(GraphQLString) },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    profilePic: { type: GraphQLString, resolve: async (user) => await Responses.oneMedia(user.profilePic) },
+    birthday: { type: DateTime },
+    city: { type: GraphQLString },
+    state: { type: GraphQLString },
+    country: { type: GraphQLString },
+    posts: { type: new GraphQLNonNull(PostPage), args: PAGE_ARGS, resolve: async (user, page: PageArgs) => await FocusedPost.getByAuthor(user._id, page) },
+    tags: { type: new GraphQLNonNull(TagPage), args: PAGE_ARGS, resolve: async (user, page: PageArgs) => await Tag.getByTagged(user._id, page) },
+    portfolio: { type: PortfolioType, resolve: async (user) => await Portfolio.getByUser(user._id) },
+  }),
+});
+
+const CategoryType: GraphQLObjectType<CategoriesDoc, GraphQLContext> = new GraphQLObjectType({
+  name: "Category",
+  fields: () => ({
+    ...baseFields(),
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+  }),
+});
+
+const VoteCountType = new GraphQLObjectType({
+  name: "VoteCount",
+  fields: { up: { type: new GraphQLNonNull(GraphQLInt) }, down: { type: new GraphQLNonNull(GraphQLInt) } },
+});
+
+const PostType: GraphQLObjectType<FocusedPostDoc, GraphQLContext> = new GraphQLObjectType({
+  name: "Post",
+  fields: () => ({
+    ...baseFields(),
+    content: { type: new GraphQLNonNull(GraphQLString) },
+    media: { type: list(GraphQLString), resolve: async (post) => await Responses.media(post.media) },
+    author: { type: UserType, resolve: async (post) => await User.getUserById(post.author) },
+    category: { type: CategoryType, resolve: async (post) => await FocusedPost.getCategory(post.category) },
+    comments: { type: new GraphQLNonNull(CommentPage), args: PAGE_ARGS, resolve: async (post, page: PageArgs) => await Comment.getByParent(post._id, page) },
+    tags: { type: new GraphQLNonNull(TagPage), args: PAGE_ARGS, resolve: async (post, page: PageArgs) => await Tag.getByPost(post._id, page) },
+    votes: { type: new GraphQLNonNull(VoteCountType), resolve: async (post) => await Vote.votesForParent(post._id) },
+  }),
+});
+
+const CommentType: GraphQLObjectType<CommentDoc, GraphQLContext> = new GraphQLObjectType({
+  name: "Comment",
+  fields: () => ({
+    ...baseFields(),
+    content: { type: new GraphQLNonNull(GraphQLString) },
+    author: { type: UserType, resolve: async (comment) => await User.getUserById(comment.author) },
+    post: { type: PostType, resolve: async (comment) => await FocusedPost.getById(comment.parent) },
+  }),
+});
+
+const TagType: GraphQLObjectType<TagDoc, GraphQLContext> = new GraphQLObjectType({
+  name: "Tag",
+  fields: () => ({
+    ...baseFields(),
+    tagger: { type: UserType, resolve: async (tag) => await User.getUserById(tag.tagger) },
+    tagged: { type: UserType, resolve: async (tag) => await User.getUserById(tag.tagged) },
+    post: { type: PostType, resolve: async (tag) => await FocusedPost.getById(tag.post) },
+  }),
+});
+
+const RequirementsType = new GraphQLObjectType({
+  name: "Requirements",
+  fields: { physical: { type: list(GraphQLString) }, skill: { type: list(GraphQLString) }, location: { type: GraphQLString } },
+});
+
+const RequirementsInput = new GraphQLInputObjectType({
+  name: "RequirementsInput",
+  fields: { physical: { type: list(GraphQLString) }, skill: { type: list(GraphQLString) }, location: { type: new GraphQLNonNull(GraphQLString) } },
+});
+
+const OpportunityType: GraphQLObjectType<OpportunityDoc, GraphQLContext> = new GraphQLObjectType({
+  name: "Opportunity",
+  fields: () => ({
+    ...baseFields(),
+    title: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    user: { type: UserType, resolve: async (opportunity) => await User.getUserById(opportunity.user) },
+    startOn: { type: DateTime },
+    endsOn: { type: DateTime },
+    expiresOn: { type: DateTime },
+    requirements: { type: RequirementsType },
+    isActive: { type: new GraphQLNonNull(GraphQLBoolean) },
+    applications: {
+      type: new GraphQLNonNull(ApplicationPage),
+      description: "Only for the casting director who posted the opportunity",
+      args: PAGE_ARGS,
+      resolve: async (opportunity, page: PageArgs, { session }) => {
+        await roleGuard("casting director").check(session);
+        return await Application.getAppsForOp(WebSession.getUser(session), opportunity._id, page);
+      },
+    },
+  }),
+});
+
+const ApplicationType: GraphQLObjectType<ApplicationDoc, GraphQLContext> = new GraphQLObjectType({
+  name: "Application",
+  fields: () => ({
+    ...baseFields(),
+    status: { type: new GraphQLNonNull(GraphQLString) },
+    text: { type: GraphQLString },
+    media: { type: list(GraphQLString), resolve: async (application) => await Responses.media(application.media) },
+    user: { type: UserType, resolve: async (application) => await User.getUserById(application.user) },
+    owner: { type: UserType, resolve: async (application) => await User.getUserById(application.owner) },
+    opportunity: { type: OpportunityType, resolve: async (application) => await Opportunity.getById(application.applicationFor) },
+  }),
+});
+
+const StyleType = new GraphQLObjectType({
+  name: "Style",
+  fields: {
+    backgroundImage: { type: GraphQLString },
+    backgroundColor: { type: GraphQLString },
+    font: { type: GraphQLString },
+    fontSize: { type: GraphQLFloat },
+    textColor: { type: GraphQLString },
+  },
+});
+
+const ProfessionalInfoType = new GraphQLObjectType({
+  name: "ProfessionalInfo",
+  fields: { education: { type: list(GraphQLString) }, experience: { type: list(GraphQLString) }, skills: { type: list(GraphQLString) }, languages: { type: list(GraphQLString) } },
+});
+
+const PortfolioType: GraphQLObjectType<PortfolioDoc, GraphQLContext> = new GraphQLObjectType({
+  name: "Portfolio",
+  fields: () => ({
+    ...baseFields(),
+    user: { type: UserType, resolve: async (portfolio) => await User.getUserById(portfolio.user) },
+    intro: { type: GraphQLString },
+    style: { type: StyleType },
+    info: { type: ProfessionalInfoType },
+    headshot: { type: GraphQLString, resolve: async (portfolio) => await Responses.oneMedia(portfolio.headshot) },
+    media: { type: list(GraphQLString), resolve: async (portfolio) => await Responses.media(portfolio.media) },
+  }),
+});
+
+const UserPage = pageOf(UserType);
+const PostPage = pageOf(PostType);
+const CategoryPage = pageOf(CategoryType);
+const CommentPage = pageOf(CommentType);
+const TagPage = pageOf(TagType);
+const OpportunityPage = pageOf(OpportunityType);
+const ApplicationPage = pageOf(ApplicationType);
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: "Query",
+  fields: {
+    me: {
+      type: UserType,
+      resolve: async (_, args, { session }) => {
+        await loginGuard.check(session);
+        return await User.getUserById(WebSession.getUser(session));
+      },
+    },
+    user: { type: UserType, args: { id: { type: new GraphQLNonNull(GraphQLID) } }, resolve: async (_, { id }: { id: string }) => await User.getUserById(toId(id)) },
+    users: {
+      type: new GraphQLNonNull(UserPage),
+      args: { name: { type: GraphQLString }, ...PAGE_ARGS },
+      resolve: async (_, { name, ...page }: { name?: string } & PageArgs) => await User.getUsers(name, page),
+    },
+    post: { type: PostType, args: { id: { type: new GraphQLNonNull(GraphQLID) } }, resolve: async (_, { id }: { id: string }) => await FocusedPost.getById(toId(id)) },
+    posts: {
+      type: new GraphQLNonNull(PostPage),
+      args: { authorEmail: { type: GraphQLString }, ...PAGE_ARGS },
+      resolve: async (_, { authorEmail, ...page }: { authorEmail?: string } & PageArgs) => {
+        if (authorEmail) {
+          return await FocusedPost.getByAuthor((await User.getUserByEmail(authorEmail))._id, page);
+        }
+        return await FocusedPost.getFocusedPosts({}, page);
+      },
+    },
+    categories: { type: new GraphQLNonNull(CategoryPage), args: PAGE_ARGS, resolve: async (_, page: PageArgs) => await FocusedPost.getAllCategories(page) },
+    opportunity: { type: OpportunityType, args: { id: { type: new GraphQLNonNull(GraphQLID) } }, resolve: async (_, { id }: { id: string }) => await Opportunity.getById(toId(id)) },
+    opportunities: { type: new GraphQLNonNull(OpportunityPage), args: PAGE_ARGS, resolve: async (_, page: PageArgs) => await Opportunity.getAll(page) },
+    application: {
+      type: ApplicationType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: async (_, { id }: { id: string }, { session }) => {
+        await loginGuard.check(session);
+        return await Application.getAppById(toId(id), WebSession.getUser(session));
+      },
+    },
+    myApplications: {
+      type: new GraphQLNonNull(ApplicationPage),
+      args: PAGE_ARGS,
+      resolve: async (_, page: PageArgs, { session }) => {
+        await roleGuard("actor").check(session);
+        return await Application.getAppsForUser(WebSession.getUser(session), page);
+      },
+    },
+    portfolio: { type: PortfolioType, args: { userId: { type: new GraphQLNonNull(GraphQLID) } }, resolve: async (_, { userId }: { userId: string }) => await Portfolio.getByUser(toId(userId)) },
+  },
+});
+
+const MessagePayload = new GraphQLObjectType({
+  name: "MessagePayload",
+  fields: { msg: { type: new GraphQLNonNull(GraphQLString) } },
+});
+
+/**
+ * A mutation that runs the route `route` with the mutation's arguments, so it is checked and does exactly what the REST API does,
+ * e.g. awarding the same applause. With `created`, the mutation also returns what the route created, read with `load`
+ * by the `_id` of the `result` field of the route's result, for the user of `session`.
+ */
+function routeMutation(
+  route: string,
+  args: GraphQLFieldConfigArgumentMap,
+  created?: { field: string; type: GraphQLObjectType; result: string; load: (_id: ObjectId, session: WebSessionDoc) => Promise<unknown> },
+) {
+  const type = created
+    ? new GraphQLObjectType({
+        name: `${route.charAt(0).toUpperCase()}${route.slice(1)}Payload`,
+        fields: { msg: { type: new GraphQLNonNull(GraphQLString) }, [created.field]: { type: created.type } },
+      })
+    : MessagePayload;
+  return {
+    type: new GraphQLNonNull(type),
+    args,
+    resolve: async (_: unknown, values: Record<string, unknown>, { session, locale, routes }: GraphQLContext) => {
+      const result = (await callRoute(routes, route, session, values)) as Record<string, unknown> & { msg: string | FormattableMessage };
+      const msg = result.msg instanceof FormattableMessage ? translate(locale, result.msg.format, result.msg.args) : translate(locale, result.msg);
+      if (!created) {
+        return { msg };
+      }
+      return { msg, [created.field]: await created.load((result[created.result] as BaseDoc)._id, session) };
+    },
+  };
+}
+
+const id = { type: new GraphQLNonNull(GraphQLID) };
+const text = { type: new GraphQLNonNull(GraphQLString) };
+
+const MutationType = new GraphQLObjectType({
+  name: "Mutation",
+  fields: {
+    createPost: routeMutation(
+      "createPost",
+      { content: text, media: { type: new GraphQLList(GraphQLString) }, categoryID: id },
+      { field: "post", type: PostType, result: "post", load: (_id) => FocusedPost.getById(_id) },
+    ),
+    deletePost: routeMutation("deletePost", { id }),
+    createComment: routeMutation("createComment", { post: id, content: text }, { field: "comment", type: CommentType, result: "post", load: (_id) => Comment.getComment(_id) }),
+    deleteComment: routeMutation("deleteComment", { _id: id }),
+    createTag: routeMutation("createTag", { post: id, tagged: id }, { field: "tag", type: TagType, result: "post", load: (_id) => Tag.getById(_id) }),
+    deleteTag: routeMutation("deleteTag", { post: id, tagged: id }),
+    upvote: routeMutation("upvote", { post: id, upvote: { type: new GraphQLNonNull(GraphQLBoolean) } }),
+    createOpportunity: routeMutation(
+      "createOpportunity",
+      { title: text, description: text, startOn: { type: new GraphQLNonNull(DateTime) }, endsOn: { type: new GraphQLNonNull(DateTime) }, requirements: { type: RequirementsInput } },
+      { field: "opportunity", type: OpportunityType, result: "challenge", load: (_id) => Opportunity.getById(_id) },
+    ),
+    deleteOpportunity: routeMutation("deleteOpportunity", { _id: id }),
+    createApplication: routeMutation(
+      "createApplication",
+      { text, media: { type: new GraphQLList(GraphQLString) }, opId: id },
+      { field: "application", type: ApplicationType, result: "application", load: (_id, session) => Application.getAppById(_id, WebSession.getUser(session)) },
+    ),
+    updateStatus: routeMutation("updateStatus", { id, newStatus: text }),
+    addPortfolioMedia: routeMutation("addPortfolioMedia", { media: text }),
+  },
+});
+
+const schema = new GraphQLSchema({ query: QueryType, mutation: MutationType });
+
+/**
+ * Runs a GraphQL `query` for the client that sent `req`, with mutations running `routes`.
+ * Errors thrown by concepts and routes are sent like the REST API sends them: translated,
+ * with their `code` and `params` in the error's `extensions`.
+ */
+export async function executeGraphQL(routes: Object, req: Request, query: string, variables?: Record<string, unknown>, operationName?: string) {
+  const locale = negotiateLocale(req.session?.locale, req.get("Accept-Language"));
+  const context: GraphQLContext = { session: req.session, locale, routes };
+  const result = await graphql({ schema, source: query, variableValues: variables, operationName, contextValue: context });
+  if (!result.errors) {
+    return result;
+  }
+  const requestId = getRequestContext()?.requestId ?? "";
+  const errors = await Promise.all(
+    result.errors.map(async (error) => {
+      // Errors in the query itself (e.g. unknown fields) are left as GraphQL reports them.
+      if (!error.originalError) {
+        return error.toJSON();
+      }
+      const { body } = await Router.errorResponse(error.originalError, locale, requestId);
+      return { ...error.toJSON(), message: body.msg, extensions: { code: body.code, params: body.params } };
+    }),
+  );
+  return { ...result, errors };
+}
@@ -0,0 +1,47 @@
+import { Restrictions, WebSession } from "./app";
+import { NotAllowedError, UnauthenticatedError } from "./concepts/errors";
+import { WebSessionDoc } from "./concepts/websession";
+import { Guard, Router } from "./framework/router";
+
+export type Role = "actor" | "casting director" | "admin";
+
+/**
+ * Where the session keeps whether the logged in user has each role, see {@link WebSessionConcept.start}.
+ */
+const roleFlags: Record<Role, (session: WebSessionDoc) => boolean | undefined> = {
+  actor: (session) => WebSession.isActor(session),
+  "casting director": (session) => WebSession.isCastor(session),
+  admin: (session) => WebSession.isAdmin(session),
+};
+
+/**
+ * Requires the user to be logged in.
+ */
+export const loginGuard: Guard = {
+  requires: "login",
+  check: (session) => WebSession.isLoggedIn(session),
+  raises: [UnauthenticatedError],
+};
+
+/**
+ * Requires the user to be logged in and have `role`.
+ */
+export function roleGuard(role: Role): Guard {
+  return {
+    requires: role,
+    check: (session) => Restrictions.check(roleFlags[role](session), role),
+    raises: [UnauthenticatedError, NotAllowedError],
+  };
+}
+
+/**
+ * Only lets logged in users through.
+ */
+export const RequireLogin = Router.guard(loginGuard);
+
+/**
+ * Only lets logged in users with `role` through.
+ */
+export function RequireRole(role: Role) {
+  return Router.guard(roleGuard(role));
+}
@@ -0,0 +1,55 @@
+import { Challenge, Connection, Opportunity, Search } from "./app";
+import { NotAllowedError } from "./concepts/errors";
+import { Job, deleteJobRuns } from "./framework/jobs";
+
+const HOUR = 60 * 60_000;
+const DAY = 24 * HOUR;
+
+/** How long connection requests and job runs are kept. */
+const KEEP_FOR = 30 * DAY;
+
+/**
+ * Every job of the app, see `startScheduler`.
+ */
+const jobs: Job[] = [
+  {
+    name: "expire-opportunities",
+    every: HOUR,
+    run: async () => `Deactivated ${(await Opportunity.deactivateExpired()).length} expired opportunities`,
+  },
+  {
+    name: "post-daily-challenge",
+    // Hourly since today's challenge is only posted once, so it's up soon after midnight.
+    every: HOUR,
+    run: async () => {
+      try {
+        return `Today's challenge is ${(await Challenge.todaysChallenge())?._id}`;
+      } catch (e) {
+        if (e instanceof NotAllowedError) {
+          return "No proposed challenges to post";
+        }
+        throw e;
+      }
+    },
+  },
+  {
+    name: "clean-up-connection-requests",
+    every: DAY,
+    run: async () => `Removed ${await Connection.deleteStaleRequests(new Date(Date.now() - KEEP_FOR))} unanswered connection requests`,
+  },
+  {
+    name: "clean-up-job-runs",
+    every: DAY,
+    run: async () => `Removed ${await deleteJobRuns(new Date(Date.now() - KEEP_FOR))} job runs`,
+  },
+  {
+    name: "rebuild-search-index",
+    // Writes keep the index up to date; this indexes what was written before, e.g. when it was added, and repairs any drift.
+    every: DAY,
+    // Every document is indexed one at a time, which is too much for one transaction.
+    transaction: false,
+    run: async () => `Indexed ${await Search.rebuild()} documents`,
+  },
+];
+
+export default jobs;
@@ -0,0 +1,214 @@
+import { Catalog } from "../framework/i18n";
+
+const es: Catalog = {
+  // framework
+
+  "Invalid values for: {0}": "Valores no válidos para: {0}",
+  "Invalid page cursor '{0}'!": "¡Cursor de página '{0}' no válido!",
+  'If-Match {0} is not the ETag of a version of the document, expected one like "3"!': '¡If-Match {0} no es el ETag de una versión del documento, se esperaba uno como "3"!',
+  "'{0}' was changed by someone else: expected version {1} but it is at version {2}!": "'{0}' fue modificado por otra persona: se esperaba la versión {1} pero está en la versión {2}!",
+  "{0} with {1} already exists!": "¡Ya existe {0} con {1}!",
+  "{0} {1} responds itself, so it can't be in a batch!": "¡{0} {1} responde por sí mismo, así que no puede ir en un lote!",
+  "A batch takes a list of 1 to {0} requests!": "¡Un lote admite una lista de 1 a {0} solicitudes!",
+  "Invalid request {0} in the batch, expected a method ({1}) and a path starting with /!": "¡Solicitud {0} del lote no válida, se esperaba un método ({1}) y una ruta que empiece por /!",
+  "Request {0} in the batch can't be another batch!": "¡La solicitud {0} del lote no puede ser otro lote!",
+  "Request {0} in the batch refers to request {1}, which doesn't come before it!": "¡La solicitud {0} del lote hace referencia a la solicitud {1}, que no va antes que ella!",
+  "Request {0} in the batch refers to request {1}, which failed!": "¡La solicitud {0} del lote hace referencia a la solicitud {1}, que falló!",
+  "Request {0} in the batch refers to {1}, which the result of request {2} doesn't have!": "¡La solicitud {0} del lote hace referencia a {1}, que el resultado de la solicitud {2} no tiene!",
+  "Job {0} doesn't exist!": "¡El trabajo {0} no existe!",
+  "Job {0} will run shortly!": "¡El trabajo {0} se ejecutará en breve!",
+  "The file isn't a valid zip archive!": "¡El archivo no es un archivo zip válido!",
+  "The archive unpacks to more than {0} MB!": "¡El archivo descomprimido ocupa más de {0} MB!",
+  "{0} in the archive isn't valid JSON!": "¡{0} en el archivo no es JSON válido!",
+  "{0} in the archive isn't valid!": "¡{0} en el archivo no es válido!",
+  "The file isn't a Stagelights export!": "¡El archivo no es una exportación de Stagelights!",
+  "The export was made by a newer version of Stagelights!": "¡La exportación se hizo con una versión más reciente de Stagelights!",
+  "Data can only be imported into a new account, without posts, repertoire folders or media!":
+    "¡Los datos solo se pueden importar en una cuenta nueva, sin publicaciones, carpetas de repertorio ni archivos!",
+  "Send the archive as the body of the request, with the application/zip content type!": "¡Envía el archivo como cuerpo de la solicitud, con el tipo de contenido application/zip!",
+  "Successfully imported your data!": "¡Tus datos se importaron con éxito!",
+  "The search '{0}' has no words to look for!": "¡La búsqueda '{0}' no tiene palabras que buscar!",
+  "Can't search {0}!": "¡No se puede buscar {0}!",
+  "route doesn't exist": "la ruta no existe",
+  "Replayed {0} events!": "¡Se reprodujeron {0} eventos!",
+  "Permanently deleted {0} items from the trash!": "¡Se eliminaron definitivamente {0} elementos de la papelera!",
+
+  // user + session
+
+  "User created successfully!": "¡Usuario creado con éxito!",
+  "User updated successfully!": "¡Usuario actualizado con éxito!",
+  "Successfully updated user": "Usuario actualizado con éxito",
+  "User deleted!": "¡Usuario eliminado!",
+  "User with email {0} already exists!": "¡Ya existe un usuario con el correo {0}!",
+  "Email and password must be non-empty!": "¡El correo y la contraseña no pueden estar vacíos!",
+  "Email or password is incorrect.": "El correo o la contraseña son incorrectos.",
+  "Successfully authenticated.": "Autenticado con éxito.",
+  "Cannot update '{0}' field!": "¡No se puede actualizar el campo '{0}'!",
+  "Unsupported locale {0}! Supported locales are: {1}": "¡Idioma {0} no disponible! Los idiomas disponibles son: {1}",
+  "Logged in!": "¡Sesión iniciada!",
+  "Logged out!": "¡Sesión cerrada!",
+  "Must be logged in!": "¡Debes iniciar sesión!",
+  "Must be logged in": "Debes iniciar sesión",
+  "Must be logged out!": "¡Debes cerrar sesión!",
+
+  // restrictions
+
+  "Restriction successfully created!": "¡Restricciones creadas con éxito!",
+  "successfully updated restrictions": "restricciones actualizadas con éxito",
+  "successfully deleted restrictions": "restricciones eliminadas con éxito",
+  "User isn't of type: {0}": "El usuario no es de tipo: {0}",
+  "{0} already has initialized restrictions": "{0} ya tiene restricciones inicializadas",
+  "{0} hasn't initialized restrictions": "{0} no ha inicializado sus restricciones",
+
+  // focused post
+
+  "Focused post successfully created!": "¡Publicación creada con éxito!",
+  "Focused post successfully updated!": "¡Publicación actualizada con éxito!",
+  "Focused post moved to the trash!": "¡Publicación movida a la papelera!",
+  "Focused post successfully restored!": "¡Publicación restaurada con éxito!",
+  "successfully deleted all user's posts": "todas las publicaciones del usuario se eliminaron con éxito",
+  "Focused post {0} does not exist!": "¡La publicación {0} no existe!",
+  "Post with id {0} doesn't exist": "No existe ninguna publicación con id {0}",
+  "No post with id {0} in the trash!": "¡No hay ninguna publicación con id {0} en la papelera!",
+  "{0} is not the author of focused post {1}!": "¡{0} no es el autor de la publicación {1}!",
+  "Category successfully created!": "¡Categoría creada con éxito!",
+  "successfully deleted category and its posts": "la categoría y sus publicaciones se eliminaron con éxito",
+  "'{0}' category already exists": "la categoría '{0}' ya existe",
+  "'{0}' category not found": "no se encontró la categoría '{0}'",
+  "Name or description of category missing": "Falta el nombre o la descripción de la categoría",
+
+  // comment
+
+  "Comment successfully created!": "¡Comentario creado con éxito!",
+  "Comment successfully updated!": "¡Comentario actualizado con éxito!",
+  "Comment moved to the trash!": "¡Comentario movido a la papelera!",
+  "Comment successfully restored!": "¡Comentario restaurado con éxito!",
+  "Comment deleted successfully!": "¡Comentario eliminado con éxito!",
+  "Comment {0} does not exist!": "¡El comentario {0} no existe!",
+  "No comment with id {0} in the trash!": "¡No hay ningún comentario con id {0} en la papelera!",
+  "{0} is not the author of comment {1}!": "¡{0} no es el autor del comentario {1}!",
+
+  // tag
+
+  "Tag successfully created!": "¡Etiqueta creada con éxito!",
+  "Tag deleted successfully!": "¡Etiqueta eliminada con éxito!",
+  "Tags deleted successfully!": "¡Etiquetas eliminadas con éxito!",
+  "Tag doesn't exist": "La etiqueta no existe",
+  "Tag {0} does not exist!": "¡La etiqueta {0} no existe!",
+  "{0} is not the tagger for the following post: {1}!": "¡{0} no es quien etiquetó en la siguiente publicación: {1}!",
+  "{0} is already tagged in the following post: {1}!": "¡{0} ya está etiquetado en la siguiente publicación: {1}!",
+
+  // vote + applause
+
+  "Vote successfully created!": "¡Voto registrado con éxito!",
+  "Vote successfully deleted!": "¡Voto eliminado con éxito!",
+  "Votes successfully deleted!": "¡Votos eliminados con éxito!",
+  "vote removed": "voto retirado",
+  "vote value updated": "valor del voto actualizado",
+  "Applause counter successfully created!": "¡Contador de aplausos creado con éxito!",
+  "Applause counter deleted successfully!": "¡Contador de aplausos eliminado con éxito!",
+  "{0} already has applause counter!": "¡{0} ya tiene un contador de aplausos!",
+  "{0} doesn't have applause counter!": "¡{0} no tiene contador de aplausos!",
+
+  // connection
+
+  "Sent request!": "¡Solicitud enviada!",
+  "Accepted request!": "¡Solicitud aceptada!",
+  "Rejected request!": "¡Solicitud rechazada!",
+  "Removed request!": "¡Solicitud eliminada!",
+  "Removed connection!": "¡Conexión eliminada!",
+  "Successfully removed connections and requests!": "¡Conexiones y solicitudes eliminadas con éxito!",
+  "Connection request from {0} to {1} does not exist!": "¡No existe ninguna solicitud de conexión de {0} a {1}!",
+  "Connection request between {0} and {1} already exists!": "¡Ya existe una solicitud de conexión entre {0} y {1}!",
+  "Connection between {0} and {1} does not exist!": "¡No existe ninguna conexión entre {0} y {1}!",
+  "{0} and {1} are already connected!": "¡{0} y {1} ya están conectados!",
+
+  // opportunity
+
+  "Opportunity successfully created!": "¡Oportunidad creada con éxito!",
+  "Opportunity updated successfully!": "¡Oportunidad actualizada con éxito!",
+  "Opportunity deactivated successfully!": "¡Oportunidad desactivada con éxito!",
+  "Opportunities deactivated successfully!": "¡Oportunidades desactivadas con éxito!",
+  "Opportunity exipred -> deactivated successfully!": "¡La oportunidad venció y se desactivó con éxito!",
+  "Opportunity reactivated successfully!": "¡Oportunidad reactivada con éxito!",
+  "Opportunity moved to the trash!": "¡Oportunidad movida a la papelera!",
+  "Opportunity successfully restored!": "¡Oportunidad restaurada con éxito!",
+  "Opportunity ({0}) doesn't exist!": "¡La oportunidad ({0}) no existe!",
+  "Opportunity ({0}) isn't owned by {1}!": "¡La oportunidad ({0}) no pertenece a {1}!",
+  "No opportunity with id {0} in the trash!": "¡No hay ninguna oportunidad con id {0} en la papelera!",
+  "missing a required input (one of the following: title, description, start or end date)": "falta un dato obligatorio (uno de los siguientes: título, descripción, fecha de inicio o de fin)",
+  "{0} is greater than or equal to {1} which isn't a valid input!": "¡{0} es mayor o igual que {1}, lo cual no es válido!",
+  "Not owner of opportunity so can't access this information": "No eres el dueño de la oportunidad, así que no puedes ver esta información",
+
+  // application
+
+  "Application successfully created!": "¡Postulación creada con éxito!",
+  "status changed successfully": "estado cambiado con éxito",
+  "Successfully withdrawn all user's applications": "Todas las postulaciones del usuario se retiraron con éxito",
+  "User already applied to job!": "¡El usuario ya se postuló a este trabajo!",
+  "Owners of opportunities can't apply to their own listing": "Los dueños de una oportunidad no pueden postularse a ella",
+  "No applicants for this opportunity": "No hay postulantes para esta oportunidad",
+  "No application with id {0} found": "No se encontró ninguna postulación con id {0}",
+  "no application found": "no se encontró ninguna postulación",
+  "Not owner or applier. So can't view application": "No eres el dueño ni el postulante, así que no puedes ver la postulación",
+  "newStatusPrev must be either approved or rejected": "newStatusPrev debe ser approved o rejected",
+  "{0} withdrawing isn't the applier": "{0}, quien retira la postulación, no es el postulante",
+  "{0} can't change the status to {1} since they aren't the owner of the opportunity": "{0} no puede cambiar el estado a {1} porque no es dueño de la oportunidad",
+
+  // queue
+
+  "Queue successfully created!": "¡Fila creada con éxito!",
+  "Queue successfully deleted!": "¡Fila eliminada con éxito!",
+  "Queue successfully deleted all user's queues!": "¡Todas las filas del usuario se eliminaron con éxito!",
+  "Successfully Changed Limit": "Límite cambiado con éxito",
+  "Went through everyone in queue;": "Ya se atendió a todos en la fila;",
+  "There already exists a queue for {0}": "Ya existe una fila para {0}",
+  "There is no queue for {0}": "No hay ninguna fila para {0}",
+  "{0} is not the manager of this queue!": "¡{0} no administra esta fila!",
+  "{0} is not in the queue for {1}!": "¡{0} no está en la fila de {1}!",
+
+  // folder
+
+  "Pratice Folder successfully created!": "¡Carpeta de práctica creada con éxito!",
+  "Repertoire Folder successfully created!": "¡Carpeta de repertorio creada con éxito!",
+  "successfully added the item given": "el elemento se agregó con éxito",
+  "successfully removed the item given": "el elemento se quitó con éxito",
+  "successfully moved repertoire folder to the trash": "la carpeta de repertorio se movió a la papelera con éxito",
+  "successfully restored repertoire folder": "la carpeta de repertorio se restauró con éxito",
+  "Successfully deleted all folders for the user": "Todas las carpetas del usuario se eliminaron con éxito",
+  "Practice folder full! Remove before adding more": "¡La carpeta de práctica está llena! Quita algo antes de agregar más",
+  "There is no repertoire folder with id {0}": "No hay ninguna carpeta de repertorio con id {0}",
+  "No repertoire folder with id {0} in the trash!": "¡No hay ninguna carpeta de repertorio con id {0} en la papelera!",
+  "{0} already exists in this folder": "{0} ya está en esta carpeta",
+  "{0} doesn't exist in the contents of the folder given": "{0} no está entre los contenidos de la carpeta indicada",
+  "The user {0} doesn't have a practice folder yet": "El usuario {0} todavía no tiene una carpeta de práctica",
+  "The user {0} isn't the owner of this folder": "El usuario {0} no es el dueño de esta carpeta",
+  "{0} can't have more than one practice folder": "{0} no puede tener más de una carpeta de práctica",
+
+  // portfolio + media
+
+  "Portfolio successfully created!": "¡Portafolio creado con éxito!",
+  "Porfolio updated successfully!": "¡Portafolio actualizado con éxito!",
+  "Porfolio has been successfully deleted": "El portafolio se eliminó con éxito",
+  "successfully updated headshot": "foto de perfil actualizada con éxito",
+  "successfully added the media given": "el archivo se agregó con éxito",
+  "successfully removed the media given": "el archivo se quitó con éxito",
+  "{0} already has a portfolio! They can't have 2": "¡{0} ya tiene un portafolio! No puede tener 2",
+  "The media given doesn't exist in the media of the portfolio": "El archivo indicado no está entre los archivos del portafolio",
+  "Deleted media successfully": "Archivo eliminado con éxito",
+  "Deleted all media successfully": "Todos los archivos se eliminaron con éxito",
+  "No media with id {0} exists": "No existe ningún archivo con id {0}",
+  "can't leave url empty for media": "la URL del archivo no puede estar vacía",
+  "Media links must be Google Drive links. The current link isn't: {0}": "Los enlaces de archivos deben ser de Google Drive. Este enlace no lo es: {0}",
+
+  // challenge
+
+  "Challenge Proposal successfully created!": "¡Propuesta de desafío creada con éxito!",
+  "Challenge successfully posted!": "¡Desafío publicado con éxito!",
+  "No proposed challenges to select from!": "¡No hay desafíos propuestos para elegir!",
+  "Invalid metrics token!": "¡Token de métricas no válido!",
+  "Metrics are only served in production once METRICS_TOKEN is set!": "¡En producción, las métricas solo se sirven una vez configurado METRICS_TOKEN!",
+  "there is a required field that's empty": "hay un campo obligatorio vacío",
+};
+
+export default es;
@@ -0,0 +1,214 @@
+import { Catalog } from "../framework/i18n";
+
+const fr: Catalog = {
+  // framework
+
+  "Invalid values for: {0}": "Valeurs invalides pour : {0}",
+  "Invalid page cursor '{0}'!": "Curseur de page '{0}' invalide !",
+  'If-Match {0} is not the ETag of a version of the document, expected one like "3"!': "If-Match {0} n'est pas l'ETag d'une version du document, un ETag comme \"3\" était attendu !",
+  "'{0}' was changed by someone else: expected version {1} but it is at version {2}!": "'{0}' a été modifié par quelqu'un d'autre : version {1} attendue mais la version actuelle est {2} !",
+  "{0} with {1} already exists!": "{0} avec {1} existe déjà !",
+  "{0} {1} responds itself, so it can't be in a batch!": "{0} {1} répond lui-même, il ne peut donc pas faire partie d'un lot !",
+  "A batch takes a list of 1 to {0} requests!": "Un lot accepte une liste de 1 à {0} requêtes !",
+  "Invalid request {0} in the batch, expected a method ({1}) and a path starting with /!": "Requête {0} du lot invalide, une méthode ({1}) et un chemin commençant par / sont attendus !",
+  "Request {0} in the batch can't be another batch!": "La requête {0} du lot ne peut pas être un autre lot !",
+  "Request {0} in the batch refers to request {1}, which doesn't come before it!": "La requête {0} du lot fait référence à la requête {1}, qui ne la précède pas !",
+  "Request {0} in the batch refers to request {1}, which failed!": "La requête {0} du lot fait référence à la requête {1}, qui a échoué !",
+  "Request {0} in the batch refers to {1}, which the result of request {2} doesn't have!": "La requête {0} du lot fait référence à {1}, que le résultat de la requête {2} n'a pas !",
+  "Job {0} doesn't exist!": "La tâche {0} n'existe pas !",
+  "Job {0} will run shortly!": "La tâche {0} va bientôt s'exécuter !",
+  "The file isn't a valid zip archive!": "Le fichier n'est pas une archive zip valide !",
+  "The archive unpacks to more than {0} MB!": "L'archive décompressée dépasse {0} Mo !",
+  "{0} in the archive isn't valid JSON!": "{0} dans l'archive n'est pas du JSON valide !",
+  "{0} in the archive isn't valid!": "{0} dans l'archive n'est pas valide !",
+  "The file isn't a Stagelights export!": "Le fichier n'est pas un export Stagelights !",
+  "The export was made by a newer version of Stagelights!": "L'export a été fait par une version plus récente de Stagelights !",
+  "Data can only be imported into a new account, without posts, repertoire folders or media!":
+    "Les données ne peuvent être importées que dans un nouveau compte, sans publications, dossiers de répertoire ni médias !",
+  "Send the archive as the body of the request, with the application/zip content type!": "Envoyez l'archive dans le corps de la requête, avec le type de contenu application/zip !",
+  "Successfully imported your data!": "Vos données ont été importées avec succès !",
+  "The search '{0}' has no words to look for!": "La recherche '{0}' n'a aucun mot à chercher !",
+  "Can't search {0}!": "Impossible de chercher {0} !",
+  "route doesn't exist": "cette route n'existe pas",
+  "Replayed {0} events!": "{0} événements rejoués !",
+  "Permanently deleted {0} items from the trash!": "{0} éléments supprimés définitivement de la corbeille !",
+
+  // user + session
+
+  "User created successfully!": "Utilisateur créé avec succès !",
+  "User updated successfully!": "Utilisateur mis à jour avec succès !",
+  "Successfully updated user": "Utilisateur mis à jour avec succès",
+  "User deleted!": "Utilisateur supprimé !",
+  "User with email {0} already exists!": "Un utilisateur avec l'adresse {0} existe déjà !",
+  "Email and password must be non-empty!": "L'adresse e-mail et le mot de passe ne doivent pas être vides !",
+  "Email or password is incorrect.": "Adresse e-mail ou mot de passe incorrect.",
+  "Successfully authenticated.": "Authentification réussie.",
+  "Cannot update '{0}' field!": "Impossible de modifier le champ '{0}' !",
+  "Unsupported locale {0}! Supported locales are: {1}": "Langue {0} non prise en charge ! Les langues disponibles sont : {1}",
+  "Logged in!": "Connecté !",
+  "Logged out!": "Déconnecté !",
+  "Must be logged in!": "Vous devez être connecté !",
+  "Must be logged in": "Vous devez être connecté",
+  "Must be logged out!": "Vous devez être déconnecté !",
+
+  // restrictions
+
+  "Restriction successfully created!": "Restrictions créées avec succès !",
+  "successfully updated restrictions": "restrictions mises à jour avec succès",
+  "successfully deleted restrictions": "restrictions supprimées avec succès",
+  "User isn't of type: {0}": "L'utilisateur n'est pas de type : {0}",
+  "{0} already has initialized restrictions": "{0} a déjà initialisé ses restrictions",
+  "{0} hasn't initialized restrictions": "{0} n'a pas initialisé ses restrictions",
+
+  // focused post
+
+  "Focused post successfully created!": "Publication créée avec succès !",
+  "Focused post successfully updated!": "Publication mise à jour avec succès !",
+  "Focused post moved to the trash!": "Publication déplacée dans la corbeille !",
+  "Focused post successfully restored!": "Publication restaurée avec succès !",
+  "successfully deleted all user's posts": "toutes les publications de l'utilisateur ont été supprimées",
+  "Focused post {0} does not exist!": "La publication {0} n'existe pas !",
+  "Post with id {0} doesn't exist": "Aucune publication avec l'id {0}",
+  "No post with id {0} in the trash!": "Aucune publication avec l'id {0} dans la corbeille !",
+  "{0} is not the author of focused post {1}!": "{0} n'est pas l'auteur de la publication {1} !",
+  "Category successfully created!": "Catégorie créée avec succès !",
+  "successfully deleted category and its posts": "la catégorie et ses publications ont été supprimées",
+  "'{0}' category already exists": "la catégorie '{0}' existe déjà",
+  "'{0}' category not found": "catégorie '{0}' introuvable",
+  "Name or description of category missing": "Le nom ou la description de la catégorie est manquant",
+
+  // comment
+
+  "Comment successfully created!": "Commentaire créé avec succès !",
+  "Comment successfully updated!": "Commentaire mis à jour avec succès !",
+  "Comment moved to the trash!": "Commentaire déplacé dans la corbeille !",
+  "Comment successfully restored!": "Commentaire restauré avec succès !",
+  "Comment deleted successfully!": "Commentaire supprimé avec succès !",
+  "Comment {0} does not exist!": "Le commentaire {0} n'existe pas !",
+  "No comment with id {0} in the trash!": "Aucun commentaire avec l'id {0} dans la corbeille !",
+  "{0} is not the author of comment {1}!": "{0} n'est pas l'auteur du commentaire {1} !",
+
+  // tag
+
+  "Tag successfully created!": "Identification créée avec succès !",
+  "Tag deleted successfully!": "Identification supprimée avec succès !",
+  "Tags deleted successfully!": "Identifications supprimées avec succès !",
+  "Tag doesn't exist": "L'identification n'existe pas",
+  "Tag {0} does not exist!": "L'identification {0} n'existe pas !",
+  "{0} is not the tagger for the following post: {1}!": "{0} n'est pas l'auteur de l'identification dans la publication suivante : {1} !",
+  "{0} is already tagged in the following post: {1}!": "{0} est déjà identifié dans la publication suivante : {1} !",
+
+  // vote + applause
+
+  "Vote successfully created!": "Vote enregistré avec succès !",
+  "Vote successfully deleted!": "Vote supprimé avec succès !",
+  "Votes successfully deleted!": "Votes supprimés avec succès !",
+  "vote removed": "vote retiré",
+  "vote value updated": "valeur du vote mise à jour",
+  "Applause counter successfully created!": "Compteur d'applaudissements créé avec succès !",
+  "Applause counter deleted successfully!": "Compteur d'applaudissements supprimé avec succès !",
+  "{0} already has applause counter!": "{0} a déjà un compteur d'applaudissements !",
+  "{0} doesn't have applause counter!": "{0} n'a pas de compteur d'applaudissements !",
+
+  // connection
+
+  "Sent request!": "Demande envoyée !",
+  "Accepted request!": "Demande acceptée !",
+  "Rejected request!": "Demande refusée !",
+  "Removed request!": "Demande supprimée !",
+  "Removed connection!": "Connexion supprimée !",
+  "Successfully removed connections and requests!": "Connexions et demandes supprimées avec succès !",
+  "Connection request from {0} to {1} does not exist!": "Il n'y a pas de demande de connexion de {0} à {1} !",
+  "Connection request between {0} and {1} already exists!": "Une demande de connexion entre {0} et {1} existe déjà !",
+  "Connection between {0} and {1} does not exist!": "Il n'y a pas de connexion entre {0} et {1} !",
+  "{0} and {1} are already connected!": "{0} et {1} sont déjà connectés !",
+
+  // opportunity
+
+  "Opportunity successfully created!": "Offre créée avec succès !",
+  "Opportunity updated successfully!": "Offre mise à jour avec succès !",
+  "Opportunity deactivated successfully!": "Offre désactivée avec succès !",
+  "Opportunities deactivated successfully!": "Offres désactivées avec succès !",
+  "Opportunity exipred -> deactivated successfully!": "L'offre a expiré et a été désactivée avec succès !",
+  "Opportunity reactivated successfully!": "Offre réactivée avec succès !",
+  "Opportunity moved to the trash!": "Offre déplacée dans la corbeille !",
+  "Opportunity successfully restored!": "Offre restaurée avec succès !",
+  "Opportunity ({0}) doesn't exist!": "L'offre ({0}) n'existe pas !",
+  "Opportunity ({0}) isn't owned by {1}!": "L'offre ({0}) n'appartient pas à {1} !",
+  "No opportunity with id {0} in the trash!": "Aucune offre avec l'id {0} dans la corbeille !",
+  "missing a required input (one of the following: title, description, start or end date)": "une donnée obligatoire est manquante (l'une des suivantes : titre, description, date de début ou de fin)",
+  "{0} is greater than or equal to {1} which isn't a valid input!": "{0} est supérieur ou égal à {1}, ce qui n'est pas valide !",
+  "Not owner of opportunity so can't access this information": "Vous n'êtes pas propriétaire de l'offre et ne pouvez donc pas voir ces informations",
+
+  // application
+
+  "Application successfully created!": "Candidature créée avec succès !",
+  "status changed successfully": "statut modifié avec succès",
+  "Successfully withdrawn all user's applications": "Toutes les candidatures de l'utilisateur ont été retirées",
+  "User already applied to job!": "L'utilisateur a déjà postulé à cette offre !",
+  "Owners of opportunities can't apply to their own listing": "Les propriétaires d'une offre ne peuvent pas y postuler",
+  "No applicants for this opportunity": "Aucun candidat pour cette offre",
+  "No application with id {0} found": "Aucune candidature avec l'id {0}",
+  "no application found": "aucune candidature trouvée",
+  "Not owner or applier. So can't view application": "Vous n'êtes ni le propriétaire ni le candidat et ne pouvez donc pas voir la candidature",
+  "newStatusPrev must be either approved or rejected": "newStatusPrev doit valoir approved ou rejected",
+  "{0} withdrawing isn't the applier": "{0}, qui retire la candidature, n'en est pas l'auteur",
+  "{0} can't change the status to {1} since they aren't the owner of the opportunity": "{0} ne peut pas changer le statut en {1} car il n'est pas propriétaire de l'offre",
+
+  // queue
+
+  "Queue successfully created!": "File d'attente créée avec succès !",
+  "Queue successfully deleted!": "File d'attente supprimée avec succès !",
+  "Queue successfully deleted all user's queues!": "Toutes les files d'attente de l'utilisateur ont été supprimées !",
+  "Successfully Changed Limit": "Limite modifiée avec succès",
+  "Went through everyone in queue;": "Tout le monde dans la file d'attente a été vu ;",
+  "There already exists a queue for {0}": "Il existe déjà une file d'attente pour {0}",
+  "There is no queue for {0}": "Il n'y a pas de file d'attente pour {0}",
+  "{0} is not the manager of this queue!": "{0} ne gère pas cette file d'attente !",
+  "{0} is not in the queue for {1}!": "{0} n'est pas dans la file d'attente de {1} !",
+
+  // folder
+
+  "Pratice Folder successfully created!": "Dossier d'entraînement créé avec succès !",
+  "Repertoire Folder successfully created!": "Dossier de répertoire créé avec succès !",
+  "successfully added the item given": "l'élément a été ajouté avec succès",
+  "successfully removed the item given": "l'élément a été retiré avec succès",
+  "successfully moved repertoire folder to the trash": "le dossier de répertoire a été déplacé dans la corbeille",
+  "successfully restored repertoire folder": "le dossier de répertoire a été restauré",
+  "Successfully deleted all folders for the user": "Tous les dossiers de l'utilisateur ont été supprimés",
+  "Practice folder full! Remove before adding more": "Le dossier d'entraînement est plein ! Retirez des éléments avant d'en ajouter",
+  "There is no repertoire folder with id {0}": "Il n'y a pas de dossier de répertoire avec l'id {0}",
+  "No repertoire folder with id {0} in the trash!": "Aucun dossier de répertoire avec l'id {0} dans la corbeille !",
+  "{0} already exists in this folder": "{0} est déjà dans ce dossier",
+  "{0} doesn't exist in the contents of the folder given": "{0} ne fait pas partie du contenu du dossier indiqué",
+  "The user {0} doesn't have a practice folder yet": "L'utilisateur {0} n'a pas encore de dossier d'entraînement",
+  "The user {0} isn't the owner of this folder": "L'utilisateur {0} n'est pas le propriétaire de ce dossier",
+  "{0} can't have more than one practice folder": "{0} ne peut pas avoir plus d'un dossier d'entraînement",
+
+  // portfolio + media
+
+  "Portfolio successfully created!": "Portfolio créé avec succès !",
+  "Porfolio updated successfully!": "Portfolio mis à jour avec succès !",
+  "Porfolio has been successfully deleted": "Le portfolio a été supprimé avec succès",
+  "successfully updated headshot": "photo de profil mise à jour avec succès",
+  "successfully added the media given": "le média a été ajouté avec succès",
+  "successfully removed the media given": "le média a été retiré avec succès",
+  "{0} already has a portfolio! They can't have 2": "{0} a déjà un portfolio ! Impossible d'en avoir 2",
+  "The media given doesn't exist in the media of the portfolio": "Le média indiqué ne fait pas partie des médias du portfolio",
+  "Deleted media successfully": "Média supprimé avec succès",
+  "Deleted all media successfully": "Tous les médias ont été supprimés avec succès",
+  "No media with id {0} exists": "Aucun média avec l'id {0}",
+  "can't leave url empty for media": "l'URL du média ne peut pas être vide",
+  "Media links must be Google Drive links. The current link isn't: {0}": "Les liens des médias doivent être des liens Google Drive. Ce lien n'en est pas un : {0}",
+
+  // challenge
+
+  "Challenge Proposal successfully created!": "Proposition de défi créée avec succès !",
+  "Challenge successfully posted!": "Défi publié avec succès !",
+  "No proposed challenges to select from!": "Aucun défi proposé parmi lequel choisir !",
+  "Invalid metrics token!": "Jeton de métriques invalide !",
+  "Metrics are only served in production once METRICS_TOKEN is set!": "En production, les métriques ne sont servies qu'une fois METRICS_TOKEN défini !",
+  "there is a required field that's empty": "un champ obligatoire est vide",
+};
+
+export default fr;
@@ -0,0 +1,10 @@
+import { registerCatalog } from "../framework/i18n";
+
+import es from "./es";
+import fr from "./fr";
+
+/**
+ * Every translation of the app's messages. Messages missing from a catalog are sent in English.
+ */
+registerCatalog("es", es);
+registerCatalog("fr", fr);
@@ -0,0 +1,25 @@
+import { Document } from "mongodb";
+
+import { Migration } from "../framework/migrations";
+
+/**
+ * Practice folders used to only have `contents`; `numContents` now caches how many items they hold.
+ */
+const migration: Migration = {
+  name: "001-practice-folder-counts",
+
+  async up(storage) {
+    const folders = storage.collection<Document>("practice folders");
+    for (const folder of await folders.find({})) {
+      if (folder.numContents !== folder.contents.length) {
+        await folders.updateOne({ _id: folder._id }, { $set: { numContents: folder.contents.length } });
+      }
+    }
+  },
+
+  async down(storage) {
+    await storage.collection<Document>("practice folders").updateMany({}, { $unset: { numContents: "" } });
+  },
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+import { Document } from "mongodb";
+
+import { Migration } from "../framework/migrations";
+
+/**
+ * `UserDoc.profilePic` used to be the url of the picture; it is now the id of a media document holding the url.
+ */
+const migration: Migration = {
+  name: "002-profile-pic-media",
+
+  async up(storage) {
+    const users = storage.collection<Document>("users");
+    const medias = storage.collection<Document>("medias");
+    for (const user of await users.find({})) {
+      if (typeof user.profilePic === "string") {
+        const now = new Date();
+        const media = await medias.insertOne({ user: user._id, url: user.profilePic, dateCreated: now, dateUpdated: now });
+        await users.updateOne({ _id: user._id }, { $set: { profilePic: media } });
+      }
+    }
+  },
+
+  async down(storage) {
+    const users = storage.collection<Document>("users");
+    const medias = storage.collection<Document>("medias");
+    const portfolios = storage.collection<Document>("portfolios");
+    for (const user of await users.find({})) {
+      const media = user.profilePic && (await medias.findOne({ _id: user.profilePic }));
+      if (media) {
+        await users.updateOne({ _id: user._id }, { $set: { profilePic: media.url } });
+        // New accounts use the same media as their headshot, which must stay.
+        if (!(await portfolios.findOne({ $or: [{ headshot: media._id }, { media: media._id }] }))) {
+          await medias.deleteOne({ _id: media._id });
+        }
+      }
+    }
+  },
+};
+
+export default migration;
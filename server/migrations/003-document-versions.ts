@@ -0,0 +1,49 @@
+import { Document } from "mongodb";
+
+import { Migration } from "../framework/migrations";
+
+// Every collection that existed when documents got a `version`.
+const collections = [
+  "applauses",
+  "applications",
+  "audit log",
+  "comments",
+  "connection",
+  "connectionRequests",
+  "focused post categories",
+  "focused posts",
+  "medias",
+  "migrations",
+  "opportunities",
+  "portfolios",
+  "posted challenges",
+  "practice folders",
+  "proposed challenges",
+  "queues",
+  "repertoire folders",
+  "restrictions",
+  "tags",
+  "users",
+  "votes",
+];
+
+/**
+ * Documents created before optimistic concurrency control have no `version`, so conditional updates could never match them.
+ */
+const migration: Migration = {
+  name: "003-document-versions",
+
+  async up(storage) {
+    for (const name of collections) {
+      await storage.collection<Document>(name).updateMany({ version: { $exists: false } }, { $set: { version: 1 } });
+    }
+  },
+
+  async down(storage) {
+    for (const name of collections) {
+      await storage.collection<Document>(name).updateMany({}, { $unset: { version: "" } });
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,12 @@
+import { Migration } from "../framework/migrations";
+
+import practiceFolderCounts from "./001-practice-folder-counts";
+import profilePicMedia from "./002-profile-pic-media";
+import documentVersions from "./003-document-versions";
+
+/**
+ * Every migration of the app. Add new ones at the end, named after their file.
+ */
+const migrations: Migration[] = [practiceFolderCounts, profilePicMedia, documentVersions];
+
+export default migrations;
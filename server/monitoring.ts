@@ -0,0 +1,71 @@
+import express from "express";
+import { Store } from "express-session";
+
+import { NotAllowedError, UnauthenticatedError } from "./concepts/errors";
+import { client } from "./db";
+import { negotiateLocale } from "./framework/i18n";
+import { renderMetrics } from "./framework/metrics";
+import { Router } from "./framework/router";
+
+/** How long `/ready` waits for each dependency before considering it unreachable. */
+const CHECK_TIMEOUT_MS = 2000;
+
+/**
+ * Runs `probe`, reporting whether it succeeded in time and how long it took.
+ */
+async function check(probe: () => Promise<unknown>) {
+  const start = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No answer after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+  });
+  try {
+    await Promise.race([probe(), timeout]);
+    return { ok: true, ms: Date.now() - start };
+  } catch (e) {
+    return { ok: false, ms: Date.now() - start, error: e instanceof Error ? e.message : String(e) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Builds the router of the endpoints for monitoring the app, meant for load balancers, orchestrators and Prometheus rather than users:
+ * - `GET /health`: whether the process is up (liveness),
+ * - `GET /ready`: whether it can serve requests, i.e. MongoDB answers a ping and the session `store` can be read (readiness), 503 if not,
+ * - `GET /metrics`: request latencies, errors and database operation timings in the Prometheus text format.
+ *   Requires `Authorization: Bearer <METRICS_TOKEN>` if `METRICS_TOKEN` is set, and is refused in production (`NODE_ENV=production`) if it isn't.
+ */
+export function getMonitoringRouter(store: Store) {
+  const router = express.Router();
+
+  router.get("/health", (req, res) => {
+    res.json({ status: "ok", uptime: process.uptime() });
+  });
+
+  router.get("/ready", async (req, res) => {
+    const [database, sessions] = await Promise.all([
+      // Without MongoDB the data is in memory, which is always there.
+      check(async () => await client?.db("admin").command({ ping: 1 })),
+      check(() => new Promise<void>((resolve, reject) => store.get("readiness-check", (error) => (error ? reject(error) : resolve())))),
+    ]);
+    const ready = database.ok && sessions.ok;
+    res.status(ready ? 200 : 503).json({ status: ready ? "ready" : "unavailable", checks: { database: { storage: client ? "mongodb" : "memory", ...database }, sessions } });
+  });
+
+  router.get("/metrics", async (req, res) => {
+    const token = process.env.METRICS_TOKEN;
+    const error = !token
+      ? process.env.NODE_ENV === "production" && new NotAllowedError("Metrics are only served in production once METRICS_TOKEN is set!")
+      : req.get("Authorization") !== `Bearer ${token}` && new UnauthenticatedError("Invalid metrics token!");
+    if (error) {
+      // Monitoring comes before sessions and request logging, so there is neither a user's locale nor a request id.
+      const { status, body } = await Router.errorResponse(error, negotiateLocale(undefined, req.get("Accept-Language")), "");
+      res.status(status).json(body);
+      return;
+    }
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  });
+
+  return router;
+}
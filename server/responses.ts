@@ -2,6 +2,7 @@ import { ObjectId } from "mongodb";
 import { Comment, FocusedPost, Media, Opportunity, User } from "./app";
 import { ApplauseDoc, NoCounterError, UserExistsError } from "./concepts/applause";
 import { ApplicationDoc, NotApplierError, NotOwnerError } from "./concepts/application";
+import { AuditDoc } from "./concepts/audit";
 import { ChallengeDoc } from "./concepts/challenge";
 import { CommentAuthorNotMatchError, CommentDoc } from "./concepts/comment";
 import { AlreadyConnectedError, ConnectionDoc, ConnectionNotFoundError, ConnectionRequestAlreadyExistsError, ConnectionRequestDoc, ConnectionRequestNotFoundError } from "./concepts/connection";
@@ -14,10 +15,21 @@ import { AlreadyInitializedError, NoRestrictionsError, RestrictionDoc } from "./
 import { DuplicatedTagError, TagDoc, TaggerNotMatchError } from "./concepts/tag";
 import { UserDoc } from "./concepts/user";
 import { VoteDoc } from "./concepts/vote";
+import { Page } from "./framework/doc";
 import { Router } from "./framework/router";
 
+/**
+ * Splits `values`, looked up for the items of all `lists` at once, back into lists like `lists`.
+ */
+function splitLike<T>(lists: unknown[][], values: T[]) {
+  let start = 0;
+  return lists.map((list) => values.slice(start, (start += list.length)));
+}
+
 /**
  * This class does useful conversions for the frontend.
+ * The conversions for arrays look up what they need for all the documents at once,
+ * with the concepts' batched lookups (see `DocCollection.readByIds`), so converting more documents doesn't query more.
  * For example, it converts a {@link PostDoc} into a more readable format for the frontend.
  */
 export default class Responses {
@@ -60,9 +72,11 @@ export default class Responses {
    * Same as {@link post} but for an array of FocusedPostDoc for improved performance.
    */
   static async posts(posts: FocusedPostDoc[]) {
-    const authors = await User.idsToNames(posts.map((post) => post.author));
-    const categories = await Promise.all(posts.map(async (post) => await FocusedPost.getCategory(post.category)));
-    const media = await Promise.all(posts.map(async (post) => await this.media(post.media)));
+    const [authors, categories, media] = await Promise.all([
+      User.idsToNames(posts.map((post) => post.author)),
+      FocusedPost.getCategories(posts.map((post) => post.category)),
+      this.mediaLists(posts.map((post) => post.media)),
+    ]);
     return posts.map((post, i) => ({ ...post, author: authors[i], category: categories[i], media: media[i] }));
   }
 
@@ -104,10 +118,10 @@ export default class Responses {
    * Same as {@link tag} but for an array of TagDoc for improved performance.
    */
   static async tags(tags: TagDoc[]) {
-    const taggers = await User.idsToNames(tags.map((tag) => tag.tagger));
-    const tagged = await User.idsToNames(tags.map((tag) => tag.tagged));
-    const posts = await Promise.all(tags.map(async (tag) => await this.post(await FocusedPost.getById(tag.post))));
-    return tags.map((tag, i) => ({ ...tag, tagger: taggers[i], tagged: tagged[i], post: posts[i] }));
+    const posts = await this.posts(await FocusedPost.getByIds(tags.map((tag) => tag.post)));
+    const [taggers, tagged] = await Promise.all([User.idsToNames(tags.map((tag) => tag.tagger)), User.idsToNames(tags.map((tag) => tag.tagged))]);
+    // Like `tag`, with the name of the post's category.
+    return tags.map((tag, i) => ({ ...tag, tagger: taggers[i], tagged: tagged[i], post: { ...posts[i], category: posts[i].category.name } }));
   }
 
   /**
@@ -188,6 +202,13 @@ export default class Responses {
     return await Media.idsToURLs(media);
   }
 
+  /**
+   * Same as {@link media} but for several arrays of ObjectIds at once, e.g. the media of each post.
+   */
+  static async mediaLists(lists: ObjectId[][]) {
+    return splitLike(lists, await this.media(lists.flat()));
+  }
+
   /**
    * Convert ApplicationDoc into more readable format for the frontend by converting
    * the user ids into names, opportunity ids to titles and media to URLs.
@@ -207,10 +228,12 @@ export default class Responses {
    * Same as {@link application} but for an array of ApplicationDoc for improved performance.
    */
   static async applications(applications: ApplicationDoc[]) {
-    const owners = await User.idsToNames(applications.map((application) => application.owner));
-    const users = await User.idsToNames(applications.map((application) => application.user));
-    const opportunities = await Promise.all(applications.map(async (application) => (await Opportunity.getById(application.applicationFor))?.title ?? "DELETED"));
-    const media = await Promise.all(applications.map(async (application) => await this.media(application.media)));
+    const [owners, users, opportunities, media] = await Promise.all([
+      User.idsToNames(applications.map((application) => application.owner)),
+      User.idsToNames(applications.map((application) => application.user)),
+      Opportunity.idsToTitles(applications.map((application) => application.applicationFor)),
+      this.mediaLists(applications.map((application) => application.media)),
+    ]);
     return applications.map((application, i) => ({ ...application, owner: owners[i], user: users[i], applicationFor: opportunities[i], media: media[i] }));
   }
 
@@ -222,20 +245,21 @@ export default class Responses {
     if (!portfolio) {
       return portfolio;
     }
-    const user = await User.getUserById(portfolio.user);
-    const headshot = await this.oneMedia(portfolio.headshot);
-    const media = await Promise.all(portfolio.media.map(async (media) => await Media.getMediaById(media)));
-    return { ...portfolio, user, headshot, media };
+    return (await this.portfolios([portfolio]))[0];
   }
 
   /**
    * Same as {@link portfolio} but for an array of PortfolioDoc for improved performance.
    */
   static async portfolios(portfolios: PortfolioDoc[]) {
-    const users = await Promise.all(portfolios.map(async (portfolio) => await User.getUserById(portfolio.user)));
-    const headshots = await Promise.all(portfolios.map(async (portfolio) => await this.oneMedia(portfolio.headshot)));
-    const media = await Promise.all(portfolios.map(async (portfolio) => await Promise.all(portfolio.media.map(async (media) => await Media.getMediaById(media)))));
-    return portfolios.map((portfolio, i) => ({ ...portfolio, user: users[i], headshot: headshots[i], media: media[i] }));
+    const lists = portfolios.map((portfolio) => portfolio.media);
+    const [users, headshots, media] = await Promise.all([
+      User.getUsersByIds(portfolios.map((portfolio) => portfolio.user)),
+      this.media(portfolios.map((portfolio) => portfolio.headshot)),
+      Media.getMediaByIds(lists.flat()),
+    ]);
+    const mediaLists = splitLike(lists, media);
+    return portfolios.map((portfolio, i) => ({ ...portfolio, user: users[i], headshot: headshots[i], media: mediaLists[i] }));
   }
 
   /**
@@ -254,7 +278,7 @@ export default class Responses {
    * Same as {@link folder} but for an array of FolderDoc for improved performance.
    */
   static async folders(folders: FolderDoc[] | PraticeFolderDoc[]) {
-    const users = await Promise.all(folders.map(async (folder) => await User.getUserById(folder.user)));
+    const users = await User.getUsersByIds(folders.map((folder) => folder.user));
     return folders.map((folder, i) => ({ ...folder, user: users[i] }));
   }
 
@@ -276,10 +300,14 @@ export default class Responses {
    * Same as {@link queue} but for an array of QueueDoc for improved performance.
    */
   static async queues(queues: QueueDoc[]) {
-    const queueManagers = await User.idsToNames(queues.map((queue) => queue.queueManager));
-    const queueFor = await Promise.all(queues.map(async (queue) => await User.idsToNames(queue.queue)));
-    const queued = await Promise.all(queues.map(async (queue) => await User.idsToNames(queue.queue)));
-    return queues.map((queue, i) => ({ ...queue, queueManager: queueManagers[i], queueFor: queueFor[i], queue: queued[i] }));
+    const lists = queues.map((queue) => queue.queue);
+    const [queueManagers, queueFor, queued] = await Promise.all([
+      User.idsToNames(queues.map((queue) => queue.queueManager)),
+      Opportunity.idsToTitles(queues.map((queue) => queue.queueFor)),
+      User.idsToNames(lists.flat()),
+    ]);
+    const queuedLists = splitLike(lists, queued);
+    return queues.map((queue, i) => ({ ...queue, queueManager: queueManagers[i], queueFor: queueFor[i], queue: queuedLists[i] }));
   }
 
   /**
@@ -319,9 +347,10 @@ export default class Responses {
    * Same as {@link vote} but for an array of VoteDoc for improved performance.
    */
   static async votes(votes: VoteDoc[]) {
+    const posts = await this.posts(await FocusedPost.getByIds(votes.map((vote) => vote.parent)));
     const users = await User.idsToNames(votes.map((vote) => vote.user));
-    const posts = await Promise.all(votes.map(async (vote) => await this.post(await FocusedPost.getById(vote.parent))));
-    return votes.map((vote, i) => ({ ...vote, user: users[i], post: posts[i] }));
+    // Like `vote`, with the name of the post's category.
+    return votes.map((vote, i) => ({ ...vote, user: users[i], post: { ...posts[i], category: posts[i].category.name } }));
   }
 
   /**
@@ -329,10 +358,7 @@ export default class Responses {
    * by converting the ids into names.
    */
   static async connectionRequests(requests: ConnectionRequestDoc[]) {
-    const from = requests.map((request) => request.from);
-    const fromUsers = await User.idsToUsers(from);
-    const to = requests.map((request) => request.to);
-    const toUsers = await User.idsToUsers(to);
+    const [fromUsers, toUsers] = await Promise.all([User.idsToUsers(requests.map((request) => request.from)), User.idsToUsers(requests.map((request) => request.to))]);
     return requests.map((request, i) => ({ ...request, from: fromUsers[i], to: toUsers[i] }));
   }
 
@@ -341,12 +367,26 @@ export default class Responses {
    * by converting the ids into names.
    */
   static async connection(connections: ConnectionDoc[]) {
-    const user1 = connections.map((request) => request.user1);
-    const user1Users = await User.idsToUsers(user1);
-    const user2 = connections.map((request) => request.user2);
-    const user2Users = await User.idsToUsers(user2);
+    const [user1Users, user2Users] = await Promise.all([User.idsToUsers(connections.map((request) => request.user1)), User.idsToUsers(connections.map((request) => request.user2))]);
     return connections.map((connection, i) => ({ ...connection, user1: user1Users[i], user2: user2Users[i] }));
   }
+
+  /**
+   * Convert AuditDocs into more readable format for the frontend
+   * by converting the ids of the users who made the changes into names.
+   */
+  static async auditEntries(entries: AuditDoc[]) {
+    const users = await User.idsToNames(entries.map((entry) => entry.user ?? new ObjectId()));
+    return entries.map((entry, i) => ({ ...entry, user: entry.user ? users[i] : undefined }));
+  }
+
+  /**
+   * Convert the items of a {@link Page} with one of the conversions for arrays above,
+   * e.g. `Responses.page(posts, Responses.posts)`.
+   */
+  static async page<T, R>(page: Page<T>, convert: (this: typeof Responses, items: T[]) => Promise<R[]>) {
+    return { items: await convert.call(this, page.items), nextCursor: page.nextCursor };
+  }
 }
 
 // focused post
@@ -1,106 +1,202 @@
+import { Request, Response } from "express";
 import { ObjectId } from "mongodb";
 
+import { transaction } from "./framework/doc";
+import { getEvents, replay } from "./framework/events";
+import { getJobRuns, getJobs, runJobSoon } from "./framework/jobs";
+import { FormattableMessage, getLocales } from "./framework/i18n";
+import { PAGE_PARAMS } from "./framework/params";
 import { Router, getExpressRouter } from "./framework/router";
-
-import { Applause, Application, Challenge, Comment, Connection, FocusedPost, Folder, Media, Opportunity, Portfolio, Queue, Restrictions, Tag, User, Vote, WebSession } from "./app";
-import { BadValuesError } from "./concepts/errors";
-import { FocusedPostDoc } from "./concepts/focusedPost";
-import { OpportunityDoc, Requirements } from "./concepts/opportunity";
-import { PortfolioDoc } from "./concepts/portfolio";
+import { openStream } from "./framework/stream";
+import { createZip, readZip } from "./framework/zip";
+
+import { Applause, Application, Audit, Challenge, Comment, Connection, FocusedPost, Folder, Media, Opportunity, Portfolio, Queue, Restrictions, Search, Tag, User, Vote, WebSession } from "./app";
+import { NoCounterError, UserExistsError } from "./concepts/applause";
+import { NotApplierError, NotOwnerError } from "./concepts/application";
+import { CommentAuthorNotMatchError } from "./concepts/comment";
+import { AlreadyConnectedError, ConnectionNotFoundError, ConnectionRequestAlreadyExistsError, ConnectionRequestNotFoundError } from "./concepts/connection";
+import { BadValuesError, ConflictError, NotAllowedError, NotFoundError, UnauthenticatedError } from "./concepts/errors";
+import { FocusedPostAuthorNotMatchError, FocusedPostDoc } from "./concepts/focusedPost";
+import { HasPracticeFolderError, NoPracticeFolderError, NotFolderOwnerError, NotInFolderError } from "./concepts/folder";
+import { NotOpportunityOwnerError, OpportunityDoc, Requirements } from "./concepts/opportunity";
+import { HasPortfolioError, NoPortfolioError, PortfolioDoc } from "./concepts/portfolio";
+import { AlreadyInitializedError, NoRestrictionsError } from "./concepts/restrictions";
+import { DuplicatedTagError, TaggerNotMatchError } from "./concepts/tag";
 import { UserDoc } from "./concepts/user";
 import { WebSessionDoc } from "./concepts/websession";
+import { executeGraphQL } from "./graphqlApi";
+import { RequireLogin, RequireRole } from "./guards";
+import "./locales";
 import Responses from "./responses";
+import { exportAccount, importAccount } from "./takeout";
+
+// When the v1 routes that v2 changed were deprecated and until when they are kept.
+const REPLACED_IN_V2 = { since: "2026-10-19", sunset: "2027-04-19" };
 
+/**
+ * Version 1 of the API, also served under `/api` without a version.
+ */
 class Routes {
   /////////////////////////////////////////USERS + SESSIONS//////////////////////////////////////////////
 
   @Router.get("/session")
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError)
   async getSessionUser(session: WebSessionDoc) {
     const user = WebSession.getUser(session);
     return await Responses.user(await User.getUserById(user));
   }
 
-  @Router.get("/users")
-  async getUserByName(name?: string) {
-    const users = await User.getUsers(name);
-    return await Responses.users(users);
+  @Router.get("/users", { name: { type: "string", optional: true }, ...PAGE_PARAMS })
+  @Router.raises(BadValuesError)
+  async getUserByName(name?: string, limit?: number, after?: string) {
+    const users = await User.getUsers(name, { limit, after });
+    return await Responses.page(users, Responses.users);
+  }
+
+  // Before `/users/:id`, which would take "export" as an id.
+  @Router.get("/users/export")
+  @RequireLogin
+  @Router.raises(UnauthenticatedError)
+  async exportUser(session: WebSessionDoc, res: Response) {
+    const user = WebSession.getUser(session);
+    const archive = createZip(await exportAccount(user));
+    const date = new Date().toISOString().slice(0, 10);
+    res.type("application/zip").attachment(`stagelights-export-${date}.zip`).send(archive);
+  }
+
+  @Router.post("/users/import")
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError, NotAllowedError)
+  async importUser(session: WebSessionDoc, req: Request) {
+    const user = WebSession.getUser(session);
+    if (!Buffer.isBuffer(req.body)) {
+      throw new BadValuesError("Send the archive as the body of the request, with the application/zip content type!");
+    }
+    const files = readZip(req.body);
+    // Either the whole archive is imported or nothing is.
+    const imported = await transaction(async () => await importAccount(user, files));
+    return { msg: "Successfully imported your data!", imported };
   }
 
-  @Router.get("/users/:id")
+  @Router.get("/users/:id", { id: "id" })
+  @Router.raises(NotFoundError)
   async getUserById(id: ObjectId) {
-    const user = await User.getUserById(new ObjectId(id));
+    const user = await User.getUserById(id);
     return await Responses.user(user);
   }
-  @Router.post("/users") // TO-DO: change user types for this to be string
-  async createUser(session: WebSessionDoc, email: string, password: string, name: string, profilePic: string, birthday: Date, city: string, state: string, country: string, userType: string) {
+  @Router.post("/users", {
+    email: "string",
+    password: "string",
+    name: "string",
+    profilePic: { type: "string", optional: true },
+    birthday: "date",
+    city: "string",
+    state: "string",
+    country: "string",
+    userType: { type: "list", enum: ["actor", "casting director", "admin"] },
+  })
+  @Router.deprecated({ ...REPLACED_IN_V2, successor: "/api/v2/users" })
+  @Router.raises(NotAllowedError, BadValuesError, UserExistsError, HasPracticeFolderError, AlreadyInitializedError, HasPortfolioError)
+  async createUser(
+    session: WebSessionDoc,
+    email: string,
+    password: string,
+    name: string,
+    profilePic: string | undefined,
+    birthday: Date,
+    city: string,
+    state: string,
+    country: string,
+    userType: string[],
+  ) {
     WebSession.isLoggedOut(session);
-    const createdUser = await User.create(email, password, name, new Date(birthday), city, state, country);
-
-    if (createdUser.user) {
-      const id = createdUser.user._id;
-      await Applause.initialize(id);
-      await Folder.createPractice(id);
-      const splitUserTypes = userType.split(", ");
-      await Restrictions.create(id, splitUserTypes);
-      let media;
-      try {
-        media = await Media.create(id, profilePic);
-      } catch {
-        media = await Media.create(id, "https://drive.google.com/file/d/1ElQWXRMeOdkWTpujerxmYhSNqFuKOEyB/preview");
+    // Either the account is fully set up or nothing is created.
+    return await transaction(async () => {
+      const createdUser = await User.create(email, password, name, birthday, city, state, country);
+
+      if (createdUser.user) {
+        const id = createdUser.user._id;
+        await Folder.createPractice(id);
+        await Restrictions.create(id, userType);
+        let media;
+        try {
+          media = await Media.create(id, profilePic ?? "");
+        } catch {
+          media = await Media.create(id, "https://drive.google.com/file/d/1ElQWXRMeOdkWTpujerxmYhSNqFuKOEyB/preview");
+        }
+        await User.updateProfilePic(id, media);
+        await Portfolio.create(id, media);
+        const updatedUser = await User.getUserById(createdUser.user._id);
+        return { msg: createdUser.msg, user: await Responses.user(updatedUser) };
       }
-      await User.updateProfilePic(id, media);
-      await Portfolio.create(id, media);
-      const updatedUser = await User.getUserById(createdUser.user._id);
-      return { msg: createdUser.msg, user: await Responses.user(updatedUser) };
-    }
+    });
   }
 
-  @Router.patch("/users")
-  async updateUser(session: WebSessionDoc, update: Partial<UserDoc>, profilePic?: string) {
+  @Router.patch("/users", { update: { type: "object", optional: true }, profilePic: { type: "string", optional: true } })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError, ConflictError)
+  async updateUser(session: WebSessionDoc, update: Partial<UserDoc>, profilePic?: string, ifMatch?: number) {
     const user = WebSession.getUser(session);
+    if (update?.locale !== undefined && !getLocales().includes(update.locale)) {
+      throw new BadValuesError("Unsupported locale {0}! Supported locales are: {1}", update.locale, getLocales().join(", "));
+    }
+    // The version is checked by the first write only, since it bumps the version.
+    if (update) {
+      await User.update(user, update, ifMatch);
+      if (update.locale !== undefined) {
+        WebSession.setLocale(session, update.locale);
+      }
+    }
     if (profilePic) {
       const newProfilePic = await Media.create(user, profilePic);
-      const oldProfilePic = await User.updateProfilePic(user, newProfilePic);
+      const oldProfilePic = await User.updateProfilePic(user, newProfilePic, update ? undefined : ifMatch);
       await Media.delete(oldProfilePic);
     }
-    if (update) {
-      await User.update(user, update);
-    }
     return { msg: "Successfully updated user" };
   }
 
   @Router.delete("/users")
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NoCounterError)
   async deleteUser(session: WebSessionDoc) {
     const user = WebSession.getUser(session);
+    // Either everything belonging to the user is removed or nothing is.
+    const deleted = await transaction(async () => {
+      await Application.withdrawUser(user);
+      await Comment.deleteUserComments(user);
+      await Connection.removeUser(user);
+      await FocusedPost.deleteUser(user);
+      await Folder.deleteUser(user);
+      await Media.deleteUser(user);
+      await Portfolio.delete(user);
+      await Opportunity.deactivateUser(user);
+      await Queue.deleteAllManagerQueues(user);
+      await Restrictions.delete(user);
+      await Vote.deleteUser(user);
+      await Tag.deleteUser(user);
+      return await User.delete(user);
+    });
+    // Only log out once the account is actually gone.
     WebSession.end(session);
-    await Applause.delete(user);
-    await Application.withdrawUser(user);
-    await Comment.deleteUserComments(user);
-    await Connection.removeUser(user);
-    await FocusedPost.deleteUser(user);
-    await Folder.deleteUser(user);
-    await Media.deleteUser(user);
-    await Portfolio.delete(user);
-    await Opportunity.deactivateUser(user);
-    await Queue.deleteAllManagerQueues(user);
-    await Restrictions.delete(user);
-    await Vote.deleteUser(user);
-    await Tag.deleteUser(user);
-    await Restrictions.delete(user);
-    return await User.delete(user);
-  }
-
-  @Router.post("/login")
+    return deleted;
+  }
+
+  @Router.post("/login", { email: "string", password: "string" })
+  @Router.raises(NotAllowedError, NoRestrictionsError)
   async logIn(session: WebSessionDoc, email: string, password: string) {
     const u = await User.authenticate(email, password);
     const actor = await Restrictions.isActor(u._id);
     const admin = await Restrictions.isAdmin(u._id);
     const castor = await Restrictions.isCastor(u._id);
     WebSession.start(session, u._id, actor, castor, admin);
+    WebSession.setLocale(session, (await User.getUserById(u._id)).locale);
     return { msg: "Logged in!" };
   }
 
   @Router.post("/logout")
+  @RequireLogin
+  @Router.raises(UnauthenticatedError)
   async logOut(session: WebSessionDoc) {
     WebSession.end(session);
     return { msg: "Logged out!" };
@@ -108,456 +204,459 @@ class Routes {
 
   /////////////////////////////////////////FOCUSED POSTS//////////////////////////////////////////////
 
-  @Router.get("/focusedPosts")
-  async getPosts(authorEmail?: string, _id?: ObjectId) {
+  @Router.get("/focusedPosts", { authorEmail: { type: "string", optional: true }, _id: { type: "id", optional: true }, ...PAGE_PARAMS })
+  @Router.raises(NotFoundError, BadValuesError)
+  async getPosts(authorEmail?: string, _id?: ObjectId, limit?: number, after?: string) {
     let posts;
     if (authorEmail) {
       const id = (await User.getUserByEmail(authorEmail))._id;
-      posts = await FocusedPost.getByAuthor(id);
+      posts = await FocusedPost.getByAuthor(id, { limit, after });
     } else if (_id) {
-      posts = [await FocusedPost.getById(new ObjectId(_id))];
+      posts = { items: [await FocusedPost.getById(_id)], nextCursor: null };
     } else {
-      posts = await FocusedPost.getFocusedPosts({});
+      posts = await FocusedPost.getFocusedPosts({}, { limit, after });
     }
-    return Responses.posts(posts);
+    return Responses.page(posts, Responses.posts);
   }
 
-  @Router.post("/focusedPosts")
-  async createPost(session: WebSessionDoc, content: string, mediaURLs: string, categoryID: ObjectId) {
+  @Router.get("/focusedPosts/:_id", { _id: "id" })
+  @Router.raises(NotFoundError, BadValuesError)
+  async getPost(_id: ObjectId) {
+    // Sent with an ETag of its version, to send back in `If-Match` when updating it.
+    return await Responses.post(await FocusedPost.getById(_id));
+  }
+
+  @Router.post("/focusedPosts", { content: "string", mediaURLs: { type: "list", default: [] }, categoryID: "id" })
+  @Router.deprecated({ ...REPLACED_IN_V2, successor: "/api/v2/focusedPosts" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError, NotFoundError, NotAllowedError, NoCounterError)
+  async createPost(session: WebSessionDoc, content: string, mediaURLs: string[], categoryID: ObjectId) {
     const user = WebSession.getUser(session);
-    let media: ObjectId[] = [];
-    if (mediaURLs) {
-      const mediaSeperated = mediaURLs.split(", ");
-      media = await Promise.all(mediaSeperated.map(async (url) => await Media.create(user, url)));
-    }
-    const created = await FocusedPost.create(user, content, media, new ObjectId(categoryID));
-    await Applause.update(user, 3);
+    const media = await Promise.all(mediaURLs.map(async (url) => await Media.create(user, url)));
+    const created = await FocusedPost.create(user, content, media, categoryID);
     return { msg: created.msg, post: await Responses.post(created.post) };
   }
 
-  @Router.patch("/focusedPosts/:_id")
-  async updatePost(session: WebSessionDoc, _id: ObjectId, update: Partial<FocusedPostDoc>) {
+  @Router.patch("/focusedPosts/:_id", { _id: "id", update: "object" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, FocusedPostAuthorNotMatchError, NotAllowedError, ConflictError)
+  async updatePost(session: WebSessionDoc, _id: ObjectId, update: Partial<FocusedPostDoc>, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    return await FocusedPost.update(new ObjectId(_id), update, user);
+    return await FocusedPost.update(_id, update, user, ifMatch);
   }
 
-  @Router.delete("/focusedPosts")
+  @Router.delete("/focusedPosts", { id: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError, NotFoundError, FocusedPostAuthorNotMatchError, NoCounterError)
   async deletePost(session: WebSessionDoc, id: ObjectId) {
     const user = WebSession.getUser(session);
-    const media = await FocusedPost.getMediaById(new ObjectId(id));
-    await Promise.all(media.map(async (id) => await Media.delete(id)));
-    await Tag.deletePost(new ObjectId(id));
-    await Applause.update(user, -3);
-    return await FocusedPost.delete(new ObjectId(id), user);
+    // The post's media is kept so it can be restored from the trash; it is deleted when the post is purged.
+    return await FocusedPost.delete(id, user);
   }
 
-  @Router.get("/categories")
-  async getCategories(_id?: ObjectId) {
+  @Router.get("/categories", { _id: { type: "id", optional: true }, ...PAGE_PARAMS })
+  @Router.raises(NotFoundError, BadValuesError)
+  async getCategories(_id?: ObjectId, limit?: number, after?: string) {
     if (_id) {
-      return await FocusedPost.getCategory(new ObjectId(_id));
+      return await FocusedPost.getCategory(_id);
     }
-    return await FocusedPost.getAllCategories();
+    return await FocusedPost.getAllCategories({ limit, after });
   }
 
-  @Router.post("/categories")
-  async addCategory(session: WebSessionDoc, name: string, description: string) {
-    const admin = WebSession.isAdmin(session);
-    Restrictions.check(admin, "admin");
+  @Router.post("/categories", { name: "string", description: "string" })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError)
+  async addCategory(name: string, description: string) {
     return await FocusedPost.createCategory(name, description);
   }
 
-  @Router.delete("/categories")
-  async deleteCategory(session: WebSessionDoc, id: ObjectId) {
-    const admin = WebSession.isAdmin(session);
-    Restrictions.check(admin, "admin");
-    return await FocusedPost.deleteCategory(new ObjectId(id));
+  @Router.delete("/categories", { id: "id" })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError)
+  async deleteCategory(id: ObjectId) {
+    return await FocusedPost.deleteCategory(id);
   }
 
   /////////////////////////////////////////CONNECTIONS//////////////////////////////////////////////
 
-  @Router.get("/connections/requests")
-  async getRequests(session: WebSessionDoc) {
+  @Router.get("/connections/requests", { ...PAGE_PARAMS })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError)
+  async getRequests(session: WebSessionDoc, limit?: number, after?: string) {
     const user = WebSession.getUser(session);
-    const requests = await Connection.getRequests(user);
-    return await Responses.connectionRequests(requests);
+    const requests = await Connection.getRequests(user, { limit, after });
+    return await Responses.page(requests, Responses.connectionRequests);
   }
 
-  @Router.get("/connections/:id")
-  async getConnections(id: ObjectId) {
-    const connections = await User.idsToUsers(await Connection.getConnections(new ObjectId(id)));
-    return await Responses.users(connections);
+  @Router.get("/connections/:id", { id: "id", ...PAGE_PARAMS })
+  @Router.raises(BadValuesError)
+  async getConnections(id: ObjectId, limit?: number, after?: string) {
+    const connections = await Connection.getConnections(id, { limit, after });
+    const users = await User.idsToUsers(connections.items);
+    return { items: await Responses.users(users), nextCursor: connections.nextCursor };
   }
 
-  @Router.post("/connections/requests")
+  @Router.post("/connections/requests", { receiverId: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, AlreadyConnectedError, ConnectionRequestAlreadyExistsError)
   async sendConnectionRequest(session: WebSessionDoc, receiverId: ObjectId) {
     const user = WebSession.getUser(session);
-    const to = (await User.getUserById(new ObjectId(receiverId)))._id; // Verify to id
+    const to = (await User.getUserById(receiverId))._id; // Verify to id
     return await Connection.sendRequest(user, to);
   }
 
-  @Router.patch("/connections/accept/:from")
+  @Router.patch("/connections/accept/:from", { from: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, NoCounterError, ConnectionRequestNotFoundError)
   async acceptConnectionRequest(session: WebSessionDoc, from: ObjectId) {
     const user = WebSession.getUser(session);
-    const senderId = (await User.getUserById(new ObjectId(from)))._id; // Verify to id
-    await Applause.update(user, 1);
-    await Applause.update(senderId, 1);
+    const senderId = (await User.getUserById(from))._id; // Verify to id
     return await Connection.acceptRequest(senderId, user);
   }
 
-  @Router.patch("/connections/reject/:from")
+  @Router.patch("/connections/reject/:from", { from: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, ConnectionRequestNotFoundError)
   async rejectConnectionRequest(session: WebSessionDoc, from: ObjectId) {
     const user = WebSession.getUser(session);
-    const senderId = (await User.getUserById(new ObjectId(from)))._id; // Verify to id
+    const senderId = (await User.getUserById(from))._id; // Verify to id
     return await Connection.rejectRequest(senderId, user);
   }
 
-  @Router.delete("/connections/requests/:to")
+  @Router.delete("/connections/requests/:to", { to: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, ConnectionRequestNotFoundError)
   async removeConnectiondRequest(session: WebSessionDoc, to: ObjectId) {
     const user = WebSession.getUser(session);
-    return await Connection.removeRequest(user, new ObjectId(to));
+    return await Connection.removeRequest(user, to);
   }
 
-  @Router.delete("/connections/:user2")
+  @Router.delete("/connections/:user2", { user2: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, NoCounterError, ConnectionNotFoundError)
   async removeFriend(session: WebSessionDoc, user2: ObjectId) {
     const user = WebSession.getUser(session);
-    const user2Id = (await User.getUserById(new ObjectId(user2)))._id; // Verify to id
-    await Applause.update(user, -1);
-    await Applause.update(user2Id, -1);
+    const user2Id = (await User.getUserById(user2))._id; // Verify to id
     return await Connection.removeConnection(user, user2Id);
   }
 
   /////////////////////////////////////////COMMENTS//////////////////////////////////////////////
 
-  @Router.get("/comments/post/:postId")
-  async getComments(postId: ObjectId) {
-    const directComments = await Comment.getByParent(new ObjectId(postId));
-    return await Responses.comments(directComments);
+  @Router.get("/comments/post/:postId", { postId: "id", ...PAGE_PARAMS })
+  @Router.raises(BadValuesError)
+  async getComments(postId: ObjectId, limit?: number, after?: string) {
+    const directComments = await Comment.getByParent(postId, { limit, after });
+    return await Responses.page(directComments, Responses.comments);
   }
 
-  @Router.post("/comments")
+  @Router.post("/comments", { post: "id", content: "string" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError, NoCounterError)
   async createComment(session: WebSessionDoc, post: ObjectId, content: string) {
     const user = WebSession.getUser(session);
-    const postId = (await FocusedPost.getById(new ObjectId(post)))._id; // verify post
+    const postId = (await FocusedPost.getById(post))._id; // verify post
     const created = await Comment.create(user, content, postId);
-    await Applause.update(user, 0.5);
     return { msg: created.msg, post: await Responses.comment(created.comment) };
   }
 
-  @Router.patch("/comments")
-  async updateComment(session: WebSessionDoc, _id: ObjectId, newContent: string) {
+  @Router.patch("/comments", { _id: "id", newContent: "string" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, CommentAuthorNotMatchError, ConflictError)
+  async updateComment(session: WebSessionDoc, _id: ObjectId, newContent: string, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    return await Comment.update(new ObjectId(_id), user, newContent);
+    return await Comment.update(_id, user, newContent, ifMatch);
   }
 
-  @Router.delete("/comments/:_id")
+  @Router.delete("/comments/:_id", { _id: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NoCounterError, NotFoundError, CommentAuthorNotMatchError)
   async deleteComment(session: WebSessionDoc, _id: ObjectId) {
     const user = WebSession.getUser(session);
-    await Applause.update(user, -0.5);
-    return await Comment.delete(new ObjectId(_id), user);
+    return await Comment.delete(_id, user);
   }
 
   /////////////////////////////////////////TAGS//////////////////////////////////////////////
 
-  @Router.get("/tags/post/:postId")
-  async getPostTags(postId: ObjectId) {
-    const post = (await FocusedPost.getById(new ObjectId(postId)))._id; // verify post
-    const tags = await Tag.getByPost(post);
-    return await Responses.tags(tags);
+  @Router.get("/tags/post/:postId", { postId: "id", ...PAGE_PARAMS })
+  @Router.raises(NotFoundError, BadValuesError)
+  async getPostTags(postId: ObjectId, limit?: number, after?: string) {
+    const post = (await FocusedPost.getById(postId))._id; // verify post
+    const tags = await Tag.getByPost(post, { limit, after });
+    return await Responses.page(tags, Responses.tags);
   }
 
-  @Router.get("/tags/user/:userId")
-  async getUserTags(userId: ObjectId) {
-    const user = (await User.getUserById(new ObjectId(userId)))._id; // verify user
-    const tags = await Tag.getByTagged(user);
-    return await Responses.tags(tags);
+  @Router.get("/tags/user/:userId", { userId: "id", ...PAGE_PARAMS })
+  @Router.raises(NotFoundError, BadValuesError)
+  async getUserTags(userId: ObjectId, limit?: number, after?: string) {
+    const user = (await User.getUserById(userId))._id; // verify user
+    const tags = await Tag.getByTagged(user, { limit, after });
+    return await Responses.page(tags, Responses.tags);
   }
 
-  @Router.post("/tags")
+  @Router.post("/tags", { post: "id", tagged: "id" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, FocusedPostAuthorNotMatchError, DuplicatedTagError, NoCounterError)
   async createTag(session: WebSessionDoc, post: ObjectId, tagged: ObjectId) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
     const user = WebSession.getUser(session);
-    const taggedId = (await User.getUserById(new ObjectId(tagged)))._id; // verify user
-    const postId = (await FocusedPost.getAndVerify(new ObjectId(post), user))._id; // verify post
+    const taggedId = (await User.getUserById(tagged))._id; // verify user
+    const postId = (await FocusedPost.getAndVerify(post, user))._id; // verify post
     const created = await Tag.create(user, taggedId, postId);
-    await Applause.update(taggedId, 2);
     return { msg: created.msg, post: await Responses.tag(created.tag) };
   }
 
-  @Router.delete("/tags")
+  @Router.delete("/tags", { post: "id", tagged: "id" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, BadValuesError, TaggerNotMatchError, NoCounterError)
   async deleteTag(session: WebSessionDoc, post: ObjectId, tagged: ObjectId) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
     const user = WebSession.getUser(session);
-    const taggedId = (await User.getUserById(new ObjectId(tagged)))._id; // verify user
-    const postId = (await FocusedPost.getById(new ObjectId(post)))._id; // verify post
-    await Applause.update(taggedId, -2);
+    const taggedId = (await User.getUserById(tagged))._id; // verify user
+    const postId = (await FocusedPost.getById(post))._id; // verify post
     return await Tag.deleteTag(user, taggedId, postId);
   }
 
   /////////////////////////////////////////CHALLANGES//////////////////////////////////////////////
 
-  @Router.get("/challenge")
-  async getSpecificChallenge(_id?: ObjectId) {
+  @Router.get("/challenge", { _id: { type: "id", optional: true }, ...PAGE_PARAMS })
+  @Router.raises(BadValuesError)
+  async getSpecificChallenge(_id?: ObjectId, limit?: number, after?: string) {
     if (_id) {
-      const challenge = await Challenge.getPosted(new ObjectId(_id));
+      const challenge = await Challenge.getPosted(_id);
       return await Responses.challenge(challenge);
     }
-    const challenges = await Challenge.getAllPosted();
-    return await Responses.challenges(challenges);
+    const challenges = await Challenge.getAllPosted({ limit, after });
+    return await Responses.page(challenges, Responses.challenges);
   }
 
   @Router.get("/challenge/today")
+  @Router.raises(NotAllowedError)
   async getTodaysChallenge() {
     const challenge = await Challenge.todaysChallenge();
     return await Responses.challenge(challenge);
   }
 
-  @Router.get("/challenge/accepted")
-  async getTodaysAccepted() {
-    const posts = await FocusedPost.getAcceptedToday();
-    return posts.map((post) => post.author.toString());
+  @Router.get("/challenge/accepted", { ...PAGE_PARAMS })
+  @Router.raises(BadValuesError)
+  async getTodaysAccepted(limit?: number, after?: string) {
+    const posts = await FocusedPost.getAcceptedToday({ limit, after });
+    return { items: posts.items.map((post) => post.author.toString()), nextCursor: posts.nextCursor };
   }
 
-  @Router.post("/challenge")
+  @Router.post("/challenge", { prompt: "string" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NoCounterError)
   async proposeChallenge(session: WebSessionDoc, prompt: string) {
     const user = WebSession.getUser(session);
     const created = await Challenge.propose(user, prompt);
-    await Applause.update(user, 0.5);
     return { msg: created.msg, challenge: await Responses.challenge(created.proposed) };
   }
 
-  @Router.post("/acceptChallenge")
-  async acceptChallenge(session: WebSessionDoc, content: string, mediaURLs: string) {
+  @Router.post("/acceptChallenge", { content: "string", mediaURLs: { type: "list", default: [] } })
+  @Router.deprecated({ ...REPLACED_IN_V2, successor: "/api/v2/acceptChallenge" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError, NotAllowedError, NoCounterError)
+  async acceptChallenge(session: WebSessionDoc, content: string, mediaURLs: string[]) {
     const user = WebSession.getUser(session);
-    let media: ObjectId[] = [];
-    if (mediaURLs) {
-      const mediaSeperated = mediaURLs.split(", ");
-      media = await Promise.all(mediaSeperated.map(async (url) => await Media.create(user, url)));
-    }
+    const media = await Promise.all(mediaURLs.map(async (url) => await Media.create(user, url)));
 
     const challengeCategory = await FocusedPost.getCategoryByName("Challenge", "Daily creative challenges");
     const created = await FocusedPost.create(user, content, media, challengeCategory._id);
-    await Applause.update(user, 5);
     return { msg: created.msg, post: await Responses.post(created.post) };
   }
 
   /////////////////////////////////////////APPLAUSE//////////////////////////////////////////////
 
   @Router.get("/applause")
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NoCounterError)
   async getApplauseValue(session: WebSessionDoc) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
     const user = WebSession.getUser(session);
     return await Applause.getValueByUser(user);
   }
 
   /////////////////////////////////////////OPPORTUNITY//////////////////////////////////////////////
 
-  @Router.get("/opportunities/id")
-  async getOpportunityById(_id?: ObjectId) {
+  @Router.get("/opportunities/id", { _id: { type: "id", optional: true }, ...PAGE_PARAMS })
+  @Router.raises(NotFoundError, BadValuesError)
+  async getOpportunityById(_id?: ObjectId, limit?: number, after?: string) {
     if (_id) {
-      const opportunity = await Opportunity.getById(new ObjectId(_id));
+      const opportunity = await Opportunity.getById(_id);
       return await Responses.opportunity(opportunity);
     }
-    const opportunities = await Opportunity.getAll();
-    return await Responses.opportunities(opportunities);
+    const opportunities = await Opportunity.getAll({ limit, after });
+    return await Responses.page(opportunities, Responses.opportunities);
   }
 
-  @Router.get("/opportunities/user/:_id")
-  async getOpportunitiesByUser(_id: ObjectId) {
-    const opportunities = await Opportunity.getByUser(new ObjectId(_id));
-    return await Responses.opportunities(opportunities);
+  @Router.get("/opportunities/user/:_id", { _id: "id", ...PAGE_PARAMS })
+  @Router.raises(BadValuesError)
+  async getOpportunitiesByUser(_id: ObjectId, limit?: number, after?: string) {
+    const opportunities = await Opportunity.getByUser(_id, { limit, after });
+    return await Responses.page(opportunities, Responses.opportunities);
   }
 
-  @Router.get("/opportunities/inRange")
-  async opportunityInRange(session: WebSessionDoc, id: ObjectId, start: Date, end: Date) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
-    const startDate = new Date(start);
-    const endDate = new Date(end);
-    if (id) {
-      return await Opportunity.datesInRange(new ObjectId(id), startDate, endDate);
-    }
-    return { msg: "no opportunity id given" };
+  @Router.get("/opportunities/inRange", { id: "id", start: "date", end: "date" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError)
+  async opportunityInRange(id: ObjectId, start: Date, end: Date) {
+    return await Opportunity.datesInRange(id, start, end);
   }
 
-  @Router.post("/opportunities")
+  @Router.post("/opportunities", {
+    title: "string",
+    description: "string",
+    startOn: "date",
+    endsOn: "date",
+    requirements: { type: "object", default: { physical: [], skill: [], location: "" } },
+  })
+  @RequireRole("casting director")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError, NoCounterError)
   async createOpportunity(session: WebSessionDoc, title: string, description: string, startOn: Date, endsOn: Date, requirements: Requirements) {
-    const castor = WebSession.isCastor(session);
-    Restrictions.check(castor, "casting director");
     const user = WebSession.getUser(session);
-    const startDate = new Date(startOn);
-    const endDate = new Date(endsOn);
-    const created = await Opportunity.create(user, title, description, startDate, endDate, requirements);
-    await Applause.update(user, 3);
+    const created = await Opportunity.create(user, title, description, startOn, endsOn, requirements);
     return { msg: created.msg, challenge: await Responses.opportunity(created.opportunity) };
   }
 
-  @Router.patch("/opportunities")
-  async updateOpportunity(session: WebSessionDoc, id: ObjectId, update: Partial<OpportunityDoc>) {
-    const castor = WebSession.isCastor(session);
-    Restrictions.check(castor, "casting director");
+  @Router.patch("/opportunities", { id: "id", update: "object" })
+  @RequireRole("casting director")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, NotOpportunityOwnerError, ConflictError)
+  async updateOpportunity(session: WebSessionDoc, id: ObjectId, update: Partial<OpportunityDoc>, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    return await Opportunity.update(new ObjectId(id), user, update);
+    return await Opportunity.update(id, user, update, ifMatch);
   }
 
-  @Router.patch("/opportunities/deactivate")
-  async deactivateOpportunity(_id: ObjectId, session?: WebSessionDoc) {
-    if (session) {
-      const castor = WebSession.isCastor(session);
-      Restrictions.check(castor, "casting director");
-      const user = WebSession.getUser(session);
-      return await Opportunity.deactivate(new ObjectId(_id), user);
-    }
-
-    return await Opportunity.deactivate(new ObjectId(_id));
+  @Router.patch("/opportunities/deactivate", { _id: "id" })
+  @RequireRole("casting director")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, NotOpportunityOwnerError, ConflictError)
+  async deactivateOpportunity(session: WebSessionDoc, _id: ObjectId, ifMatch?: number) {
+    const user = WebSession.getUser(session);
+    return await Opportunity.deactivate(_id, user, ifMatch);
   }
 
-  @Router.patch("/opportunities/reactivate")
-  async reactivateOpportunity(session: WebSessionDoc, _id: ObjectId) {
-    const castor = WebSession.isCastor(session);
-    Restrictions.check(castor, "casting director");
+  @Router.patch("/opportunities/reactivate", { _id: "id" })
+  @RequireRole("casting director")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, NotOpportunityOwnerError, ConflictError)
+  async reactivateOpportunity(session: WebSessionDoc, _id: ObjectId, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    return await Opportunity.reactivate(new ObjectId(_id), user);
+    return await Opportunity.reactivate(_id, user, ifMatch);
   }
 
-  @Router.delete("/opportunities/:_id")
+  @Router.delete("/opportunities/:_id", { _id: "id" })
+  @RequireRole("casting director")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, NotOpportunityOwnerError, NoCounterError)
   async deleteOpportunity(session: WebSessionDoc, _id: ObjectId) {
-    const castor = WebSession.isCastor(session);
-    Restrictions.check(castor, "casting director");
     const user = WebSession.getUser(session);
-    await Applause.update(user, -3);
-    return await Opportunity.delete(new ObjectId(_id), user);
+    return await Opportunity.delete(_id, user);
   }
 
   /////////////////////////////////////////APPLICATION//////////////////////////////////////////////
 
-  @Router.get("/application/opportunity")
-  async getOpApplications(session: WebSessionDoc, opId: ObjectId) {
-    const castor = WebSession.isCastor(session);
-    Restrictions.check(castor, "casting director");
+  @Router.get("/application/opportunity", { opId: "id", ...PAGE_PARAMS })
+  @RequireRole("casting director")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async getOpApplications(session: WebSessionDoc, opId: ObjectId, limit?: number, after?: string) {
     const user = WebSession.getUser(session);
-    return await Responses.applications(await Application.getAppsForOp(user, new ObjectId(opId)));
+    return await Responses.page(await Application.getAppsForOp(user, opId, { limit, after }), Responses.applications);
   }
 
-  @Router.get("/application")
-  async getUserApplications(session: WebSessionDoc) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.get("/application", { ...PAGE_PARAMS })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async getUserApplications(session: WebSessionDoc, limit?: number, after?: string) {
     const user = WebSession.getUser(session);
-    return await Responses.applications(await Application.getAppsForUser(user));
+    return await Responses.page(await Application.getAppsForUser(user, { limit, after }), Responses.applications);
   }
 
-  @Router.get("/application/:_id")
+  @Router.get("/application/:_id", { _id: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, NotAllowedError)
   async getApplication(session: WebSessionDoc, _id: ObjectId) {
     const user = WebSession.getUser(session);
-    return await Responses.application(await Application.getAppById(new ObjectId(_id), user));
+    return await Responses.application(await Application.getAppById(_id, user));
   }
 
-  @Router.post("/application")
-  async createApplication(session: WebSessionDoc, text: string, media: string, opId: ObjectId) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.post("/application", { text: "string", media: { type: "list", default: [] }, opId: "id" })
+  @Router.deprecated({ ...REPLACED_IN_V2, successor: "/api/v2/application" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError, NotFoundError, NoCounterError)
+  async createApplication(session: WebSessionDoc, text: string, media: string[], opId: ObjectId) {
     const user = WebSession.getUser(session);
-    let mediaCreated: ObjectId[] = [];
-    if (media) {
-      const mediaURLs = media.split(", ");
-      mediaCreated = await Promise.all(mediaURLs.map(async (url) => await Media.create(user, url)));
-    }
+    const mediaCreated = await Promise.all(media.map(async (url) => await Media.create(user, url)));
 
-    const owner = (await Opportunity.getById(new ObjectId(opId)))?.user ?? new ObjectId();
-    const response = await Application.create(owner, user, text, mediaCreated, new ObjectId(opId));
-    await Applause.update(user, 2);
+    const owner = (await Opportunity.getById(opId))?.user ?? new ObjectId();
+    const response = await Application.create(owner, user, text, mediaCreated, opId);
     return { msg: response.msg, application: await Responses.application(response.application) };
   }
 
-  @Router.patch("/application")
-  async updateStatus(session: WebSessionDoc, id: ObjectId, newStatus: "rejected" | "approved" | "audition" | "withdrawn") {
-    if (newStatus !== "rejected" && newStatus !== "approved" && newStatus !== "audition" && newStatus !== "withdrawn") {
-      throw new BadValuesError("newStatus is not a valid status type. Please enter one of the following: approved, rejected, audition, withdrawn");
-    }
+  @Router.patch("/application", { id: "id", newStatus: { type: "string", enum: ["approved", "rejected", "audition", "withdrawn"] } })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, NotApplierError, NotOwnerError, NoCounterError, ConflictError)
+  async updateStatus(session: WebSessionDoc, id: ObjectId, newStatus: "rejected" | "approved" | "audition" | "withdrawn", ifMatch?: number) {
     const user = WebSession.getUser(session);
-    await Application.changeStatus(user, new ObjectId(id), newStatus);
-    if (newStatus === "withdrawn") {
-      await Applause.update(user, -2);
-    }
+    await Application.changeStatus(user, id, newStatus, ifMatch);
     return { msg: "status changed successfully" };
   }
 
   /////////////////////////////////////////PORTFOLIO//////////////////////////////////////////////
 
-  @Router.get("/portfolio/:userId")
+  @Router.get("/portfolio/:userId", { userId: "id" })
+  @Router.raises(NoPortfolioError)
   async getUserPortfolio(userId: ObjectId) {
-    return await Responses.portfolio(await Portfolio.getByUser(new ObjectId(userId)));
+    return await Responses.portfolio(await Portfolio.getByUser(userId));
   }
 
-  @Router.patch("/portfolio")
-  async editPortfolio(session: WebSessionDoc, update?: Partial<PortfolioDoc>, headshot?: string) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.patch("/portfolio", { update: { type: "object", optional: true }, headshot: { type: "string", optional: true } })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError, NoCounterError, ConflictError)
+  async editPortfolio(session: WebSessionDoc, update?: Partial<PortfolioDoc>, headshot?: string, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    if (headshot) {
-      const newHeadshot = await Media.create(user, headshot);
-      const oldHeadshot = await Portfolio.updateHeadshot(user, newHeadshot);
-      if (oldHeadshot) {
-        await Media.delete(oldHeadshot);
-      }
-    }
-    await Applause.update(user, 0.5);
-    if (update) {
-      return await Portfolio.update(user, update);
+    const edited = await Portfolio.edit(user, update, headshot ? await Media.create(user, headshot) : undefined, ifMatch);
+    if (edited.oldHeadshot) {
+      await Media.delete(edited.oldHeadshot);
     }
-    return { msg: "successfully updated headshot" };
+    return { msg: edited.msg };
   }
 
-  @Router.patch("/portfolio/media/add")
-  async addPortfolioMedia(session: WebSessionDoc, media: string) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.patch("/portfolio/media/add", { media: "string" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError, NoCounterError, NoPortfolioError, ConflictError)
+  async addPortfolioMedia(session: WebSessionDoc, media: string, ifMatch?: number) {
     const user = WebSession.getUser(session);
     const mediaId = await Media.create(user, media);
-    await Applause.update(user, 0.5);
-    return await Portfolio.addMedia(user, mediaId);
+    return await Portfolio.addMedia(user, mediaId, ifMatch);
   }
 
-  @Router.patch("/portfolio/media/remove")
-  async removePortfolioMedia(session: WebSessionDoc, media: ObjectId) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.patch("/portfolio/media/remove", { media: "id" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError, NoCounterError, NoPortfolioError, ConflictError)
+  async removePortfolioMedia(session: WebSessionDoc, media: ObjectId, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    await Media.delete(new ObjectId(media));
-    await Applause.update(user, -0.5);
-    return await Portfolio.removeMedia(user, new ObjectId(media));
+    await Media.delete(media);
+    return await Portfolio.removeMedia(user, media, ifMatch);
   }
 
   /////////////////////////////////////////PRACTICE FOLDER//////////////////////////////////////////////
 
   @Router.get("/practicefolder")
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NoPracticeFolderError)
   async getPracticeFolder(session: WebSessionDoc) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
     const user = WebSession.getUser(session);
     return await Responses.folder(await Folder.getPractice(user));
   }
 
-  @Router.patch("/practicefolder/add")
-  async addPracticeItem(session: WebSessionDoc, content: string) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.patch("/practicefolder/add", { content: "string" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NoPracticeFolderError, ConflictError)
+  async addPracticeItem(session: WebSessionDoc, content: string, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    if (content) {
-      return await Folder.addPractice(user, content);
-    }
-    return { msg: "please enter a url in the content" };
+    return await Folder.addPractice(user, content, ifMatch);
   }
 
-  @Router.patch("/practicefolder/remove")
-  async removePracticeItem(session: WebSessionDoc, content: string) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.patch("/practicefolder/remove", { content: "string" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NoPracticeFolderError, NotInFolderError, ConflictError)
+  async removePracticeItem(session: WebSessionDoc, content: string, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    return await Folder.removePractice(user, content);
+    return await Folder.removePractice(user, content, ifMatch);
   }
 
   @Router.get("/practicefolder/settings")
@@ -565,68 +664,58 @@ class Routes {
     return Folder.getCapacity();
   }
 
-  @Router.patch("/practicefolder/settings")
-  async changeSettings(session: WebSessionDoc, capacityLimit: number) {
-    const admin = WebSession.isAdmin(session);
-    Restrictions.check(admin, "admin");
-    Folder.changeCapacity(Number(capacityLimit));
+  @Router.patch("/practicefolder/settings", { capacityLimit: "number" })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError)
+  async changeSettings(capacityLimit: number) {
+    Folder.changeCapacity(capacityLimit);
     return { msg: "Successfully Changed Limit" };
   }
 
   /////////////////////////////////////////REPERTOIRE FOLDERS//////////////////////////////////////////////
 
-  @Router.get("/repertoirefolders")
+  @Router.get("/repertoirefolders", { _id: "id" })
   async getRepertoireFolder(_id: ObjectId) {
-    return await Responses.folder(await Folder.getRepertoire(new ObjectId(_id)));
+    return await Responses.folder(await Folder.getRepertoire(_id));
   }
 
-  @Router.get("/repertoirefolders/:user")
-  async getUserRepertoires(user: ObjectId) {
-    return await Responses.folders(await Folder.getUserRepertoire(new ObjectId(user)));
+  @Router.get("/repertoirefolders/:user", { user: "id", ...PAGE_PARAMS })
+  @Router.raises(BadValuesError)
+  async getUserRepertoires(user: ObjectId, limit?: number, after?: string) {
+    return await Responses.page(await Folder.getUserRepertoire(user, { limit, after }), Responses.folders);
   }
 
-  @Router.post("/repertoirefolders")
+  @Router.post("/repertoirefolders", { name: "string" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NoCounterError)
   async createRepertoireFolder(session: WebSessionDoc, name: string) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
     const user = WebSession.getUser(session);
-    if (name) {
-      const created = await Folder.createRepertoire(user, name);
-      await Applause.update(user, 0.5);
-      return { msg: created.msg, folder: await Responses.folder(created.folder) };
-    }
-    return { msg: "Repertoire folder needs a name" };
+    const created = await Folder.createRepertoire(user, name);
+    return { msg: created.msg, folder: await Responses.folder(created.folder) };
   }
 
-  @Router.patch("/repertoirefolders/add")
-  async addRepertoireItem(session: WebSessionDoc, content: string, folder: ObjectId) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.patch("/repertoirefolders/add", { content: "string", folder: "id" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, NotFolderOwnerError, ConflictError)
+  async addRepertoireItem(session: WebSessionDoc, content: string, folder: ObjectId, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    if (content && folder) {
-      return await Folder.addRepertoire(user, new ObjectId(folder), content);
-    }
-    return { msg: "needs content url!" };
+    return await Folder.addRepertoire(user, folder, content, ifMatch);
   }
 
-  @Router.patch("/repertoirefolders/remove")
-  async removeRepertoireItem(session: WebSessionDoc, content: string, folder: ObjectId) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
+  @Router.patch("/repertoirefolders/remove", { content: "string", folder: "id" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, NotFolderOwnerError, NotInFolderError, ConflictError)
+  async removeRepertoireItem(session: WebSessionDoc, content: string, folder: ObjectId, ifMatch?: number) {
     const user = WebSession.getUser(session);
-    if (content && folder) {
-      return await Folder.removeRepertoire(user, new ObjectId(folder), content);
-    }
-    return { msg: "missing content or folder" };
+    return await Folder.removeRepertoire(user, folder, content, ifMatch);
   }
 
-  @Router.delete("/repertoirefolders")
+  @Router.delete("/repertoirefolders", { _id: "id" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NoCounterError, NotFoundError, NotFolderOwnerError)
   async deleteRepertoire(session: WebSessionDoc, _id: ObjectId) {
-    const actor = WebSession.isActor(session);
-    Restrictions.check(actor, "actor");
     const user = WebSession.getUser(session);
-    await Applause.update(user, -0.5);
-    return await Folder.deleteRepertoire(user, new ObjectId(_id));
+    return await Folder.deleteRepertoire(user, _id);
   }
 
   /////////////////////////////////////////QUEUE//////////////////////////////////////////////
@@ -684,14 +773,17 @@ class Routes {
   /////////////////////////////////////////RESTRICTIONS//////////////////////////////////////////////
 
   @Router.get("/restrictions")
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NoRestrictionsError)
   async getAllowed(session: WebSessionDoc) {
     const user = WebSession.getUser(session);
     return await Restrictions.getAccountTypes(user);
   }
 
-  @Router.get("/restrictions/:id")
+  @Router.get("/restrictions/:id", { id: "id" })
+  @Router.raises(NoRestrictionsError)
   async getUserTypes(id: ObjectId) {
-    return await Restrictions.getAccountTypes(new ObjectId(id));
+    return await Restrictions.getAccountTypes(id);
   }
 
   @Router.get("/anyAdmins")
@@ -699,11 +791,13 @@ class Routes {
     return await Restrictions.anyAdmins();
   }
 
-  @Router.patch("/restrictions") // TO-DO: change account types for this to be string
-  async updateTypes(session: WebSessionDoc, accountTypes: string) {
+  @Router.patch("/restrictions", { accountTypes: { type: "list", enum: ["actor", "casting director", "admin"] } })
+  @Router.deprecated({ ...REPLACED_IN_V2, successor: "/api/v2/restrictions" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NoRestrictionsError)
+  async updateTypes(session: WebSessionDoc, accountTypes: string[]) {
     const user = WebSession.getUser(session);
-    const splitAccountTypes = accountTypes.split(", "); //
-    const msg = await Restrictions.edit(user, splitAccountTypes);
+    const msg = await Restrictions.edit(user, accountTypes);
     const actor = await Restrictions.isActor(user);
     const admin = await Restrictions.isAdmin(user);
     const castor = await Restrictions.isCastor(user);
@@ -713,33 +807,275 @@ class Routes {
 
   /////////////////////////////////////////VOTE//////////////////////////////////////////////
 
-  @Router.get("/vote")
+  @Router.get("/vote", { post: "id" })
+  @Router.raises(BadValuesError)
   async postVotes(post: ObjectId) {
-    await FocusedPost.getById(new ObjectId(post)); // verify post
-    return await Vote.votesForParent(new ObjectId(post));
+    await FocusedPost.getById(post); // verify post
+    return await Vote.votesForParent(post);
   }
 
-  @Router.post("/vote")
-  async upvote(session: WebSessionDoc, post: ObjectId, upvote: string) {
-    let upvotebool;
-    if (upvote === "true") {
-      upvotebool = true;
-    } else {
-      upvotebool = false;
-    }
+  @Router.post("/vote", { post: "id", upvote: "boolean" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError, NoCounterError)
+  async upvote(session: WebSessionDoc, post: ObjectId, upvote: boolean) {
+    const user = WebSession.getUser(session);
+    await FocusedPost.getById(post); // verify post
+    return await Vote.vote(user, post, upvote);
+  }
+
+  /////////////////////////////////////////TRASH//////////////////////////////////////////////
+
+  @Router.get("/trash/focusedPosts", { ...PAGE_PARAMS })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError)
+  async getPostTrash(session: WebSessionDoc, limit?: number, after?: string) {
+    const user = WebSession.getUser(session);
+    return await Responses.page(await FocusedPost.getTrash(user, { limit, after }), Responses.posts);
+  }
+
+  @Router.patch("/trash/focusedPosts/restore/:_id", { _id: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, NoCounterError)
+  async restorePost(session: WebSessionDoc, _id: ObjectId) {
+    const user = WebSession.getUser(session);
+    const restored = await FocusedPost.restore(_id, user);
+    return restored;
+  }
+
+  @Router.get("/trash/comments", { ...PAGE_PARAMS })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError)
+  async getCommentTrash(session: WebSessionDoc, limit?: number, after?: string) {
+    const user = WebSession.getUser(session);
+    return await Responses.page(await Comment.getTrash(user, { limit, after }), Responses.comments);
+  }
+
+  @Router.patch("/trash/comments/restore/:_id", { _id: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NotFoundError, NoCounterError)
+  async restoreComment(session: WebSessionDoc, _id: ObjectId) {
+    const user = WebSession.getUser(session);
+    const restored = await Comment.restore(_id, user);
+    return restored;
+  }
+
+  @Router.get("/trash/opportunities", { ...PAGE_PARAMS })
+  @RequireRole("casting director")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async getOpportunityTrash(session: WebSessionDoc, limit?: number, after?: string) {
+    const user = WebSession.getUser(session);
+    return await Responses.page(await Opportunity.getTrash(user, { limit, after }), Responses.opportunities);
+  }
+
+  @Router.patch("/trash/opportunities/restore/:_id", { _id: "id" })
+  @RequireRole("casting director")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, NoCounterError)
+  async restoreOpportunity(session: WebSessionDoc, _id: ObjectId) {
     const user = WebSession.getUser(session);
-    const postAuthor = (await FocusedPost.getById(new ObjectId(post))).author; // verify post
-    const voteResponse = await Vote.vote(user, new ObjectId(post), upvotebool);
-    await Applause.update(postAuthor, voteResponse.applausePoints);
-    return voteResponse;
+    const restored = await Opportunity.restore(_id, user);
+    return restored;
+  }
+
+  @Router.get("/trash/repertoirefolders", { ...PAGE_PARAMS })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async getRepertoireTrash(session: WebSessionDoc, limit?: number, after?: string) {
+    const user = WebSession.getUser(session);
+    return await Responses.page(await Folder.getRepertoireTrash(user, { limit, after }), Responses.folders);
+  }
+
+  @Router.patch("/trash/repertoirefolders/restore/:_id", { _id: "id" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError, NoCounterError)
+  async restoreRepertoire(session: WebSessionDoc, _id: ObjectId) {
+    const user = WebSession.getUser(session);
+    const restored = await Folder.restoreRepertoire(user, _id);
+    return restored;
+  }
+
+  @Router.delete("/trash", { before: { type: "date", optional: true } })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError)
+  async purgeTrash(before?: Date) {
+    const until = before ?? new Date();
+    return await transaction(async () => {
+      const posts = await FocusedPost.purge(until);
+      for (const media of posts.flatMap((post) => post.media)) {
+        await Media.delete(media);
+      }
+      const postIds = posts.map((post) => post._id);
+      await Tag.purgePosts(postIds);
+      const comments = [...(await Comment.purgeParents(postIds)), ...(await Comment.purge(until))];
+      await Vote.deleteParents([...postIds, ...comments.map((comment) => comment._id)]);
+      const opportunities = await Opportunity.purge(until);
+      const folders = await Folder.purgeRepertoires(until);
+      const purged = posts.length + comments.length + opportunities.length + folders.length;
+      return { msg: new FormattableMessage("Permanently deleted {0} items from the trash!", purged) };
+    });
+  }
+
+  /////////////////////////////////////////AUDIT LOG//////////////////////////////////////////////
+
+  @Router.get("/audit", {
+    user: { type: "id", optional: true },
+    collectionName: { type: "string", optional: true },
+    document: { type: "id", optional: true },
+    from: { type: "date", optional: true },
+    to: { type: "date", optional: true },
+    ...PAGE_PARAMS,
+  })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async getAuditLog(user?: ObjectId, collectionName?: string, document?: ObjectId, from?: Date, to?: Date, limit?: number, after?: string) {
+    const entries = await Audit.getEntries({ user, collectionName, document, from, to }, { limit, after });
+    return await Responses.page(entries, Responses.auditEntries);
+  }
+
+  /////////////////////////////////////////EVENTS//////////////////////////////////////////////
+
+  @Router.get("/events", { names: { type: "list", optional: true }, from: { type: "date", optional: true }, to: { type: "date", optional: true }, ...PAGE_PARAMS })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async getEventLog(names?: string[], from?: Date, to?: Date, limit?: number, after?: string) {
+    return await getEvents({ names, from, to }, { limit, after });
+  }
+
+  @Router.post("/events/replay", { names: "list", from: { type: "date", optional: true }, to: { type: "date", optional: true } })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async replayEvents(names: string[], from?: Date, to?: Date) {
+    // Either every event is replayed or none is.
+    const replayed = await transaction(async () => await replay({ names, from, to }));
+    return { msg: new FormattableMessage("Replayed {0} events!", replayed) };
+  }
+
+  /////////////////////////////////////////JOBS//////////////////////////////////////////////
+
+  @Router.get("/jobs", { ...PAGE_PARAMS })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async getScheduledJobs(limit?: number, after?: string) {
+    return await getJobs({ limit, after });
+  }
+
+  @Router.get("/jobs/runs", { name: { type: "string", optional: true }, status: { type: "string", optional: true, enum: ["succeeded", "failed"] }, ...PAGE_PARAMS })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError)
+  async getJobRunLog(name?: string, status?: "succeeded" | "failed", limit?: number, after?: string) {
+    return await getJobRuns({ name, status }, { limit, after });
+  }
+
+  @Router.post("/jobs/:name/run", { name: "string" })
+  @RequireRole("admin")
+  @Router.raises(UnauthenticatedError, NotAllowedError, NotFoundError)
+  async runJob(name: string) {
+    await runJobSoon(name);
+    return { msg: new FormattableMessage("Job {0} will run shortly!", name) };
+  }
+
+  /////////////////////////////////////////SEARCH//////////////////////////////////////////////
+
+  @Router.get("/search", { q: "string", types: { type: "list", enum: Search.getTypes(), optional: true }, ...PAGE_PARAMS })
+  @Router.raises(BadValuesError)
+  async search(q: string, types?: string[], limit?: number, after?: string) {
+    return await Search.search(q, types, { limit, after });
+  }
+
+  /////////////////////////////////////////STREAM//////////////////////////////////////////////
+
+  @Router.get("/stream", { lastEventId: { type: "string", optional: true } })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError)
+  streamUpdates(session: WebSessionDoc, req: Request, res: Response, lastEventId?: string) {
+    // Browsers send the id in the header when reconnecting; the param is for clients that can't set headers.
+    openStream(WebSession.getUser(session), req, res, req.get("Last-Event-ID") ?? lastEventId);
+  }
+
+  /////////////////////////////////////////GRAPHQL//////////////////////////////////////////////
+
+  @Router.post("/graphql", { query: "string", variables: { type: "object", optional: true }, operationName: { type: "string", optional: true } })
+  @Router.raises(BadValuesError)
+  async graphql(req: Request, query: string, variables?: Record<string, unknown>, operationName?: string) {
+    // Mutations run the routes of the latest version whichever version the query was sent to, like the schema they're in.
+    return await executeGraphQL(latest, req, query, variables, operationName);
   }
 
   /////////////////////////////////////////CATCH ALL//////////////////////////////////////////////
 
   @Router.get("/*")
+  @Router.raises(NotFoundError)
   catchAllError() {
-    return { msg: "route doesn't exist" };
+    throw new NotFoundError("route doesn't exist");
   }
 }
 
-export default getExpressRouter(new Routes());
+/**
+ * Version 2 of the API. Lists are only accepted as JSON arrays, since splitting strings on commas broke URLs containing commas,
+ * and posts take their media URLs as `media` like applications do. Routes not overridden here are the same as in v1.
+ */
+class RoutesV2 extends Routes {
+  @Router.post("/users", {
+    email: "string",
+    password: "string",
+    name: "string",
+    profilePic: { type: "string", optional: true },
+    birthday: "date",
+    city: "string",
+    state: "string",
+    country: "string",
+    userType: { type: "array", enum: ["actor", "casting director", "admin"] },
+  })
+  @Router.raises(NotAllowedError, BadValuesError, UserExistsError, HasPracticeFolderError, AlreadyInitializedError, HasPortfolioError)
+  async createUser(
+    session: WebSessionDoc,
+    email: string,
+    password: string,
+    name: string,
+    profilePic: string | undefined,
+    birthday: Date,
+    city: string,
+    state: string,
+    country: string,
+    userType: string[],
+  ) {
+    return await super.createUser(session, email, password, name, profilePic, birthday, city, state, country, userType);
+  }
+
+  @Router.post("/focusedPosts", { content: "string", media: { type: "array", default: [] }, categoryID: "id" })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError, NotFoundError, NotAllowedError, NoCounterError)
+  async createPost(session: WebSessionDoc, content: string, media: string[], categoryID: ObjectId) {
+    return await super.createPost(session, content, media, categoryID);
+  }
+
+  @Router.post("/acceptChallenge", { content: "string", media: { type: "array", default: [] } })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, BadValuesError, NotAllowedError, NoCounterError)
+  async acceptChallenge(session: WebSessionDoc, content: string, media: string[]) {
+    return await super.acceptChallenge(session, content, media);
+  }
+
+  @Router.post("/application", { text: "string", media: { type: "array", default: [] }, opId: "id" })
+  @RequireRole("actor")
+  @Router.raises(UnauthenticatedError, NotAllowedError, BadValuesError, NotFoundError, NoCounterError)
+  async createApplication(session: WebSessionDoc, text: string, media: string[], opId: ObjectId) {
+    return await super.createApplication(session, text, media, opId);
+  }
+
+  @Router.patch("/restrictions", { accountTypes: { type: "array", enum: ["actor", "casting director", "admin"] } })
+  @RequireLogin
+  @Router.raises(UnauthenticatedError, NoRestrictionsError)
+  async updateTypes(session: WebSessionDoc, accountTypes: string[]) {
+    return await super.updateTypes(session, accountTypes);
+  }
+}
+
+const latest = new RoutesV2();
+
+export default getExpressRouter(
+  [
+    { name: "v1", routes: new Routes() },
+    { name: "v2", routes: latest },
+  ],
+  { title: "StageLights API", version: "0.1-alpha" },
+);
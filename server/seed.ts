@@ -0,0 +1,247 @@
+import { ObjectId } from "mongodb";
+
+import { Application, Challenge, Comment, Connection, Folder, FocusedPost, Media, Opportunity, Portfolio, Restrictions, Tag, User, Vote } from "./app";
+import DocCollection from "./framework/doc";
+import { migrateUp } from "./framework/migrations";
+import migrations from "./migrations";
+
+/**
+ * How much of everything a seeded database has.
+ */
+export interface SeedProfile {
+  name: string;
+  description: string;
+  castingDirectors: number;
+  actors: number;
+  categories: number;
+  proposedChallenges: number;
+  /** Per casting director. */
+  opportunities: number;
+  /** Per opportunity, taken by actors picked at random. */
+  applications: number;
+  /** Per user. */
+  posts: number;
+  /** Per post. */
+  comments: number;
+  /** Per user. */
+  connections: number;
+}
+
+export const profiles: SeedProfile[] = [
+  {
+    name: "empty",
+    description: "Only the admin account",
+    castingDirectors: 0,
+    actors: 0,
+    categories: 0,
+    proposedChallenges: 0,
+    opportunities: 0,
+    applications: 0,
+    posts: 0,
+    comments: 0,
+    connections: 0,
+  },
+  {
+    name: "small-theatre",
+    description: "A community theatre: a couple of directors casting a few shows among a dozen actors",
+    castingDirectors: 2,
+    actors: 12,
+    categories: 4,
+    proposedChallenges: 5,
+    opportunities: 2,
+    applications: 4,
+    posts: 2,
+    comments: 2,
+    connections: 3,
+  },
+  {
+    name: "large-casting-season",
+    description: "A busy season: many directors and actors, lots of opportunities and applications",
+    castingDirectors: 10,
+    actors: 80,
+    categories: 8,
+    proposedChallenges: 30,
+    opportunities: 4,
+    applications: 12,
+    posts: 3,
+    comments: 3,
+    connections: 8,
+  },
+];
+
+/** Password of every seeded account. */
+export const SEED_PASSWORD = "stagelights";
+
+const FIRST_NAMES = ["Ada", "Ben", "Carmen", "Dev", "Elena", "Femi", "Grace", "Hiro", "Ines", "Jonah", "Kemi", "Luca", "Maya", "Noor", "Omar", "Priya", "Quinn", "Rosa", "Sam", "Tess"];
+const LAST_NAMES = ["Adler", "Brooks", "Castro", "Dube", "Evans", "Fischer", "Garcia", "Huang", "Ito", "Jensen", "Khan", "Lopez", "Moreau", "Nakamura", "Okafor", "Patel"];
+const PLACES = [
+  ["Boston", "MA", "USA"],
+  ["Chicago", "IL", "USA"],
+  ["New York", "NY", "USA"],
+  ["Seattle", "WA", "USA"],
+  ["Toronto", "ON", "Canada"],
+];
+const CATEGORIES = ["Monologue", "Musical Theatre", "Dance", "Improv", "Voice Over", "Stage Combat", "Shakespeare", "Comedy"];
+const SHOWS = ["Hamlet", "Our Town", "Into the Woods", "The Seagull", "Cabaret", "A Doll's House", "Rent", "Twelfth Night", "Fences", "Company"];
+const ROLES = ["Lead", "Supporting Role", "Ensemble", "Understudy", "Swing"];
+const SKILLS = ["singing", "tap", "ballet", "accents", "guitar", "stage combat", "puppetry", "juggling"];
+const PROMPTS = ["Perform a monologue as a villain", "Sing a verse a cappella", "Improvise a scene with a chair", "Tell a story with no words", "Read a poem in an accent"];
+const LINES = ["Loved this!", "What a performance.", "Such good energy!", "This made my day.", "Bravo!", "Great choices here.", "Can't wait to see more."];
+const STATUSES = ["approved", "audition", "rejected"] as const;
+
+/**
+ * Makes a random number generator (mulberry32) whose numbers only depend on `seed`, so seeding with the same value gives the same data.
+ */
+function randomFrom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const pick = <T>(items: readonly T[]) => items[int(items.length)];
+  // Picks `count` different items, fewer if there aren't that many.
+  const sample = <T>(items: readonly T[], count: number) => {
+    const left = [...items];
+    return Array.from({ length: Math.min(count, left.length) }, () => left.splice(int(left.length), 1)[0]);
+  };
+  return { int, pick, sample };
+}
+
+const DAY = 24 * 60 * 60_000;
+
+function mediaURL(key: string) {
+  return `https://drive.google.com/file/d/seed-${key}/preview`;
+}
+
+/**
+ * Creates an account with everything the `POST /users` route sets up along with it.
+ */
+async function createAccount(email: string, name: string, birthday: Date, place: string[], accountTypes: string[]) {
+  const { user } = await User.create(email, SEED_PASSWORD, name, birthday, place[0], place[1], place[2]);
+  const _id = user!._id;
+  await Folder.createPractice(_id);
+  await Restrictions.create(_id, accountTypes);
+  const profilePic = await Media.create(_id, mediaURL(`profile-${_id.toHexString()}`));
+  await User.updateProfilePic(_id, profilePic);
+  await Portfolio.create(_id, profilePic);
+  return _id;
+}
+
+/**
+ * Removes all data, leaving the database as a fresh install would (with every migration applied).
+ */
+export async function resetDatabase() {
+  await DocCollection.clearAll();
+  await migrateUp(migrations);
+}
+
+/**
+ * Fills the database with the data of `profile` through the concepts, so it is consistent (applause, portfolios, counters...).
+ * The same profile and seed always give the same users, posts and so on, though ids and dates differ.
+ * The accounts are `admin@stagelights.test`, `director<n>@stagelights.test` and `actor<n>@stagelights.test`, all with {@link SEED_PASSWORD}.
+ * @returns how many of each thing were created
+ * @throws Error if there's no profile named `profile`
+ */
+export async function seed(profile: string, seedValue = 1) {
+  const counts = profiles.find((p) => p.name === profile);
+  if (!counts) {
+    throw new Error(`No seed profile is named '${profile}'! Profiles are: ${profiles.map((p) => p.name).join(", ")}`);
+  }
+  const random = randomFrom(seedValue);
+  const person = () => `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+  const birthday = () => new Date(Date.UTC(1960 + random.int(45), random.int(12), 1 + random.int(28)));
+  const now = Date.now();
+
+  await createAccount("admin@stagelights.test", "Admin", new Date(Date.UTC(1990, 0, 1)), PLACES[0], ["admin"]);
+  const directors: ObjectId[] = [];
+  for (let i = 1; i <= counts.castingDirectors; i++) {
+    directors.push(await createAccount(`director${i}@stagelights.test`, person(), birthday(), random.pick(PLACES), ["casting director"]));
+  }
+  const actors: ObjectId[] = [];
+  for (let i = 1; i <= counts.actors; i++) {
+    actors.push(await createAccount(`actor${i}@stagelights.test`, person(), birthday(), random.pick(PLACES), ["actor"]));
+  }
+  const users = [...directors, ...actors];
+
+  const categories: ObjectId[] = [];
+  for (const name of CATEGORIES.slice(0, counts.categories)) {
+    categories.push((await FocusedPost.createCategory(name, `Posts about ${name.toLowerCase()}`)).category!._id);
+  }
+
+  for (let i = 0; i < counts.proposedChallenges; i++) {
+    await Challenge.propose(random.pick(users), `${random.pick(PROMPTS)} #${i + 1}`);
+  }
+
+  let applications = 0;
+  for (const director of directors) {
+    for (let i = 0; i < counts.opportunities; i++) {
+      const startOn = new Date(now + (7 + random.int(60)) * DAY);
+      const endsOn = new Date(startOn.getTime() + (14 + random.int(60)) * DAY);
+      const title = `${random.pick(ROLES)} in ${random.pick(SHOWS)}`;
+      const requirements = { physical: [], skill: random.sample(SKILLS, 1 + random.int(2)), location: random.pick(PLACES)[0] };
+      const { opportunity } = await Opportunity.create(director, title, `Casting the ${title.toLowerCase()}.`, startOn, endsOn, requirements);
+      for (const actor of random.sample(actors, counts.applications)) {
+        const { application } = await Application.create(director, actor, `I'd love to play the ${title.toLowerCase()}!`, [], opportunity!._id);
+        applications++;
+        // Some have been looked at already.
+        if (random.int(2) === 0) {
+          await Application.changeStatus(director, application!._id, random.pick(STATUSES));
+        }
+      }
+    }
+  }
+
+  let posts = 0;
+  let comments = 0;
+  if (categories.length > 0) {
+    for (const author of users) {
+      for (let i = 0; i < counts.posts; i++) {
+        const media = [await Media.create(author, mediaURL(`post-${author.toHexString()}-${i}`))];
+        const { post } = await FocusedPost.create(author, `${random.pick(PROMPTS)}, take ${i + 1}`, media, random.pick(categories));
+        posts++;
+        for (const commenter of random.sample(users, counts.comments)) {
+          await Comment.create(commenter, random.pick(LINES), post!._id);
+          comments++;
+        }
+        for (const voter of random.sample(users, random.int(counts.comments + 1))) {
+          await Vote.vote(voter, post!._id, random.int(4) > 0);
+        }
+        const tagged = random.pick(users);
+        if (random.int(3) === 0 && !tagged.equals(author)) {
+          await Tag.create(author, tagged, post!._id);
+        }
+      }
+    }
+  }
+
+  // Each pair of users connects once, the other way around too.
+  const connected = new Set<string>();
+  for (const user of users) {
+    for (const other of random.sample(users, counts.connections)) {
+      const pair = [user.toHexString(), other.toHexString()].sort().join();
+      if (user.equals(other) || connected.has(pair)) {
+        continue;
+      }
+      connected.add(pair);
+      await Connection.sendRequest(user, other);
+      // Some requests are still waiting for an answer.
+      if (random.int(4) > 0) {
+        await Connection.acceptRequest(user, other);
+      }
+    }
+  }
+
+  return {
+    users: users.length + 1,
+    categories: categories.length,
+    challenges: counts.proposedChallenges,
+    opportunities: directors.length * counts.opportunities,
+    applications,
+    posts,
+    comments,
+  };
+}
@@ -0,0 +1,312 @@
+import { ObjectId } from "mongodb";
+
+import { Applause, Application, Comment, Folder, FocusedPost, Media, Opportunity, Portfolio, Restrictions, Tag, User, Vote } from "./app";
+import { BadValuesError, NotAllowedError } from "./concepts/errors";
+import { PortfolioDoc, ProfessionalInfo, Style } from "./concepts/portfolio";
+import { ParamSchema, parseParams } from "./framework/params";
+import { ZipEntry } from "./framework/zip";
+
+/** Identifies the archives made by {@link exportAccount}. */
+export const TAKEOUT_FORMAT = "stagelights-takeout";
+/** Bumped when the files of the archive change in a way older imports can't read. */
+export const TAKEOUT_VERSION = 1;
+
+export interface TakeoutManifest {
+  format: typeof TAKEOUT_FORMAT;
+  version: number;
+  exportedAt: Date;
+  /** Name and email of the exported account. */
+  user: { name: string; email: string };
+  /** Every other file of the archive, with how many items it has. */
+  files: { name: string; count: number }[];
+}
+
+/** Longest excerpt of a post kept when referring to it, e.g. from a comment. */
+const EXCERPT_LENGTH = 80;
+
+function json(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+function excerpt(content: string) {
+  return content.length > EXCERPT_LENGTH ? `${content.slice(0, EXCERPT_LENGTH - 1)}…` : content;
+}
+
+/**
+ * Describes posts by their author and the start of their content, since their ids mean nothing outside of the app.
+ */
+async function describePosts(ids: ObjectId[]) {
+  const posts = await FocusedPost.idsToPosts(ids);
+  const authors = await User.idsToNames(posts.map((post) => post?.author ?? new ObjectId()));
+  return posts.map((post, i) => (post ? { author: authors[i], content: excerpt(post.content) } : "DELETED"));
+}
+
+/**
+ * Gathers everything `user` owns or authored into the files of a takeout archive: a JSON file per concept,
+ * with ids of users, posts, categories, opportunities and media replaced by names, excerpts, titles and URLs,
+ * plus a `manifest.json` describing the archive. Things in the trash aren't included.
+ * @param user id of the user
+ * @returns the files of the archive, to pass to {@link createZip}
+ */
+export async function exportAccount(user: ObjectId) {
+  const profile = await User.getUserById(user);
+  const media = await Media.exportUser(user);
+  const urls = new Map(media.map((item) => [item._id.toHexString(), item.url]));
+  // Media is only ever used by its owner, so all of it is in `urls` unless it was deleted.
+  const url = (_id: ObjectId) => urls.get(_id.toHexString()) ?? "DELETED";
+
+  const portfolio = await Portfolio.exportUser(user);
+  const posts = await FocusedPost.exportUser(user);
+  const categories = await Promise.all(posts.map(async (post) => (await FocusedPost.getCategory(post.category)).name));
+  const comments = await Comment.exportUser(user);
+  const commentedOn = await describePosts(comments.map((comment) => comment.parent));
+  const tags = await Tag.exportUser(user);
+  const taggers = await User.idsToNames(tags.map((tag) => tag.tagger));
+  const tagged = await User.idsToNames(tags.map((tag) => tag.tagged));
+  const taggedIn = await describePosts(tags.map((tag) => tag.post));
+  const applications = await Application.exportUser(user);
+  const owners = await User.idsToNames(applications.map((application) => application.owner));
+  const opportunities = await Opportunity.idsToTitles(applications.map((application) => application.applicationFor));
+  const folders = await Folder.exportUser(user);
+  const votes = await Vote.exportUser(user);
+  const votedOn = await describePosts(votes.map((vote) => vote.parent));
+
+  const files: { name: string; data: unknown; count: number }[] = [
+    {
+      name: "user.json",
+      data: {
+        name: profile.name,
+        email: profile.email,
+        birthday: profile.birthday,
+        city: profile.city,
+        state: profile.state,
+        country: profile.country,
+        locale: profile.locale ?? null,
+        profilePic: url(profile.profilePic),
+        accountTypes: await Restrictions.getAccountTypes(user),
+        dateCreated: profile.dateCreated,
+      },
+      count: 1,
+    },
+    {
+      name: "portfolio.json",
+      data: portfolio && { intro: portfolio.intro, style: portfolio.style, info: portfolio.info, headshot: url(portfolio.headshot), media: portfolio.media.map(url) },
+      count: portfolio ? 1 : 0,
+    },
+    {
+      name: "posts.json",
+      data: posts.map((post, i) => ({ content: post.content, category: categories[i], media: post.media.map(url), dateCreated: post.dateCreated, dateUpdated: post.dateUpdated })),
+      count: posts.length,
+    },
+    {
+      name: "comments.json",
+      data: comments.map((comment, i) => ({ content: comment.content, post: commentedOn[i], dateCreated: comment.dateCreated, dateUpdated: comment.dateUpdated })),
+      count: comments.length,
+    },
+    {
+      name: "tags.json",
+      data: tags.map((tag, i) => ({ tagger: taggers[i], tagged: tagged[i], post: taggedIn[i], dateCreated: tag.dateCreated })),
+      count: tags.length,
+    },
+    {
+      name: "applications.json",
+      data: applications.map((application, i) => ({
+        opportunity: opportunities[i],
+        owner: owners[i],
+        status: application.status,
+        text: application.text,
+        media: application.media.map(url),
+        dateCreated: application.dateCreated,
+        dateUpdated: application.dateUpdated,
+      })),
+      count: applications.length,
+    },
+    {
+      name: "folders.json",
+      data: {
+        practice: folders.practice?.contents ?? [],
+        repertoire: folders.repertoire.map((folder) => ({ name: folder.name, contents: folder.contents, dateCreated: folder.dateCreated })),
+      },
+      count: (folders.practice ? 1 : 0) + folders.repertoire.length,
+    },
+    {
+      name: "applause.json",
+      data: { value: await Applause.getValueByUser(user) },
+      count: 1,
+    },
+    {
+      name: "votes.json",
+      data: votes.map((vote, i) => ({ upvote: vote.upvote, post: votedOn[i], dateCreated: vote.dateCreated })),
+      count: votes.length,
+    },
+    {
+      name: "media.json",
+      data: media.map((item) => ({ url: item.url, dateCreated: item.dateCreated })),
+      count: media.length,
+    },
+  ];
+  const manifest: TakeoutManifest = {
+    format: TAKEOUT_FORMAT,
+    version: TAKEOUT_VERSION,
+    exportedAt: new Date(),
+    user: { name: profile.name, email: profile.email },
+    files: files.map(({ name, count }) => ({ name, count })),
+  };
+  const entries: ZipEntry[] = [{ name: "manifest.json", data: json(manifest) }];
+  return entries.concat(files.map(({ name, data }) => ({ name, data: json(data) })));
+}
+
+/**
+ * Parses the JSON file `name` of an archive, `fallback` if the archive doesn't have it.
+ * @throws BadValuesError if the file isn't valid JSON
+ */
+function readJSON(files: Map<string, Buffer>, name: string, fallback: unknown = null): unknown {
+  const file = files.get(name);
+  if (!file) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(file.toString("utf8"));
+  } catch {
+    throw new BadValuesError("{0} in the archive isn't valid JSON!", name);
+  }
+}
+
+/**
+ * Validates and coerces the fields of `item` like route parameters, see {@link parseParams}.
+ */
+function parseItem<T>(schema: ParamSchema, item: unknown) {
+  const names = Object.keys(schema);
+  const raw = item !== null && typeof item === "object" ? (item as Record<string, unknown>) : {};
+  const values = parseParams(
+    schema,
+    names,
+    names.map((name) => raw[name]),
+  );
+  return Object.fromEntries(names.map((name, i) => [name, values[i]])) as T;
+}
+
+const STYLE_SCHEMA: ParamSchema = {
+  backgroundImage: { type: "string", optional: true },
+  backgroundColor: { type: "string", optional: true },
+  font: "string",
+  fontSize: "number",
+  textColor: "string",
+};
+
+const INFO_SCHEMA: ParamSchema = {
+  education: { type: "array", default: [] },
+  experience: { type: "array", default: [] },
+  skills: { type: "array", default: [] },
+  languages: { type: "array", default: [] },
+};
+
+function parseStyle(item: unknown): Style {
+  const style = parseItem<Style>(STYLE_SCHEMA, item);
+  return { ...style, backgroundImage: style.backgroundImage ?? null, backgroundColor: style.backgroundColor ?? null };
+}
+
+function parseItems<T>(schema: ParamSchema, items: unknown, name: string) {
+  if (!Array.isArray(items)) {
+    throw new BadValuesError("{0} in the archive isn't valid!", name);
+  }
+  return items.map((item) => parseItem<T>(schema, item));
+}
+
+/**
+ * Recreates the content of a takeout archive made by {@link exportAccount} in the account of `user`: the portfolio, posts and folders,
+ * along with their media. Comments, tags, votes and applications refer to other people's content, so they aren't imported,
+ * and neither are posts in a category that doesn't exist here. Run it in a transaction so a failed import leaves nothing behind.
+ * @param user id of the user
+ * @param files files of the archive, from {@link readZip}
+ * @returns how many of each thing were imported
+ * @throws BadValuesError if the archive isn't a takeout archive, or one of its files is invalid
+ * @throws NotAllowedError if the account already has posts, repertoire folders or media other than its profile picture
+ */
+export async function importAccount(user: ObjectId, files: Map<string, Buffer>) {
+  const manifest = readJSON(files, "manifest.json") as Partial<TakeoutManifest> | null;
+  if (manifest?.format !== TAKEOUT_FORMAT || typeof manifest.version !== "number") {
+    throw new BadValuesError("The file isn't a Stagelights export!");
+  }
+  if (manifest.version > TAKEOUT_VERSION) {
+    throw new BadValuesError("The export was made by a newer version of Stagelights!");
+  }
+  // A new account's only media is its profile picture, which is also its headshot. Importing an archive with media (a headshot,
+  // or media of the portfolio or posts) adds more, and importing one without any again changes nothing, so archives are only imported once.
+  const existing = await Folder.exportUser(user);
+  if ((await FocusedPost.exportUser(user)).length > 0 || existing.repertoire.length > 0 || (await Media.exportUser(user)).length > 1) {
+    throw new NotAllowedError("Data can only be imported into a new account, without posts, repertoire folders or media!");
+  }
+
+  const imported = { portfolio: 0, posts: 0, skippedPosts: 0, folders: 0, media: 0 };
+  const createMedia = async (url: string) => {
+    imported.media++;
+    return await Media.create(user, url);
+  };
+
+  const portfolioData = readJSON(files, "portfolio.json");
+  if (portfolioData) {
+    const portfolio = parseItem<{ intro?: string; style?: Record<string, unknown>; info?: Record<string, unknown>; headshot?: string; media: string[] }>(
+      {
+        intro: { type: "string", optional: true },
+        style: { type: "object", optional: true },
+        info: { type: "object", optional: true },
+        headshot: { type: "string", optional: true },
+        media: { type: "array", default: [] },
+      },
+      portfolioData,
+    );
+    const { headshot, media, intro, style, info } = portfolio;
+    const changes: Partial<PortfolioDoc> = {
+      ...(intro !== undefined && { intro }),
+      ...(style && { style: parseStyle(style) }),
+      ...(info && { info: parseItem<ProfessionalInfo>(INFO_SCHEMA, info) }),
+    };
+    if (Object.keys(changes).length > 0) {
+      await Portfolio.update(user, changes);
+    }
+    if (headshot && headshot !== "DELETED") {
+      // The headshot of a new account is its profile picture, which stays.
+      await Portfolio.updateHeadshot(user, await createMedia(headshot));
+    }
+    for (const url of media.filter((url) => url !== "DELETED")) {
+      await Portfolio.addMedia(user, await createMedia(url));
+    }
+    imported.portfolio = 1;
+  }
+
+  const posts = parseItems<{ content: string; category: string; media: string[] }>(
+    { content: "string", category: "string", media: { type: "array", default: [] } },
+    readJSON(files, "posts.json", []),
+    "posts.json",
+  );
+  for (const post of posts) {
+    const category = await FocusedPost.findCategory(post.category);
+    if (!category) {
+      imported.skippedPosts++;
+      continue;
+    }
+    const media: ObjectId[] = [];
+    for (const url of post.media.filter((url) => url !== "DELETED")) {
+      media.push(await createMedia(url));
+    }
+    await FocusedPost.create(user, post.content, media, category._id);
+    imported.posts++;
+  }
+
+  const folders = readJSON(files, "folders.json", {}) as { repertoire?: unknown };
+  const { practice } = parseItem<{ practice: string[] }>({ practice: { type: "array", default: [] } }, folders);
+  if (existing.practice) {
+    for (const item of new Set(practice.filter((item) => !existing.practice!.contents.includes(item)))) {
+      await Folder.addPractice(user, item);
+    }
+  }
+  for (const repertoire of parseItems<{ name: string; contents: string[] }>({ name: "string", contents: { type: "array", default: [] } }, folders.repertoire ?? [], "folders.json")) {
+    const { folder } = await Folder.createRepertoire(user, repertoire.name);
+    for (const item of new Set(repertoire.contents)) {
+      await Folder.addRepertoire(user, folder!._id, item);
+    }
+    imported.folders++;
+  }
+  return imported;
+}
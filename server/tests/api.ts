@@ -0,0 +1,73 @@
+import express from "express";
+import session from "express-session";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import assert from "node:assert/strict";
+
+import router from "../routes";
+
+export interface ApiResponse<T> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+/** What most routes respond with, at least. */
+export interface Message {
+  msg?: string;
+  code?: string;
+}
+
+/**
+ * Serves the API like `api/index.ts` does, on a free port and with the data kept in memory.
+ * @returns the URL of the API and a function to stop serving it
+ */
+export function serveApi() {
+  const app = express();
+  app.use(express.json());
+  app.use(express.raw({ type: "application/zip", limit: "20mb" }));
+  app.use(session({ secret: "test", resave: true, saveUninitialized: false }));
+  app.use("/api", router);
+  const server: Server = app.listen(0);
+  return { url: `http://localhost:${(server.address() as AddressInfo).port}/api`, close: () => server.close() };
+}
+
+/**
+ * Someone using the API, who keeps their session cookie between requests.
+ */
+export class Client {
+  private cookie?: string;
+
+  constructor(private readonly api: string) {}
+
+  /**
+   * Sends a request with a JSON body, or a raw one for buffers.
+   */
+  async request<T = Message>(method: string, path: string, body?: object, headers: Record<string, string> = {}): Promise<ApiResponse<T>> {
+    const raw = body instanceof Buffer;
+    const response = await fetch(`${this.api}${path}`, {
+      method,
+      headers: { ...(body && !raw && { "Content-Type": "application/json" }), ...(this.cookie && { Cookie: this.cookie }), ...headers },
+      body: raw ? body : body && JSON.stringify(body),
+    });
+    const cookie = response.headers.get("set-cookie");
+    if (cookie) {
+      this.cookie = cookie.split(";")[0];
+    }
+    const type = response.headers.get("content-type") ?? "";
+    return { status: response.status, headers: response.headers, body: (type.includes("json") ? await response.json() : Buffer.from(await response.arrayBuffer())) as T };
+  }
+
+  /**
+   * Creates an account and logs in with it.
+   * @returns the id of the new user
+   */
+  async signUp(email: string, userType = ["actor"]) {
+    const account = { email, password: "password" };
+    const signup = await this.request<{ user: { _id: string } }>("POST", "/users", { ...account, name: email, birthday: "2000-01-01", city: "Boston", state: "MA", country: "USA", userType });
+    assert.equal(signup.status, 200);
+    const login = await this.request("POST", "/login", account);
+    assert.equal(login.status, 200);
+    return signup.body.user._id;
+  }
+}
@@ -0,0 +1,46 @@
+import { ObjectId } from "mongodb";
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { Applause } from "../app";
+import { Client, serveApi } from "./api";
+
+void describe("Applause", () => {
+  const api = serveApi();
+  const admin = new Client(api.url);
+  const actor = new Client(api.url);
+  let actorId: ObjectId;
+
+  before(async () => {
+    await admin.signUp("admin@applause.test", ["admin"]);
+    actorId = new ObjectId(await actor.signUp("actor@applause.test"));
+  });
+
+  after(() => {
+    api.close();
+  });
+
+  async function applause() {
+    return (await actor.request<number>("GET", "/applause")).body;
+  }
+
+  const headshot = "https://drive.google.com/file/d/headshot/view";
+
+  void it("awards 0.5 per edit of a portfolio, whatever it changes", async () => {
+    assert.equal(await applause(), 0);
+    const edits = [{ update: { intro: "Hi!" } }, { headshot }, { update: { intro: "Hello!" }, headshot }, {}];
+    for (const [i, edit] of edits.entries()) {
+      assert.equal((await actor.request("PATCH", "/portfolio", edit)).status, 200);
+      assert.equal(await applause(), 0.5 * (i + 1));
+    }
+  });
+
+  void it("adds up the same again when replaying the recorded events", async () => {
+    const expected = await applause();
+    await Applause.applauses.updateOne({ user: actorId }, { value: 0 });
+    const replayed = await admin.request("POST", "/events/replay", { names: ["PortfolioEdited"] });
+    assert.equal(replayed.status, 200);
+    assert.equal(replayed.body.msg, "Replayed 4 events!");
+    assert.equal(await applause(), expected);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { renderMetrics } from "../framework/metrics";
+import { Client, Message, serveApi } from "./api";
+
+void describe("POST /batch", () => {
+  const api = serveApi();
+  const client = new Client(api.url);
+
+  before(async () => {
+    await client.signUp("batch@test");
+  });
+
+  after(() => {
+    api.close();
+  });
+
+  async function batch(requests: { method: string; path: string }[]) {
+    const response = await client.request<{ responses: { status: number; body: Message }[] }>("POST", "/batch", { requests });
+    assert.equal(response.status, 200);
+    return response.body.responses;
+  }
+
+  void it("rejects the routes that write their response themselves, without failing the others", async () => {
+    const responses = await batch([
+      { method: "get", path: "/stream" },
+      { method: "get", path: "/users/export" },
+      { method: "get", path: "/session" },
+    ]);
+    assert.deepEqual(
+      responses.map((response) => [response.status, response.body.code, response.body.msg]),
+      [
+        [400, "BAD_VALUES", "GET /api/stream responds itself, so it can't be in a batch!"],
+        [400, "BAD_VALUES", "GET /api/users/export responds itself, so it can't be in a batch!"],
+        [200, undefined, undefined],
+      ],
+    );
+  });
+
+  void it("measures each request of a batch with its own status", async () => {
+    await batch([
+      { method: "get", path: "/session" },
+      { method: "get", path: "/users/not-an-id" },
+    ]);
+    const metrics = renderMetrics();
+    assert.match(metrics, /http_request_duration_seconds_count\{method="GET",route="\/api\/session",status="200"\} [1-9]/);
+    assert.match(metrics, /http_request_duration_seconds_count\{method="GET",route="\/api\/users\/:id",status="400"\} 1/);
+    assert.doesNotMatch(metrics, /status="undefined"/);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { Client, serveApi } from "./api";
+
+void describe("Concurrent edits", () => {
+  const api = serveApi();
+  const author = new Client(api.url);
+  let post: string;
+
+  before(async () => {
+    const admin = new Client(api.url);
+    await admin.signUp("admin@concurrency.test", ["admin"]);
+    const category = (await admin.request<{ category: { _id: string } }>("POST", "/categories", { name: "Monologue", description: "Monologues" })).body.category._id;
+    await author.signUp("author@concurrency.test");
+    post = (await author.request<{ post: { _id: string } }>("POST", "/focusedPosts", { content: "First draft", categoryID: category })).body.post._id;
+  });
+
+  after(() => {
+    api.close();
+  });
+
+  async function read() {
+    const response = await author.request<{ content: string; version: number }>("GET", `/focusedPosts/${post}`);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("ETag"), `"${response.body.version}"`);
+    return response;
+  }
+
+  async function edit(content: string, ifMatch: string) {
+    return await author.request("PATCH", `/focusedPosts/${post}`, { update: { content } }, { "If-Match": ifMatch });
+  }
+
+  void it("sends the version of documents as their ETag and updates them if it still matches", async () => {
+    const etag = (await read()).headers.get("ETag")!;
+    assert.equal(etag, '"1"');
+    assert.equal((await edit("Second draft", etag)).status, 200);
+    const { headers, body } = await read();
+    assert.equal(headers.get("ETag"), '"2"');
+    assert.equal(body.content, "Second draft");
+  });
+
+  void it("refuses changes made to an older version with a 409", async () => {
+    const etag = (await read()).headers.get("ETag")!;
+    assert.equal((await edit("Mine", etag)).status, 200);
+    const conflict = await edit("Theirs", etag);
+    assert.equal(conflict.status, 409);
+    assert.equal(conflict.body.code, "CONFLICT");
+    assert.equal((await read()).body.content, "Mine");
+  });
+
+  void it("refuses If-Match headers that aren't the ETag of a version with a 412", async () => {
+    const failed = await edit("Anything", 'W/"1a-Xyz"');
+    assert.equal(failed.status, 412);
+    assert.equal(failed.body.code, "PRECONDITION_FAILED");
+    // Any version matches *.
+    assert.equal((await edit("Final draft", "*")).status, 200);
+    assert.equal((await read()).body.content, "Final draft");
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { Client, serveApi } from "./api";
+
+interface GraphQLResponse {
+  data: Record<string, { [field: string]: unknown } | null> | null;
+  errors?: { message: string; extensions?: { code: string } }[];
+}
+
+void describe("POST /graphql", () => {
+  const api = serveApi();
+  const visitor = new Client(api.url);
+  const actor = new Client(api.url);
+  const director = new Client(api.url);
+  let opportunity: string;
+
+  async function query(client: Client, query: string, variables?: Record<string, unknown>) {
+    const response = await client.request<GraphQLResponse>("POST", "/graphql", { query, variables });
+    assert.equal(response.status, 200);
+    return response.body;
+  }
+
+  function codes(response: GraphQLResponse) {
+    return response.errors?.map((error) => error.extensions?.code);
+  }
+
+  const createOpportunity = `mutation { createOpportunity(title: "Hamlet", description: "Auditions", startOn: "2030-01-01T00:00:00Z", endsOn: "2030-02-01T00:00:00Z") { msg opportunity { _id } } }`;
+
+  before(async () => {
+    await actor.signUp("actor@graphql.test");
+    await director.signUp("director@graphql.test", ["casting director"]);
+    const created = await query(director, createOpportunity);
+    assert.equal(created.errors, undefined);
+    opportunity = (created.data!.createOpportunity!.opportunity as { _id: string })._id;
+  });
+
+  after(() => {
+    api.close();
+  });
+
+  void it("requires logging in for the fields and mutations whose routes do", async () => {
+    const me = await query(visitor, "{ me { name } }");
+    assert.deepEqual(me.data, { me: null });
+    assert.deepEqual(codes(me), ["UNAUTHENTICATED"]);
+    const created = await query(visitor, `mutation { createPost(content: "Hi", categoryID: "${opportunity}") { msg } }`);
+    assert.equal(created.data, null);
+    assert.deepEqual(codes(created), ["UNAUTHENTICATED"]);
+    // Public fields don't.
+    assert.deepEqual((await query(visitor, `{ opportunity(id: "${opportunity}") { title } }`)).data, { opportunity: { title: "Hamlet" } });
+  });
+
+  void it("resolves the fields of the logged in user", async () => {
+    const me = await query(actor, "{ me { name } myApplications { items { _id } } }");
+    assert.equal(me.errors, undefined);
+    assert.deepEqual(me.data, { me: { name: "actor@graphql.test" }, myApplications: { items: [] } });
+  });
+
+  void it("checks roles like the REST API", async () => {
+    const applications = `query ($id: ID!) { opportunity(id: $id) { applications { items { _id } } } }`;
+    const applied = await query(actor, `mutation ($id: ID!) { createApplication(text: "Pick me", opId: $id) { application { _id } } }`, { id: opportunity });
+    assert.equal(applied.errors, undefined);
+    assert.deepEqual(codes(await query(actor, applications, { id: opportunity })), ["NOT_ALLOWED"]);
+    assert.deepEqual((await query(director, applications, { id: opportunity })).data, { opportunity: { applications: { items: [applied.data!.createApplication!.application] } } });
+    assert.deepEqual(codes(await query(director, "{ myApplications { items { _id } } }")), ["NOT_ALLOWED"]);
+    assert.deepEqual(codes(await query(actor, createOpportunity)), ["NOT_ALLOWED"]);
+  });
+});
@@ -0,0 +1,118 @@
+import { Document } from "mongodb";
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+
+import db from "../db";
+import { Job, getJobRuns, getJobs, scheduleJob, startScheduler, stopScheduler } from "../framework/jobs";
+
+/** How often the scheduler looks for due jobs. */
+const POLL_MS = 15_000;
+
+void describe("Jobs", () => {
+  const tries = new Map<string, number>();
+
+  /** A job whose first `failures` runs fail. */
+  function flaky(name: string, failures: number, attempts?: number): Job {
+    return {
+      name,
+      attempts,
+      run: async () => {
+        const tried = (tries.get(name) ?? 0) + 1;
+        tries.set(name, tried);
+        if (tried <= failures) {
+          throw new Error(`Failure ${tried}`);
+        }
+        return `Succeeded on try ${tried}`;
+      },
+    };
+  }
+
+  // Its lock expires while it runs, and another instance takes the job over.
+  const overtaken: Job = {
+    name: "overtaken",
+    run: async () => {
+      await db.collection<Document>("jobs").updateOne({ name: "overtaken" }, { $set: { lockedBy: "another instance" } });
+    },
+  };
+
+  before(async () => {
+    mock.timers.enable({ apis: ["Date", "setInterval"], now: new Date("2030-01-01") });
+    await startScheduler([flaky("recovers", 2), flaky("gives-up", Infinity, 2), flaky("locked", 0), overtaken]);
+  });
+
+  after(() => {
+    stopScheduler();
+    mock.timers.reset();
+  });
+
+  /**
+   * Moves the clock `ms` forward, letting the scheduler run the jobs that are due every time it polls.
+   */
+  async function wait(ms: number) {
+    for (let waited = 0; waited < ms; waited += POLL_MS) {
+      mock.timers.tick(POLL_MS);
+      // Real time, which isn't mocked, for the due jobs to run.
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+
+  async function runsOf(name: string) {
+    // Oldest first.
+    return (await getJobRuns({ name })).items.reverse().map((run) => [run.attempt, run.status, run.result ?? run.error]);
+  }
+
+  async function jobNamed(name: string) {
+    return (await getJobs()).items.find((job) => job.name === name)!;
+  }
+
+  void it("tries failed runs again, waiting twice as long every time", async () => {
+    await scheduleJob("recovers", new Date());
+    await wait(POLL_MS);
+    assert.deepEqual(await runsOf("recovers"), [[1, "failed", "Failure 1"]]);
+    // 30 seconds after the first failure.
+    await wait(POLL_MS);
+    assert.equal((await runsOf("recovers")).length, 1);
+    await wait(POLL_MS);
+    assert.equal((await runsOf("recovers")).length, 2);
+    // 1 minute after the second one.
+    await wait(3 * POLL_MS);
+    assert.equal((await runsOf("recovers")).length, 2);
+    await wait(POLL_MS);
+    assert.deepEqual(await runsOf("recovers"), [
+      [1, "failed", "Failure 1"],
+      [2, "failed", "Failure 2"],
+      [3, "succeeded", "Succeeded on try 3"],
+    ]);
+    const job = await jobNamed("recovers");
+    assert.equal(job.status, "done");
+    assert.equal(job.lockedBy, null);
+  });
+
+  void it("gives up on a run after its attempts", async () => {
+    await scheduleJob("gives-up", new Date());
+    await wait(10 * 60_000);
+    assert.deepEqual(await runsOf("gives-up"), [
+      [1, "failed", "Failure 1"],
+      [2, "failed", "Failure 2"],
+    ]);
+    assert.equal((await jobNamed("gives-up")).status, "failed");
+  });
+
+  void it("doesn't run jobs locked by another instance until their lock expires", async () => {
+    const { _id } = await scheduleJob("locked", new Date());
+    await db.collection<Document>("jobs").updateOne({ _id }, { $set: { lockedBy: "another instance", lockedUntil: new Date(Date.now() + 10 * 60_000) } });
+    await wait(9 * 60_000);
+    assert.deepEqual(await runsOf("locked"), []);
+    await wait(60_000);
+    assert.deepEqual(await runsOf("locked"), [[1, "succeeded", "Succeeded on try 1"]]);
+  });
+
+  void it("leaves jobs that another instance took over to it", async () => {
+    await scheduleJob("overtaken", new Date());
+    await wait(POLL_MS);
+    assert.equal((await runsOf("overtaken")).length, 1);
+    const job = await jobNamed("overtaken");
+    assert.equal(job.status, "scheduled");
+    assert.equal(job.lockedBy, "another instance");
+  });
+});
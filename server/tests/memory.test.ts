@@ -0,0 +1,113 @@
+import { Document, MongoServerError, ObjectId } from "mongodb";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+
+import MemoryStorage from "../framework/memory";
+import { CollectionDriver } from "../framework/storage";
+
+interface Thing extends Document {
+  name: string;
+  owner: ObjectId;
+  tags: string[];
+  size?: number;
+  date: Date;
+  details?: { color: string };
+}
+
+void describe("MemoryStorage", () => {
+  const alice = new ObjectId();
+  const bob = new ObjectId();
+  let storage: MemoryStorage;
+  let things: CollectionDriver<Thing>;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    things = storage.collection<Thing>("things");
+    await things.insertMany([
+      { name: "chair", owner: alice, tags: ["wood"], size: 2, date: new Date("2024-01-01"), details: { color: "red" } },
+      { name: "table", owner: bob, tags: ["wood", "big"], size: 5, date: new Date("2024-02-01") },
+      { name: "lamp", owner: alice, tags: [], date: new Date("2024-03-01"), details: { color: "blue" } },
+    ]);
+  });
+
+  async function names(filter: Document, options?: Document) {
+    return (await things.find(filter, options)).map((thing) => thing.name);
+  }
+
+  void it("filters by equality, including on ObjectIds, array elements and nested fields", async () => {
+    assert.deepEqual(await names({ owner: new ObjectId(alice.toHexString()) }), ["chair", "lamp"]);
+    assert.deepEqual(await names({ tags: "big" }), ["table"]);
+    assert.deepEqual(await names({ "details.color": "blue" }), ["lamp"]);
+    // A missing field equals null.
+    assert.deepEqual(await names({ size: null }), ["lamp"]);
+  });
+
+  void it("filters with query operators", async () => {
+    assert.deepEqual(await names({ owner: { $in: [bob, new ObjectId()] } }), ["table"]);
+    assert.deepEqual(await names({ owner: { $nin: [bob] } }), ["chair", "lamp"]);
+    assert.deepEqual(await names({ date: { $gte: new Date("2024-02-01"), $lt: new Date("2024-03-01") } }), ["table"]);
+    assert.deepEqual(await names({ $or: [{ name: "chair" }, { size: { $gt: 4 } }] }), ["chair", "table"]);
+    assert.deepEqual(await names({ $and: [{ owner: alice }, { size: { $exists: false } }] }), ["lamp"]);
+    assert.deepEqual(await names({ name: { $ne: "chair" } }), ["table", "lamp"]);
+    await assert.rejects(things.find({ name: { $regex: "a" } }), /not supported/);
+  });
+
+  void it("sorts, skips and limits", async () => {
+    assert.deepEqual(await names({}, { sort: { date: -1 } }), ["lamp", "table", "chair"]);
+    // Missing values sort first.
+    assert.deepEqual(await names({}, { sort: { size: 1 } }), ["lamp", "chair", "table"]);
+    assert.deepEqual(await names({}, { sort: { owner: 1, name: -1 }, skip: 1, limit: 1 }), alice.toHexString() < bob.toHexString() ? ["chair"] : ["lamp"]);
+    assert.equal((await things.findOne({ owner: alice }, { sort: { name: 1 } }))?.name, "chair");
+  });
+
+  void it("applies updates and keeps its documents from being changed by callers", async () => {
+    await things.updateOne({ name: "chair" }, { $set: { "details.color": "green" }, $inc: { size: 1 } });
+    await things.updateMany({ owner: alice }, { $unset: { details: "" } });
+    const chair = (await things.findOne({ name: "chair" }))!;
+    assert.equal(chair.size, 3);
+    assert.equal(chair.details, undefined);
+    chair.tags.push("changed");
+    assert.deepEqual((await things.findOne({ name: "chair" }))!.tags, ["wood"]);
+    assert.equal(await things.countDocuments({ details: { $exists: true } }), 0);
+    assert.equal((await things.deleteMany({ owner: alice })).deletedCount, 2);
+    assert.deepEqual(await names({}), ["table"]);
+  });
+
+  void it("enforces unique indexes like MongoDB", async () => {
+    await things.createIndex({ name: "name_1", key: { name: 1 }, unique: true });
+    await assert.rejects(things.insertOne({ name: "chair", owner: bob, tags: [], date: new Date() }), (e: MongoServerError) => e.code === 11000);
+    await assert.rejects(things.updateOne({ name: "lamp" }, { $set: { name: "table" } }), (e: MongoServerError) => e.code === 11000);
+    await assert.rejects(things.createIndex({ name: "owner_1", key: { owner: 1 }, unique: true }), (e: MongoServerError) => e.code === 11000);
+    assert.deepEqual(
+      (await things.listIndexes()).map((index) => index.name),
+      ["_id_", "name_1"],
+    );
+  });
+
+  void it("rolls back every write of a failed transaction and only runs its effects once it commits", async () => {
+    const effects: string[] = [];
+    await assert.rejects(
+      storage.transaction(async () => {
+        await things.insertOne({ name: "sofa", owner: bob, tags: [], date: new Date() });
+        await things.updateOne({ name: "chair" }, { $set: { size: 10 } });
+        // Nested transactions join the outer one.
+        await storage.transaction(async () => {
+          await things.deleteOne({ name: "table" });
+        });
+        storage.afterCommit(() => effects.push("rolled back"));
+        throw new Error("Something went wrong");
+      }),
+      /Something went wrong/,
+    );
+    assert.deepEqual(await names({}, { sort: { name: 1 } }), ["chair", "lamp", "table"]);
+    assert.equal((await things.findOne({ name: "chair" }))!.size, 2);
+
+    await storage.transaction(async () => {
+      await things.insertOne({ name: "sofa", owner: bob, tags: [], date: new Date() });
+      storage.afterCommit(() => effects.push("committed"));
+      assert.deepEqual(effects, []);
+    });
+    assert.deepEqual(effects, ["committed"]);
+    assert.deepEqual(await names({ owner: bob }), ["table", "sofa"]);
+  });
+});
@@ -0,0 +1,68 @@
+import { Document, ObjectId } from "mongodb";
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+import db from "../db";
+import { getMigrationStatus, Migration, migrateDown, migrateUp } from "../framework/migrations";
+import migrations from "../migrations";
+
+void describe("Migrations", () => {
+  const users = db.collection<Document>("users");
+  const medias = db.collection<Document>("medias");
+  const folders = db.collection<Document>("practice folders");
+  const names = migrations.map((migration) => migration.name);
+  const headshot = new ObjectId();
+
+  before(async () => {
+    // Documents as they were stored before any migration.
+    await users.insertMany([
+      { email: "old@test", profilePic: "https://drive.google.com/file/d/old/preview" },
+      { email: "new@test", profilePic: headshot },
+    ]);
+    await medias.insertOne({ _id: headshot, url: "https://drive.google.com/file/d/new/preview" });
+    await db.collection<Document>("portfolios").insertOne({ user: new ObjectId(), headshot, media: [] });
+    await folders.insertOne({ contents: ["a", "b"] });
+  });
+
+  void it("applies the pending migrations in order, once", async () => {
+    assert.deepEqual(await migrateUp(migrations), names);
+    assert.deepEqual(await migrateUp(migrations), []);
+    assert.ok((await getMigrationStatus(migrations)).every((migration) => migration.applied));
+
+    const old = (await users.findOne({ email: "old@test" }))!;
+    assert.ok(old.profilePic instanceof ObjectId);
+    assert.equal((await medias.findOne({ _id: old.profilePic }))!.url, "https://drive.google.com/file/d/old/preview");
+    assert.equal((await folders.findOne({}))!.numContents, 2);
+    assert.equal(old.version, 1);
+  });
+
+  void it("reverts the last applied migrations, most recent first, keeping media still in use", async () => {
+    assert.deepEqual(await migrateDown(migrations), [names[2]]);
+    assert.equal((await users.findOne({ email: "old@test" }))!.version, undefined);
+    assert.deepEqual(await migrateDown(migrations, 5), [names[1], names[0]]);
+
+    assert.equal((await users.findOne({ email: "old@test" }))!.profilePic, "https://drive.google.com/file/d/old/preview");
+    assert.equal((await users.findOne({ email: "new@test" }))!.profilePic, "https://drive.google.com/file/d/new/preview");
+    // Only the headshot is left.
+    assert.deepEqual(
+      (await medias.find({})).map((media) => media._id),
+      [headshot],
+    );
+    assert.equal((await folders.findOne({}))!.numContents, undefined);
+    assert.ok((await getMigrationStatus(migrations)).every((migration) => !migration.applied));
+  });
+
+  void it("rolls back a migration that another instance applied meanwhile", async () => {
+    const racing: Migration = {
+      name: "999-racing",
+      async up(storage) {
+        await storage.collection<Document>("practice folders").updateMany({}, { $set: { raced: true } });
+        // What another instance applying the same migration at the same time would record.
+        await storage.collection<Document>("migrations").insertOne({ name: "999-racing" });
+      },
+      async down() {},
+    };
+    await assert.rejects(migrateUp([racing]), /Migration '999-racing' was applied by another instance meanwhile!/);
+    assert.equal((await folders.findOne({}))!.raced, undefined);
+  });
+});
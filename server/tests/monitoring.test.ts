@@ -0,0 +1,50 @@
+import express from "express";
+import { MemoryStore } from "express-session";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import assert from "node:assert/strict";
+import { after, afterEach, describe, it } from "node:test";
+
+import { getMonitoringRouter } from "../monitoring";
+import { Client } from "./api";
+
+void describe("Monitoring", () => {
+  const app = express();
+  app.use("/api", getMonitoringRouter(new MemoryStore()));
+  const server: Server = app.listen(0);
+  const client = new Client(`http://localhost:${(server.address() as AddressInfo).port}/api`);
+
+  afterEach(() => {
+    delete process.env.METRICS_TOKEN;
+    delete process.env.NODE_ENV;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  void it("answers health and readiness probes", async () => {
+    assert.equal((await client.request("GET", "/health")).status, 200);
+    const ready = await client.request<{ status: string }>("GET", "/ready");
+    assert.equal(ready.status, 200);
+    assert.equal(ready.body.status, "ready");
+  });
+
+  void it("serves metrics only with the token once it is set", async () => {
+    assert.equal((await client.request("GET", "/metrics")).status, 200);
+    process.env.METRICS_TOKEN = "secret";
+    const refused = await client.request("GET", "/metrics", undefined, { Authorization: "Bearer wrong", "Accept-Language": "fr" });
+    assert.equal(refused.status, 401);
+    assert.deepEqual(refused.body, { code: "UNAUTHENTICATED", msg: "Jeton de métriques invalide !", params: {}, requestId: "" });
+    assert.equal((await client.request("GET", "/metrics", undefined, { Authorization: "Bearer secret" })).status, 200);
+  });
+
+  void it("refuses metrics in production until the token is set", async () => {
+    process.env.NODE_ENV = "production";
+    const refused = await client.request("GET", "/metrics");
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.code, "NOT_ALLOWED");
+    process.env.METRICS_TOKEN = "secret";
+    assert.equal((await client.request("GET", "/metrics", undefined, { Authorization: "Bearer secret" })).status, 200);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { before, describe, it, mock } from "node:test";
+
+import { FocusedPost, Media, Portfolio, Tag, User } from "../app";
+import { FocusedPostDoc } from "../concepts/focusedPost";
+import { runInContext } from "../framework/context";
+import DocCollection, { BaseDoc } from "../framework/doc";
+import Responses from "../responses";
+
+const COLLECTIONS: DocCollection<BaseDoc>[] = [User.users, FocusedPost.posts, FocusedPost.categories, Media.medias, Portfolio.portfolios, Tag.tags] as unknown as DocCollection<BaseDoc>[];
+
+/**
+ * Runs `convert` in a request context like routes do, and counts the reads it made of each collection,
+ * leaving out the collections it didn't read.
+ */
+async function countQueries(convert: () => Promise<unknown>) {
+  const reads = COLLECTIONS.map((collection) => [mock.method(collection, "readOne"), mock.method(collection, "readMany")]);
+  try {
+    await runInContext({ requestId: randomUUID(), route: "GET /test" }, convert);
+  } finally {
+    mock.restoreAll();
+  }
+  const counts = COLLECTIONS.map((collection, i) => [collection.name, reads[i].reduce((count, read) => count + read.mock.callCount(), 0)] as const);
+  return Object.fromEntries(counts.filter(([, count]) => count > 0));
+}
+
+function driveLink(name: string) {
+  return `https://drive.google.com/file/d/${name}/view`;
+}
+
+void describe("Responses", () => {
+  let posts: FocusedPostDoc[];
+
+  before(async () => {
+    const users = [];
+    for (let i = 0; i < 4; i++) {
+      const { user } = await User.create(`responses${i}@test`, "password", `User ${i}`, new Date("2000-01-01"), "Boston", "MA", "USA");
+      users.push(user!._id);
+      await Portfolio.create(user!._id, await Media.create(user!._id, driveLink(`headshot-${i}`)));
+      for (let j = 0; j < 3; j++) {
+        await Portfolio.addMedia(user!._id, await Media.create(user!._id, driveLink(`portfolio-${i}-${j}`)));
+      }
+    }
+    const categories = [(await FocusedPost.createCategory("Monologue", "Monologues")).category!._id, (await FocusedPost.createCategory("Song", "Songs")).category!._id];
+    // The first two users write the posts and tag the other two in some of them.
+    posts = [];
+    for (let i = 0; i < 12; i++) {
+      const author = users[i % 2];
+      const media = [await Media.create(author, driveLink(`post-${i}-0`)), await Media.create(author, driveLink(`post-${i}-1`))];
+      const { post } = await FocusedPost.create(author, `Post ${i}`, media, categories[i % categories.length]);
+      posts.push(post!);
+      if (i % 3 === 0) {
+        await Tag.create(author, users[2 + (i % 2)], post!._id);
+      }
+    }
+  });
+
+  void it("converts a feed with one query per collection it refers to", async () => {
+    const one = await countQueries(() => Responses.posts(posts.slice(0, 1)));
+    const all = await countQueries(() => Responses.posts(posts));
+    assert.deepEqual(one, { users: 1, "focused post categories": 1, medias: 1 });
+    assert.deepEqual(all, one);
+  });
+
+  void it("converts portfolios with one query per collection they refer to", async () => {
+    const portfolios = await Portfolio.portfolios.readMany({});
+    const one = await countQueries(() => Responses.portfolio(portfolios[0]));
+    const all = await countQueries(() => Responses.portfolios(portfolios));
+    assert.deepEqual(one, { users: 1, medias: 1 });
+    assert.deepEqual(all, one);
+  });
+
+  void it("converts tags with their posts without a query per tag", async () => {
+    const tags = await Tag.tags.readMany({});
+    assert.ok(tags.length > 1);
+    const one = await countQueries(() => Responses.tags(tags.slice(0, 1)));
+    const all = await countQueries(() => Responses.tags(tags));
+    // The tagged posts, then what they refer to, then the taggers and tagged users that weren't among the authors.
+    assert.deepEqual(one, { "focused posts": 1, users: 2, "focused post categories": 1, medias: 1 });
+    assert.deepEqual(all, one);
+  });
+
+  void it("reuses what was loaded earlier in the same request", async () => {
+    const counts = await countQueries(async () => {
+      await Responses.posts(posts);
+      await Responses.posts(posts);
+    });
+    assert.deepEqual(counts, { users: 1, "focused post categories": 1, medias: 1 });
+  });
+});
@@ -0,0 +1,84 @@
+import { ObjectId } from "mongodb";
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+import { FocusedPost, Search, User } from "../app";
+
+void describe("Search", () => {
+  const ids = new Map<string, ObjectId>();
+  let author: ObjectId;
+
+  async function post(name: string, content: string) {
+    const { post } = await FocusedPost.create(author, content, [], (await FocusedPost.findCategory("Monologue"))!._id);
+    ids.set(name, post!._id);
+  }
+
+  async function user(name: string, city: string) {
+    const { user } = await User.create(`${name.replace(/\W/g, "")}@search.test`, "password", name, new Date("2000-01-01"), city, "MA", "USA");
+    ids.set(name, user!._id);
+  }
+
+  /** Names of what `query` finds, most relevant first. */
+  async function search(query: string, types?: string[]) {
+    const { items } = await Search.search(query, types);
+    return items.map((item) => [...ids].find(([, _id]) => _id.equals(item.document))?.[0]);
+  }
+
+  before(async () => {
+    await FocusedPost.createCategory("Monologue", "Monologues");
+    await user("Author", "Springfield");
+    author = ids.get("Author")!;
+    await post("danced", "They danced until dawn.");
+    await post("singing", "Singing lessons every Tuesday.");
+    await post("singular", "A singular voice, unlike any other.");
+    await post("long", `${"Rehearsals start early. ".repeat(10)}Bring <b>water</b> & comfortable shoes. ${"Costumes are provided. ".repeat(10)}`);
+    await user("Boston Smith", "Chicago");
+    await user("Jane Doe", "Boston");
+  });
+
+  void it("finds other forms of the same word", async () => {
+    assert.deepEqual(await search("dancing"), ["danced"]);
+    assert.deepEqual(await search("DANCES"), ["danced"]);
+  });
+
+  void it("finds words from their beginning, ranked below other forms of the word", async () => {
+    assert.deepEqual(await search("sing"), ["singing", "singular"]);
+    assert.deepEqual(await search("dan"), ["danced"]);
+    // Too short to be a beginning.
+    assert.deepEqual(await search("d"), []);
+  });
+
+  void it("only finds documents with every word, ranked by the weight of the fields they're in", async () => {
+    assert.deepEqual(await search("boston"), ["Boston Smith", "Jane Doe"]);
+    assert.deepEqual(await search("boston jane"), ["Jane Doe"]);
+    assert.deepEqual(await search("boston", ["post"]), []);
+    await assert.rejects(Search.search("the !", ["post"]), /The search 'the !' has no words to look for!/);
+    await assert.rejects(Search.search("boston", ["unknown"]), /Can't search unknown!/);
+  });
+
+  void it("makes an escaped snippet around the first match, with the matches marked", async () => {
+    const [result] = (await Search.search("water shoes")).items;
+    assert.equal(result.field, "content");
+    assert.ok(result.snippet.startsWith("…"));
+    assert.ok(result.snippet.endsWith("…"));
+    assert.match(result.snippet, /Bring &lt;b&gt;<mark>water<\/mark>&lt;\/b&gt; &amp; comfortable <mark>shoes<\/mark>\. Costumes/);
+  });
+
+  void it("forgets documents moved to the trash and brings them back with them", async () => {
+    await FocusedPost.delete(ids.get("danced")!, author);
+    assert.deepEqual(await search("dance"), []);
+    await FocusedPost.restore(ids.get("danced")!, author);
+    assert.deepEqual(await search("dance"), ["danced"]);
+  });
+
+  void it("rebuilds the index from the documents", async () => {
+    const indexed = await Search.entries.count({});
+    // An entry of a document that is gone, and one that is missing.
+    await Search.entries.createOne({ type: "post", document: new ObjectId(), fields: { content: "Ghost" }, terms: ["ghost"], prefixes: ["gh", "gho", "ghos", "ghost"] });
+    await Search.entries.deleteOne({ document: ids.get("singing") });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    assert.equal(await Search.rebuild(), indexed);
+    assert.deepEqual(await search("ghost"), []);
+    assert.deepEqual(await search("sing"), ["singing", "singular"]);
+  });
+});
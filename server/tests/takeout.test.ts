@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { deflateRawSync } from "zlib";
+
+import { MAX_UNZIPPED_SIZE, createZip, readZip } from "../framework/zip";
+import { TAKEOUT_FORMAT, TAKEOUT_VERSION } from "../takeout";
+import { Client, serveApi } from "./api";
+
+void describe("readZip", () => {
+  void it("unpacks what createZip packed", () => {
+    const files = readZip(
+      createZip([
+        { name: "posts.json", data: "[]" },
+        { name: "répertoire/notes.txt", data: Buffer.from("To be") },
+      ]),
+    );
+    assert.deepEqual(
+      [...files].map(([name, data]) => [name, data.toString()]),
+      [
+        ["posts.json", "[]"],
+        ["répertoire/notes.txt", "To be"],
+      ],
+    );
+  });
+
+  void it("refuses archives that unpack to too much", () => {
+    // Zeros compress to next to nothing.
+    const bomb = createZip([{ name: "bomb.txt", data: Buffer.alloc(MAX_UNZIPPED_SIZE + 1) }]);
+    assert.ok(bomb.length < 100_000);
+    assert.throws(() => readZip(bomb), /The archive unpacks to more than 50 MB!/);
+    // Even when they claim to be small.
+    const liar = createZip([{ name: "liar.txt", data: "tiny" }]);
+    const central = liar.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    const data = deflateRawSync(Buffer.alloc(1024 * 1024));
+    const lying = Buffer.concat([liar.subarray(0, 34), data, liar.subarray(central)]);
+    assert.throws(() => readZip(lying), /The file isn't a valid zip archive!/);
+  });
+
+  void it("refuses files that aren't zip archives", () => {
+    assert.throws(() => readZip(Buffer.from("not a zip archive, but long enough to be searched")), /The file isn't a valid zip archive!/);
+  });
+});
+
+void describe("Takeout", () => {
+  const api = serveApi();
+  const owner = new Client(api.url);
+  const drive = (name: string) => `https://drive.google.com/file/d/${name}/view`;
+  const style = { backgroundImage: null, backgroundColor: "black", font: "Georgia", fontSize: 14, textColor: "white" };
+  const info = { education: ["Juilliard"], experience: ["Hamlet"], skills: ["Fencing"], languages: ["French"] };
+  let archive: Buffer;
+
+  before(async () => {
+    const admin = new Client(api.url);
+    await admin.signUp("admin@takeout.test", ["admin"]);
+    const category = (await admin.request<{ category: { _id: string } }>("POST", "/categories", { name: "Monologue", description: "Monologues" })).body.category._id;
+    await owner.signUp("owner@takeout.test");
+    assert.equal((await owner.request("PATCH", "/portfolio", { update: { intro: "Hi!", style, info }, headshot: drive("headshot") })).status, 200);
+    assert.equal((await owner.request("PATCH", "/portfolio/media/add", { media: drive("reel") })).status, 200);
+    assert.equal((await owner.request("POST", "/focusedPosts", { content: "To be or not to be", mediaURLs: [drive("post")], categoryID: category })).status, 200);
+    const folder = (await owner.request<{ folder: { _id: string } }>("POST", "/repertoirefolders", { name: "Shakespeare" })).body.folder._id;
+    assert.equal((await owner.request("PATCH", "/repertoirefolders/add", { content: "Hamlet", folder })).status, 200);
+    assert.equal((await owner.request("PATCH", "/practicefolder/add", { content: "Scales" })).status, 200);
+    const exported = await owner.request<Buffer>("GET", "/users/export");
+    assert.equal(exported.status, 200);
+    assert.equal(exported.headers.get("Content-Type"), "application/zip");
+    archive = exported.body;
+  });
+
+  after(() => {
+    api.close();
+  });
+
+  async function importInto(client: Client, zip: Buffer) {
+    return await client.request<{ imported: Record<string, number>; code?: string; msg?: string }>("POST", "/users/import", zip, { "Content-Type": "application/zip" });
+  }
+
+  // What the archive of an account holds, leaving out when things were made.
+  function content(zip: Buffer) {
+    const files = readZip(zip);
+    const read = (name: string) => JSON.parse(files.get(name)!.toString()) as unknown;
+    const posts = read("posts.json") as Record<string, unknown>[];
+    return {
+      portfolio: read("portfolio.json"),
+      posts: posts.map(({ content, category, media }) => ({ content, category, media })),
+      folders: (read("folders.json") as { practice: string[]; repertoire: { name: string; contents: string[] }[] }).repertoire.map(({ name, contents }) => ({ name, contents })),
+    };
+  }
+
+  void it("imports an export into a new account, once", async () => {
+    const copy = new Client(api.url);
+    await copy.signUp("copy@takeout.test");
+    const imported = await importInto(copy, archive);
+    assert.equal(imported.status, 200);
+    assert.deepEqual(imported.body.imported, { portfolio: 1, posts: 1, skippedPosts: 0, folders: 1, media: 3 });
+    const copied = content((await copy.request<Buffer>("GET", "/users/export")).body);
+    assert.deepEqual(copied, content(archive));
+    assert.deepEqual(copied.portfolio, { intro: "Hi!", style, info, headshot: drive("headshot").replace("/view", "/preview"), media: [drive("reel").replace("/view", "/preview")] });
+
+    const again = await importInto(copy, archive);
+    assert.equal(again.status, 403);
+    assert.equal(again.body.msg, "Data can only be imported into a new account, without posts, repertoire folders or media!");
+  });
+
+  void it("validates the portfolio's style and information", async () => {
+    const files = readZip(archive);
+    const portfolio = JSON.parse(files.get("portfolio.json")!.toString()) as Record<string, unknown>;
+    const invalid = createZip([
+      { name: "manifest.json", data: JSON.stringify({ format: TAKEOUT_FORMAT, version: TAKEOUT_VERSION }) },
+      { name: "portfolio.json", data: JSON.stringify({ ...portfolio, style: { ...style, fontSize: "big" }, info: { skills: "Fencing" } }) },
+    ]);
+    const other = new Client(api.url);
+    await other.signUp("other@takeout.test");
+    const imported = await importInto(other, invalid);
+    assert.equal(imported.status, 400);
+    assert.equal(imported.body.code, "INVALID_PARAMS");
+    assert.match(imported.body.msg!, /fontSize \(must be a number\)/);
+  });
+});
@@ -0,0 +1,93 @@
+import { ObjectId } from "mongodb";
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { Comment, FocusedPost, Tag, Vote } from "../app";
+import { Client, serveApi } from "./api";
+
+void describe("Trash", () => {
+  const api = serveApi();
+  const admin = new Client(api.url);
+  const author = new Client(api.url);
+  const tagged = new Client(api.url);
+  const commenter = new Client(api.url);
+  let taggedId: string;
+  let category: string;
+
+  before(async () => {
+    await admin.signUp("admin@trash.test", ["admin"]);
+    await author.signUp("author@trash.test");
+    taggedId = await tagged.signUp("tagged@trash.test");
+    await commenter.signUp("commenter@trash.test");
+    category = (await admin.request<{ category: { _id: string } }>("POST", "/categories", { name: "Monologue", description: "Monologues" })).body.category._id;
+  });
+
+  after(() => {
+    api.close();
+  });
+
+  /**
+   * Makes a post that tags someone, with a comment and a vote from someone else.
+   * @returns the id of the post
+   */
+  async function makePost(content: string) {
+    const created = await author.request<{ post: { _id: string } }>("POST", "/focusedPosts", { content, media: ["https://drive.google.com/file/d/post/view"], categoryID: category });
+    assert.equal(created.status, 200);
+    const post = created.body.post._id;
+    assert.equal((await author.request("POST", "/tags", { post, tagged: taggedId })).status, 200);
+    assert.equal((await commenter.request("POST", "/comments", { post, content: "Bravo!" })).status, 200);
+    assert.equal((await commenter.request("POST", "/vote", { post, upvote: true })).status, 200);
+    return post;
+  }
+
+  async function tagsOf(user: string) {
+    return (await author.request<{ items: unknown[] }>("GET", `/tags/user/${user}`)).body.items.length;
+  }
+
+  async function applause(client: Client) {
+    return (await client.request<number>("GET", "/applause")).body;
+  }
+
+  void it("takes a post's tags to the trash and back with it", async () => {
+    const post = await makePost("To be or not to be");
+    assert.equal(await tagsOf(taggedId), 1);
+    assert.equal(await applause(tagged), 2);
+
+    assert.equal((await author.request("DELETE", `/focusedPosts?id=${post}`)).status, 200);
+    assert.equal(await tagsOf(taggedId), 0);
+    assert.equal(await applause(tagged), 0);
+
+    assert.equal((await author.request("PATCH", `/trash/focusedPosts/restore/${post}`)).status, 200);
+    assert.equal(await tagsOf(taggedId), 1);
+    assert.equal(await applause(tagged), 2);
+    // The tag can still be removed and made again.
+    assert.equal((await author.request("DELETE", `/tags?post=${post}&tagged=${taggedId}`)).status, 200);
+    assert.equal((await author.request("POST", "/tags", { post, tagged: taggedId })).status, 200);
+
+    assert.equal((await author.request("DELETE", `/focusedPosts?id=${post}`)).status, 200);
+  });
+
+  void it("purges the tags, comments and votes of purged posts", async () => {
+    const post = await makePost("Now is the winter of our discontent");
+    assert.equal((await author.request("DELETE", `/focusedPosts?id=${post}`)).status, 200);
+
+    assert.equal((await author.request("DELETE", "/trash")).status, 403);
+    const purged = await admin.request("DELETE", "/trash");
+    assert.equal(purged.status, 200);
+    // The posts of both tests and their comments.
+    assert.equal(purged.body.msg, "Permanently deleted 4 items from the trash!");
+    assert.deepEqual(await Tag.tags.readDeletedPage({}), { items: [], nextCursor: null });
+    assert.deepEqual(await Tag.tags.readMany({}), []);
+    assert.deepEqual(await Comment.comments.readMany({}), []);
+    assert.deepEqual(await Vote.votes.readMany({}), []);
+  });
+
+  void it("moves the posts and comments of deleted accounts to the trash", async () => {
+    const post = await makePost("Friends, Romans, countrymen");
+    assert.equal((await commenter.request("DELETE", "/users")).status, 200);
+    assert.deepEqual(await Comment.comments.readMany({}), []);
+    assert.equal((await author.request("DELETE", "/users")).status, 200);
+    assert.equal(await FocusedPost.posts.readOne({ _id: new ObjectId(post) }), null);
+    assert.notEqual(await FocusedPost.posts.readDeletedOne({ _id: new ObjectId(post) }), null);
+  });
+});